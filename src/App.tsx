@@ -1,8 +1,10 @@
 
 import React from 'react';
-import { ScanStatus, ErrorCode } from './types';
+import { ScanStatus, ErrorCode, DetectionSource, SiteRuleMode } from './types';
 import { useExtensionStatus } from './hooks/useExtensionStatus';
 import { CookieIcon, SparklesIcon, ErrorIcon, CheckCircleIcon, SearchIcon, IdleIcon, SettingsIcon } from './components/Icons';
+import { ScanTimeline } from './components/ScanTimeline';
+import { ClickDetails } from './components/ClickDetails';
 import { UI_TEXT } from './constants';
 
 /**
@@ -27,10 +29,21 @@ const App: React.FC = () => {
   const { 
     status, 
     error, 
+    step,
+    result,
+    events,
+    wrongClickReport,
+    isReportingWrongClick,
     lastUrl, 
     isScanning, 
     showAds, 
+    autoMode,
+    hostname,
+    siteRule,
     handleManualScan, 
+    handleAutoModeChange,
+    handleSiteRuleChange,
+    handleReportWrongClick,
     openOptionsPage 
   } = useExtensionStatus();
 
@@ -42,17 +55,42 @@ const App: React.FC = () => {
     // If there's an error, display it with high priority.
     if (error) {
       // Determine if the error is something the user can fix in settings.
-      const needsSettingsButton = error.code === ErrorCode.API_KEY_INVALID || error.code === ErrorCode.CONSENT_REQUIRED;
+      const needsSettingsButton = error.code === ErrorCode.API_KEY_INVALID || error.code === ErrorCode.CONSENT_REQUIRED
+        || error.code === ErrorCode.BUDGET_EXCEEDED || error.code === ErrorCode.QUOTA_EXHAUSTED;
       
-      // Provide user-friendly messages for specific, known error codes.
+      // Provide user-friendly messages for specific, known error codes, with what the user can do about them.
       let displayMessage = "An unexpected error occurred.";
+      let remedy = '';
       switch (error.code) {
         case ErrorCode.API_KEY_INVALID:
-          displayMessage = "Your Gemini API Key is invalid or missing.";
+          displayMessage = "Your API key is invalid or missing.";
           break;
         case ErrorCode.CONSENT_REQUIRED:
           displayMessage = "The free service requires your consent.";
           break;
+        case ErrorCode.BUDGET_EXCEEDED:
+          displayMessage = "Your monthly AI budget is used up. Only built-in rules and learned sites are handled until next month.";
+          break;
+        case ErrorCode.RATE_LIMITED:
+          displayMessage = "The AI service is receiving too many requests right now.";
+          remedy = "Wait a minute, then scan again.";
+          break;
+        case ErrorCode.QUOTA_EXHAUSTED:
+          displayMessage = "The AI service's quota is used up.";
+          remedy = "Check the plan and billing of your API key, or try again tomorrow.";
+          break;
+        case ErrorCode.AI_SERVER_ERROR:
+          displayMessage = "The AI service is having problems.";
+          remedy = "This is usually temporary. Try again in a few minutes.";
+          break;
+        case ErrorCode.NETWORK_OFFLINE:
+          displayMessage = "Could not reach the AI service.";
+          remedy = "Check your internet connection (or that your local AI server is running), then scan again.";
+          break;
+        case ErrorCode.REQUEST_TIMEOUT:
+          displayMessage = "The AI service took too long to answer.";
+          remedy = "Scan again. If it keeps happening, pick a faster model or a smaller input size in the settings.";
+          break;
         default:
           displayMessage = error.message;
           break;
@@ -62,6 +100,7 @@ const App: React.FC = () => {
         <div className="flex flex-col items-center space-y-3 text-center">
             <ErrorIcon className="h-8 w-8 text-red-400" />
             <p className="text-sm">{displayMessage}</p>
+            {remedy && <p className="text-xs text-gray-400">{remedy}</p>}
             {/* Show a helpful button to guide the user to the options page if applicable. */}
             {needsSettingsButton && (
               <button onClick={openOptionsPage} className="text-sm bg-blue-600 hover:bg-blue-500 px-3 py-1 rounded-md">
@@ -72,15 +111,60 @@ const App: React.FC = () => {
       );
     }
     
+    // For multi-step banners, show which step is in progress (e.g., "Step 2 of 3").
+    const stepProgress = step && (step.current > 1 || step.description) && (
+      <p className="text-xs text-gray-400" title={step.description}>
+        {UI_TEXT.STEP_PROGRESS(step.current, step.max)}{step.description && ` · ${step.description}`}
+      </p>
+    );
+
+    // After a custom-policy scan, list the purpose toggles that were changed.
+    const toggleSummary = result && result.changedToggles.length > 0 && (
+      <ul className="text-xs text-gray-400">
+        {result.changedToggles.map(toggle => (
+          <li key={`${toggle.purpose}-${toggle.label}`}>{toggle.label || toggle.purpose}: {toggle.enabled ? 'on' : 'off'}</li>
+        ))}
+      </ul>
+    );
+
+    // Mention when the choice was not made by the AI from the HTML, but replayed from an earlier visit, matched by a built-in rule, set through a consent API, or found on a screenshot.
+    const sourceNotes: Partial<Record<DetectionSource, string>> = {
+      [DetectionSource.CACHE]: UI_TEXT.FROM_CACHE,
+      [DetectionSource.RULES]: result?.cmp && UI_TEXT.FROM_RULES(result.cmp),
+      [DetectionSource.API]: result?.cmp && UI_TEXT.FROM_API(result.cmp),
+      [DetectionSource.VISUAL]: UI_TEXT.FROM_SCREENSHOT,
+    };
+    const sourceNote = result && sourceNotes[result.source] && (
+      <p className="text-xs text-gray-400">{sourceNotes[result.source]}</p>
+    );
+
+    // Show what was clicked, so the user can report a wrong button.
+    const clickDetails = result?.clicked && (
+      <ClickDetails
+        result={result}
+        clicked={result.clicked}
+        report={wrongClickReport}
+        isReporting={isReportingWrongClick}
+        onReportWrong={handleReportWrongClick}
+        onScanAgain={handleManualScan}
+      />
+    );
+
     // If no error, render the display for the current scan status.
     // All UI text is imported from constants.ts for easier management.
     switch (status) {
       case ScanStatus.SCANNING:
-        return <div className="flex flex-col items-center space-y-2"><SearchIcon className="h-8 w-8 text-blue-400 animate-pulse" /><p>{UI_TEXT.SCANNING}</p></div>;
+        return <div className="flex flex-col items-center space-y-2"><SearchIcon className="h-8 w-8 text-blue-400 animate-pulse" /><p>{UI_TEXT.SCANNING}</p>{stepProgress}</div>;
       case ScanStatus.ANALYZING:
-        return <div className="flex flex-col items-center space-y-2"><SparklesIcon className="h-8 w-8 text-purple-400 animate-bounce" /><p>{UI_TEXT.ANALYZING}</p></div>;
+        return <div className="flex flex-col items-center space-y-2"><SparklesIcon className="h-8 w-8 text-purple-400 animate-bounce" /><p>{UI_TEXT.ANALYZING}</p>{stepProgress}</div>;
       case ScanStatus.SUCCESS:
-        return <div className="flex flex-col items-center space-y-2"><CheckCircleIcon className="h-8 w-8 text-green-400" /><p>{UI_TEXT.SUCCESS}</p></div>;
+        return <div className="flex flex-col items-center space-y-2"><CheckCircleIcon className="h-8 w-8 text-green-400" /><p>{UI_TEXT.SUCCESS}</p>{stepProgress}{sourceNote}{toggleSummary}{clickDetails}</div>;
+      case ScanStatus.BANNER_PERSISTED:
+        return <div className="flex flex-col items-center space-y-2"><ErrorIcon className="h-8 w-8 text-yellow-400" /><p>{UI_TEXT.BANNER_PERSISTED}</p>{stepProgress}{clickDetails}</div>;
+      case ScanStatus.LOW_CONFIDENCE:
+        return <div className="flex flex-col items-center space-y-2"><ErrorIcon className="h-8 w-8 text-yellow-400" /><p>{UI_TEXT.LOW_CONFIDENCE}</p>{stepProgress}</div>;
+      case ScanStatus.SKIPPED:
+        return <div className="flex flex-col items-center space-y-2"><IdleIcon className="h-8 w-8 text-gray-400" /><p>{UI_TEXT.SKIPPED}</p></div>;
       case ScanStatus.NOT_FOUND:
         return <div className="flex flex-col items-center space-y-2"><IdleIcon className="h-8 w-8 text-gray-400" /><p>{UI_TEXT.NOT_FOUND}</p></div>;
       default: // IDLE
@@ -108,6 +192,9 @@ const App: React.FC = () => {
         <div className="p-6 rounded-lg bg-gray-800 w-full min-h-[120px] flex items-center justify-center">
           <StatusDisplay />
         </div>
+
+        {/* The live timeline of the scan's steps. It is hidden once the tab is idle again. */}
+        {status !== ScanStatus.IDLE && <ScanTimeline events={events} />}
         
         {/* The primary action button */}
         <button
@@ -124,6 +211,43 @@ const App: React.FC = () => {
           {/* Dynamically change button text based on scanning state. */}
           <span>{isScanning ? 'Scanning...' : 'Scan Page Manually'}</span>
         </button>
+
+        {/* The global switch for the automatic mode. */}
+        <label htmlFor="auto-mode-toggle" className="w-full flex items-center justify-between cursor-pointer text-sm text-gray-300">
+          <span>{UI_TEXT.AUTO_MODE}</span>
+          <span className="relative inline-flex items-center">
+            <input
+              type="checkbox"
+              id="auto-mode-toggle"
+              className="sr-only peer"
+              checked={autoMode}
+              onChange={(e) => handleAutoModeChange(e.target.checked)}
+            />
+            <span className="w-9 h-5 bg-gray-600 rounded-full peer peer-checked:after:translate-x-full after:content-[''] after:absolute after:top-0.5 after:left-[2px] after:bg-white after:rounded-full after:h-4 after:w-4 after:transition-all peer-checked:bg-blue-600"></span>
+          </span>
+        </label>
+
+        {/* Quick toggles for a site rule on the current site. Clicking the active one removes it. */}
+        {hostname && (
+          <div className="w-full flex space-x-2 text-xs">
+            {[
+              { mode: SiteRuleMode.NEVER, label: UI_TEXT.NEVER_ON_SITE },
+              { mode: SiteRuleMode.ALWAYS_AUTO, label: UI_TEXT.ALWAYS_ON_SITE },
+            ].map(({ mode, label }) => {
+              const isActive = siteRule?.mode === mode;
+              return (
+                <button
+                  key={mode}
+                  onClick={() => handleSiteRuleChange(isActive ? null : mode)}
+                  title={isActive && siteRule ? `Rule: ${siteRule.pattern}` : hostname}
+                  className={`flex-1 px-2 py-1 rounded-md border transition-colors ${isActive ? 'border-blue-500 bg-blue-900/40 text-blue-200' : 'border-gray-700 text-gray-400 hover:border-gray-500'}`}
+                >
+                  {label}
+                </button>
+              );
+            })}
+          </div>
+        )}
       </main>
       
       <footer className="text-center pt-3 border-t border-gray-700">
@@ -1,8 +1,9 @@
 
-import { resetAiInstanceCache } from '../services/geminiService';
+import { resetAiInstanceCache } from '../services/aiService';
 import { STORAGE_KEYS } from '../constants';
 import { initializeTabStateManagement, updateStatus } from './stateManager';
 import { initializeMessageHandler } from './messageHandler';
+import { initializeScanEventStream } from './scanEvents';
 import { executeScan } from './scanManager';
 import { ScanStatus } from '../types';
 
@@ -18,6 +19,7 @@ console.log("Cookie Skipper AI: Service Worker starting up.");
 // This modular approach keeps the main background file clean and easy to understand.
 initializeTabStateManagement();
 initializeMessageHandler();
+initializeScanEventStream();
 
 // --- Event Listeners ---
 
@@ -51,7 +53,9 @@ chrome.storage.onChanged.addListener((changes, areaName) => {
         const watchedKeys = [
             STORAGE_KEYS.API_KEY, 
             STORAGE_KEYS.OPERATING_MODE, 
-            STORAGE_KEYS.DATA_COLLECTION_CONSENT
+            STORAGE_KEYS.DATA_COLLECTION_CONSENT,
+            STORAGE_KEYS.PROVIDER_CONFIG,
+            STORAGE_KEYS.MODEL_SETTINGS
         ];
         // If any of the critical keys have changed...
         if (watchedKeys.some(key => key in changes)) {
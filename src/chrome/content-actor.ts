@@ -0,0 +1,161 @@
+
+import { ConsentApiResult, ConsentPolicy, PurposePreferences } from '../types';
+
+// This module sets the user's consent choice through the JavaScript APIs that consent
+// platforms expose (OneTrust, Cookiebot, and Didomi), instead of clicking their buttons.
+// An API call does not depend on the banner's markup, so it keeps working on customized
+// templates. The injected actor runs in the page's main world, where those APIs live.
+//
+// The IAB standards (`__tcfapi` for TCF v2 and `__gpp` for GPP) only let a page read the
+// consent state, so they are used to verify the choice rather than to make it.
+
+/**
+ * This function's body is injected into the page's main world (top-level frame only) to
+ * set the user's choice through the first consent platform API that has a decision pending.
+ *
+ * A platform is only used while its consent decision is still pending, so a choice the
+ * user made earlier is never overwritten. After the choice is set, the platform's own
+ * consent state is polled until it matches, and so is the TC string if the page has a
+ * TCF API. The dismiss policy makes no choice, so it is always left to the click path.
+ *
+ * IMPORTANT: This function must be completely self-contained. It cannot reference
+ * any variables or functions from the surrounding module scope, as it will be
+ * serialized and executed in the context of the webpage.
+ *
+ * @param policy The user's consent policy.
+ * @param preferences The user's choice for each purpose, used for the custom policy.
+ * @param timeoutMs How long to wait for the new consent state to be reported.
+ * @returns The platform that was used and whether the choice was verified, or null if no
+ *          platform API with a pending decision supports the policy.
+ */
+export async function actorFunction(policy: ConsentPolicy, preferences: PurposePreferences, timeoutMs: number): Promise<ConsentApiResult | null> {
+    const win = window as any;
+    // Enum values are compared as strings, as the enums themselves are not available in the page.
+    const isAccept = (policy as string) === 'ACCEPT_ALL';
+    const isReject = (policy as string) === 'REJECT_ALL';
+    const isCustom = (policy as string) === 'CUSTOM';
+    if (!isAccept && !isReject && !isCustom) return null;
+
+    /**
+     * Checks whether a platform category may be allowed. A category covering several purposes
+     * is only allowed if the user allows all of them.
+     */
+    const allows = (...purposes: string[]): boolean =>
+        isAccept || (isCustom && purposes.every(purpose => (preferences as Record<string, boolean>)[purpose]));
+
+    /**
+     * Calls a callback-style IAB API, giving up after a short time, as a stub API may never
+     * call back before the platform has loaded.
+     * @param call Invokes the API with the given callback.
+     */
+    const callIabApi = (call: (callback: (data: any, success: boolean) => void) => void): Promise<any | null> =>
+        new Promise(resolve => {
+            const timer = window.setTimeout(() => resolve(null), 500);
+            try {
+                call((data, success) => {
+                    window.clearTimeout(timer);
+                    resolve(success ? data : null);
+                });
+            } catch (e) {
+                window.clearTimeout(timer);
+                resolve(null);
+            }
+        });
+
+    /**
+     * Checks that the TC string reflects the choice: no purpose consents after rejecting, and at
+     * least one after accepting. TCF purposes do not map one-to-one to the custom purposes, so
+     * for the custom policy only the presence of a TC string is checked.
+     */
+    const isTcDataConsistent = (tcData: any | null): boolean => {
+        if (typeof win.__tcfapi !== 'function') return true;
+        if (!tcData?.tcString) return false;
+        const consents = Object.values(tcData.purpose?.consents ?? {});
+        if (isReject) return !consents.some(Boolean);
+        if (isAccept) return consents.some(Boolean);
+        return true;
+    };
+
+    /**
+     * Checks that a GPP API, if the page has one, has finished updating its signal.
+     */
+    const isGppReady = async (): Promise<boolean> => {
+        if (typeof win.__gpp !== 'function') return true;
+        const pingData = await callIabApi(callback => win.__gpp('ping', callback));
+        return !pingData || pingData.signalStatus !== 'not ready';
+    };
+
+    // Cookiebot's three categories, each allowed only if all of its purposes are.
+    const cookiebotChoice = {
+        preferences: allows('FUNCTIONAL', 'PERSONALIZATION'),
+        statistics: allows('ANALYTICS'),
+        marketing: allows('ADVERTISING', 'SOCIAL_MEDIA'),
+    };
+
+    // The platforms, in order of priority. `apply` is null if the platform's API cannot express the policy.
+    const platforms: { name: string; isPresent: () => boolean; isPending: () => boolean; apply: (() => void) | null; isApplied: () => boolean }[] = [
+        {
+            name: 'OneTrust',
+            isPresent: () => typeof win.OneTrust?.AllowAll === 'function' && typeof win.OneTrust?.IsAlertBoxClosed === 'function',
+            isPending: () => !win.OneTrust.IsAlertBoxClosed(),
+            apply: isAccept ? () => win.OneTrust.AllowAll() : isReject ? () => win.OneTrust.RejectAll() : null,
+            // Only the strictly necessary group (C0001) may stay active after rejecting.
+            isApplied: () => win.OneTrust.IsAlertBoxClosed() && (!isReject || !/C000[2-5]/.test(String(win.OnetrustActiveGroups ?? ''))),
+        },
+        {
+            name: 'Cookiebot',
+            isPresent: () => typeof win.Cookiebot?.submitCustomConsent === 'function',
+            isPending: () => !win.Cookiebot.hasResponse,
+            apply: () => {
+                win.Cookiebot.submitCustomConsent(cookiebotChoice.preferences, cookiebotChoice.statistics, cookiebotChoice.marketing);
+                win.Cookiebot.hide?.();
+            },
+            isApplied: () => !!win.Cookiebot.hasResponse
+                && win.Cookiebot.consent?.preferences === cookiebotChoice.preferences
+                && win.Cookiebot.consent?.statistics === cookiebotChoice.statistics
+                && win.Cookiebot.consent?.marketing === cookiebotChoice.marketing,
+        },
+        {
+            name: 'Didomi',
+            isPresent: () => typeof win.Didomi?.setUserAgreeToAll === 'function' && typeof win.Didomi?.shouldConsentBeCollected === 'function',
+            isPending: () => win.Didomi.shouldConsentBeCollected(),
+            apply: isAccept ? () => win.Didomi.setUserAgreeToAll() : isReject ? () => win.Didomi.setUserDisagreeToAll() : null,
+            isApplied: () => !win.Didomi.shouldConsentBeCollected(),
+        },
+    ];
+
+    for (const platform of platforms) {
+        try {
+            if (!platform.isPresent() || !platform.isPending() || !platform.apply) continue;
+        } catch (e) {
+            continue; // A partially loaded platform. Try the next one.
+        }
+
+        try {
+            platform.apply();
+        } catch (e) {
+            console.warn(`Cookie Skipper AI: The ${platform.name} API call failed:`, e);
+            return { api: platform.name, verified: false };
+        }
+
+        // Poll until the platform and the IAB APIs report the new state, or the timeout is reached.
+        const deadline = Date.now() + timeoutMs;
+        while (true) {
+            const tcData = typeof win.__tcfapi === 'function' ? await callIabApi(callback => win.__tcfapi('getTCData', 2, callback)) : null;
+            let isApplied = false;
+            try {
+                isApplied = platform.isApplied();
+            } catch (e) {
+                // Treat an error while reading the state as "not applied yet".
+            }
+            if (isApplied && isTcDataConsistent(tcData) && await isGppReady()) {
+                return { api: platform.name, verified: true, tcString: tcData?.tcString };
+            }
+            if (Date.now() >= deadline) {
+                return { api: platform.name, verified: false, tcString: tcData?.tcString };
+            }
+            await new Promise(resolve => window.setTimeout(resolve, 100));
+        }
+    }
+    return null;
+}
@@ -0,0 +1,261 @@
+
+import { ElementTarget, ClickStrategy, ClickGuardOptions } from '../types';
+
+// This module contains the clicker function that is injected into the target page.
+// It is injected only into the frame named by the target, and it descends through
+// the target's shadow host path before looking up the element to click.
+//
+// The AI chooses its targets by reading the page's HTML, which the page controls. Before
+// anything is clicked, a safety guard therefore checks that the element is a button inside
+// the detected banner and cannot start a purchase, a sign-up, or a navigation to another site.
+
+/**
+ * This function's body is injected into the target page to perform the click.
+ * It is a critical piece of the architecture.
+ *
+ * IMPORTANT: This function must be completely self-contained. It cannot reference
+ * any variables or functions from the surrounding module scope, as it will be
+ * serialized and executed in the isolated context of the webpage.
+ *
+ * @param target The element to click, identified by its shadow host path and its temporary id or selector.
+ * @param strategy How to click the element. Retries use a different strategy than the first attempt.
+ * @param guard The safety checks to run before clicking.
+ * @returns An object indicating whether the click was successful, whether the safety guard
+ *          refused it, and a reason for failure.
+ */
+export function clickerFunction(target: ElementTarget, strategy: ClickStrategy, guard: ClickGuardOptions): { success: boolean, refused: boolean, reason: string } {
+    /**
+     * Resolves the (document or shadow) root that the target's selector applies to,
+     * by descending through each shadow host on the path.
+     */
+    const resolveRoot = (): Document | ShadowRoot | null => {
+        let root: Document | ShadowRoot = document;
+        for (const hostSelector of target.shadowHostPath) {
+            const host: Element | null = root.querySelector(hostSelector);
+            if (!host || !host.shadowRoot) return null;
+            root = host.shadowRoot;
+        }
+        return root;
+    };
+
+    /**
+     * A helper function to determine if an element is truly clickable by a user.
+     * This checks for common issues like being hidden, disabled, or covered by another element.
+     */
+    const isElementClickable = (element: HTMLElement): { clickable: boolean; reason: string } => {
+        const style = window.getComputedStyle(element);
+        if (style.display === 'none') return { clickable: false, reason: 'Element is not displayed' };
+        if (style.visibility === 'hidden') return { clickable: false, reason: 'Element is not visible' };
+        if (parseFloat(style.opacity) < 0.1) return { clickable: false, reason: 'Element is transparent' };
+        if (element.offsetWidth === 0 || element.offsetHeight === 0) return { clickable: false, reason: 'Element has no size' };
+        if ((element as HTMLButtonElement).disabled) return { clickable: false, reason: 'Element is disabled' };
+
+        const rect = element.getBoundingClientRect();
+        if (rect.width === 0 || rect.height === 0) return { clickable: false, reason: 'Element has no dimensions' };
+
+        // Check if the center of the element is obscured by another element.
+        // Hit-testing is done on the element's own root, so that an element inside a shadow
+        // root is compared against other shadow content rather than against its host.
+        const centerX = rect.left + rect.width / 2;
+        const centerY = rect.top + rect.height / 2;
+        const hitTestRoot = element.getRootNode() as Document | ShadowRoot;
+        const topElement = hitTestRoot.elementFromPoint(centerX, centerY);
+
+        if (!topElement) return { clickable: false, reason: 'Element is off-screen' };
+        // The element is only considered clickable if it's the top-most element, or if the top-most
+        // element is a child of the target element (e.g., clicking on a <span> inside a <button>).
+        if (topElement !== element && !element.contains(topElement)) return { clickable: false, reason: `Element is covered by <${topElement.tagName.toLowerCase()}>` };
+
+        return { clickable: true, reason: '' };
+    };
+
+    /**
+     * Returns the parent of an element, or the shadow host when leaving a shadow root.
+     */
+    const getComposedParent = (element: Element): Element | null =>
+        element.parentElement ?? (element.getRootNode() instanceof ShadowRoot ? (element.getRootNode() as ShadowRoot).host : null);
+
+    /**
+     * The safety guard. Checks that clicking the element can only affect the consent banner.
+     * Returns the reason for refusing the click, or null if the click is safe.
+     */
+    const getRefusalReason = (element: HTMLElement): string | null => {
+        // The element must be inside a banner candidate marked by the last extraction in this frame.
+        let candidate: Element | null = element;
+        while (candidate && !candidate.hasAttribute('data-cs-candidate')) candidate = getComposedParent(candidate);
+        if (guard.requireCandidate && !candidate) return 'the element is outside the detected cookie banner';
+
+        // The element (or a close ancestor below the banner, e.g., the <button> around a <span>) must be button-like.
+        const BUTTON_LIKE_SELECTOR = 'button, a[href], input[type="button"], input[type="submit"], input[type="image"], summary, [role="button"], [role="link"], [role="menuitem"], [role="tab"], [role="switch"], [role="checkbox"], [onclick], [tabindex]';
+        let isButtonLike = false;
+        let current: Element | null = element;
+        for (let depth = 0; current && current !== candidate && depth < 3; depth++, current = getComposedParent(current)) {
+            if (current.matches(BUTTON_LIKE_SELECTOR) || window.getComputedStyle(current).cursor === 'pointer') {
+                isButtonLike = true;
+                break;
+            }
+        }
+        if (!isButtonLike) return 'the element is not a button or link';
+
+        // A link must not navigate to another site.
+        const anchor = element.closest('a[href]') as HTMLAnchorElement | null;
+        if (anchor) {
+            const url = new URL(anchor.href, location.href);
+            if ((url.protocol === 'http:' || url.protocol === 'https:') && url.origin !== location.origin) {
+                return `the link leads to another site (${url.hostname})`;
+            }
+        }
+
+        // A submit button must not submit a form outside the banner (e.g., a newsletter or checkout form).
+        const control = element.closest('button, input') as HTMLButtonElement | HTMLInputElement | null;
+        if (control?.form && control.type === 'submit' && candidate) {
+            let formAncestor: Element | null = control.form;
+            while (formAncestor && formAncestor !== candidate) formAncestor = getComposedParent(formAncestor);
+            if (!formAncestor) return 'the element submits a form outside the cookie banner';
+        }
+
+        // The label must not look like a purchase, a subscription, or a sign-up.
+        const label = [element.textContent, element.getAttribute('aria-label'), element.getAttribute('title'), (element as HTMLInputElement).value]
+            .filter(Boolean).join(' ').replace(/\s+/g, ' ').trim();
+        if (new RegExp(guard.blockedTextPattern, 'i').test(label)) {
+            return `the text "${label.substring(0, 50)}" looks like a purchase or sign-up`;
+        }
+        return null;
+    };
+
+    /**
+     * Dispatches the sequence of events a real pointer click produces, at the element's center.
+     * This reaches frameworks that listen for `pointerdown` or `mouseup` instead of `click`.
+     */
+    const dispatchPointerClick = (element: HTMLElement) => {
+        const rect = element.getBoundingClientRect();
+        const init = { bubbles: true, cancelable: true, composed: true, view: window, button: 0, clientX: rect.left + rect.width / 2, clientY: rect.top + rect.height / 2 };
+        element.dispatchEvent(new PointerEvent('pointerdown', { ...init, pointerType: 'mouse', isPrimary: true }));
+        element.dispatchEvent(new MouseEvent('mousedown', init));
+        element.focus();
+        element.dispatchEvent(new PointerEvent('pointerup', { ...init, pointerType: 'mouse', isPrimary: true }));
+        element.dispatchEvent(new MouseEvent('mouseup', init));
+        element.dispatchEvent(new MouseEvent('click', init));
+    };
+
+    try {
+        const root = resolveRoot();
+        if (!root) {
+            return { success: false, refused: false, reason: "Shadow host not found" };
+        }
+        // An element tagged by the last extraction is looked up by its temporary id, which names exactly one element.
+        const element = (target.elementId !== undefined
+            ? root.querySelector(`[data-cs-id="${CSS.escape(target.elementId)}"]`)
+            : root.querySelector(target.selector)) as HTMLElement | null;
+        if (element) {
+            // Run the safety guard before anything else, so an unsafe element is never clicked.
+            const refusalReason = getRefusalReason(element);
+            if (refusalReason) {
+                return { success: false, refused: true, reason: refusalReason };
+            }
+
+            const { clickable, reason } = isElementClickable(element);
+            if (clickable) {
+                // If all checks pass, perform the click with the requested strategy.
+                // The enum value is compared as a string, as the enum object is not available in the page.
+                if ((strategy as string) === 'POINTER_EVENTS') {
+                    dispatchPointerClick(element);
+                } else {
+                    element.click();
+                }
+                return { success: true, refused: false, reason: '' };
+            } else {
+                // If the element is not clickable, return the reason.
+                return { success: false, refused: false, reason };
+            }
+        } else {
+            return { success: false, refused: false, reason: "Element not found" };
+        }
+    } catch (error) {
+        // Catch any unexpected errors during the query or click.
+        return { success: false, refused: false, reason: (error as Error).message };
+    }
+}
+
+/**
+ * This function's body is injected into the target page to set a purpose toggle
+ * (a checkbox or a switch) in a consent preference center to the desired state.
+ * It only clicks the toggle if its current state differs from the desired one.
+ *
+ * Like a click, a toggle is refused if it lies outside the banner candidates marked by the
+ * last extraction (e.g., a newsletter checkbox elsewhere on the page).
+ *
+ * IMPORTANT: Like `clickerFunction`, this function must be completely self-contained.
+ *
+ * @param target The checkbox or switch element, identified by its shadow host path and its temporary id or selector.
+ * @param enabled The desired state of the toggle.
+ * @param settleTimeoutMs How long to wait for the state to change after the click. Custom switches
+ *                        of UI frameworks (React, Vue, Angular) update their ARIA state after the
+ *                        click handler has returned, often on the next render.
+ * @returns A promise that resolves to an object indicating success, whether the state was changed,
+ *          whether the toggle was refused, and a reason for failure.
+ */
+export async function toggleFunction(target: ElementTarget, enabled: boolean, settleTimeoutMs: number): Promise<{ success: boolean, changed: boolean, refused: boolean, reason: string }> {
+    /**
+     * Reads the current state of a toggle. Native checkboxes expose `checked`, while
+     * custom switches usually expose their state through ARIA attributes.
+     * Returns null if the element's state cannot be determined.
+     */
+    const readState = (element: HTMLElement): boolean | null => {
+        if (element instanceof HTMLInputElement && (element.type === 'checkbox' || element.type === 'radio')) {
+            return element.checked;
+        }
+        const ariaState = element.getAttribute('aria-checked') ?? element.getAttribute('aria-pressed');
+        if (ariaState === 'true' || ariaState === 'false') return ariaState === 'true';
+        // A wrapper (e.g., a <label>) may contain the actual checkbox.
+        const nestedInput = element.querySelector('input[type="checkbox"]') as HTMLInputElement | null;
+        return nestedInput ? nestedInput.checked : null;
+    };
+
+    try {
+        let root: Document | ShadowRoot = document;
+        for (const hostSelector of target.shadowHostPath) {
+            const host: Element | null = root.querySelector(hostSelector);
+            if (!host || !host.shadowRoot) return { success: false, changed: false, refused: false, reason: "Shadow host not found" };
+            root = host.shadowRoot;
+        }
+
+        const element = (target.elementId !== undefined
+            ? root.querySelector(`[data-cs-id="${CSS.escape(target.elementId)}"]`)
+            : root.querySelector(target.selector)) as HTMLElement | null;
+        if (!element) return { success: false, changed: false, refused: false, reason: "Toggle not found" };
+
+        let candidate: Element | null = element;
+        while (candidate && !candidate.hasAttribute('data-cs-candidate')) {
+            candidate = candidate.parentElement ?? (candidate.getRootNode() instanceof ShadowRoot ? (candidate.getRootNode() as ShadowRoot).host : null);
+        }
+        if (!candidate) return { success: false, changed: false, refused: true, reason: "the toggle is outside the detected cookie banner" };
+        if ((element as HTMLInputElement).disabled) return { success: false, changed: false, refused: false, reason: "Toggle is disabled" };
+
+        const currentState = readState(element);
+        if (currentState === null) return { success: false, changed: false, refused: false, reason: "Toggle state could not be determined" };
+        if (currentState === enabled) return { success: true, changed: false, refused: false, reason: '' };
+
+        element.click();
+        // Verify that the click actually flipped the state: right away, after a microtask, after the
+        // next frame, and then by polling until the timeout. Hidden tabs render no frames, so the
+        // frame is skipped there, and the timeout (counted from the click) also ends the wait for it
+        // in case the tab is hidden meanwhile.
+        const deadline = Date.now() + settleTimeoutMs;
+        const hasFlipped = () => readState(element) === enabled;
+        if (!hasFlipped()) await Promise.resolve();
+        if (!hasFlipped() && !document.hidden) {
+            await new Promise(resolve => {
+                requestAnimationFrame(resolve);
+                setTimeout(resolve, settleTimeoutMs);
+            });
+        }
+        while (!hasFlipped() && Date.now() < deadline) {
+            await new Promise(resolve => setTimeout(resolve, 25));
+        }
+        if (!hasFlipped()) return { success: false, changed: false, refused: false, reason: "Toggle did not change state" };
+        return { success: true, changed: true, refused: false, reason: '' };
+    } catch (error) {
+        return { success: false, changed: false, refused: false, reason: (error as Error).message };
+    }
+}
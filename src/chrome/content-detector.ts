@@ -0,0 +1,201 @@
+
+import { CmpActionKind, CmpDetection, CmpRule } from '../types';
+
+// This module is a rule engine that recognizes well-known Consent Management Platforms
+// (CMPs) without any AI call. Each rule combines DOM signatures and the global objects the
+// CMP's script defines, and names the CMP's accept, reject, and settings buttons. The rules
+// are plain data and are passed to the injected detector function, which runs in the page's
+// main world so that it can see those globals.
+
+/**
+ * The built-in rules, one per supported CMP. Selectors come from the CMPs' default templates,
+ * which most sites use unchanged.
+ */
+export const CMP_RULES: CmpRule[] = [
+    {
+        name: 'OneTrust',
+        containerSelectors: ['#onetrust-banner-sdk', '#onetrust-pc-sdk'],
+        globalNames: ['OneTrust', 'Optanon'],
+        shadowHostPath: [],
+        actions: {
+            [CmpActionKind.ACCEPT]: [{ selector: '#onetrust-accept-btn-handler' }, { selector: '#accept-recommended-btn-handler' }],
+            [CmpActionKind.REJECT]: [{ selector: '#onetrust-reject-all-handler' }, { selector: '.ot-pc-refuse-all-handler' }],
+            [CmpActionKind.SETTINGS]: [{ selector: '#onetrust-pc-btn-handler' }],
+            [CmpActionKind.CLOSE]: [{ selector: '#onetrust-close-btn-container button' }, { selector: '.onetrust-close-btn-handler' }],
+        },
+    },
+    {
+        name: 'Cookiebot',
+        containerSelectors: ['#CybotCookiebotDialog'],
+        globalNames: ['Cookiebot', 'CookieConsent'],
+        shadowHostPath: [],
+        actions: {
+            [CmpActionKind.ACCEPT]: [{ selector: '#CybotCookiebotDialogBodyLevelButtonLevelOptinAllowAll' }, { selector: '#CybotCookiebotDialogBodyButtonAccept' }],
+            [CmpActionKind.REJECT]: [{ selector: '#CybotCookiebotDialogBodyButtonDecline' }],
+            [CmpActionKind.SETTINGS]: [{ selector: '#CybotCookiebotDialogBodyLevelButtonCustomize' }, { selector: '#CybotCookiebotDialogBodyButtonDetails' }],
+            [CmpActionKind.CLOSE]: [{ selector: '#CybotCookiebotBannerCloseButtonE2E' }],
+        },
+    },
+    {
+        name: 'Didomi',
+        containerSelectors: ['#didomi-popup', '#didomi-notice'],
+        globalNames: ['Didomi'],
+        shadowHostPath: [],
+        actions: {
+            [CmpActionKind.ACCEPT]: [{ selector: '#didomi-notice-agree-button' }],
+            [CmpActionKind.REJECT]: [{ selector: '#didomi-notice-disagree-button' }, { selector: '.didomi-continue-without-agreeing' }],
+            [CmpActionKind.SETTINGS]: [{ selector: '#didomi-notice-learn-more-button' }],
+        },
+    },
+    {
+        name: 'Quantcast Choice',
+        containerSelectors: ['#qc-cmp2-container .qc-cmp2-summary-buttons', '#qc-cmp2-ui'],
+        globalNames: [],
+        shadowHostPath: [],
+        actions: {
+            [CmpActionKind.ACCEPT]: [{ selector: '.qc-cmp2-summary-buttons button[mode="primary"]' }],
+            [CmpActionKind.REJECT]: [{ selector: '.qc-cmp2-summary-buttons button[mode="secondary"]', textPattern: '^(disagree|reject|i do not accept)' }],
+            [CmpActionKind.SETTINGS]: [{ selector: '.qc-cmp2-summary-buttons button[mode="secondary"]', textPattern: '(more options|manage|settings)' }],
+        },
+    },
+    {
+        name: 'TrustArc',
+        containerSelectors: ['#truste-consent-track', '#truste-consent-content'],
+        globalNames: ['truste'],
+        shadowHostPath: [],
+        actions: {
+            [CmpActionKind.ACCEPT]: [{ selector: '#truste-consent-button' }],
+            [CmpActionKind.REJECT]: [{ selector: '#truste-consent-required' }],
+            [CmpActionKind.SETTINGS]: [{ selector: '#truste-show-consent' }],
+            [CmpActionKind.CLOSE]: [{ selector: '#truste-consent-close' }],
+        },
+    },
+    {
+        name: 'Usercentrics',
+        containerSelectors: ['#usercentrics-root'],
+        globalNames: ['UC_UI'],
+        shadowHostPath: ['#usercentrics-root'],
+        actions: {
+            [CmpActionKind.ACCEPT]: [{ selector: '[data-testid="uc-accept-all-button"]' }],
+            [CmpActionKind.REJECT]: [{ selector: '[data-testid="uc-deny-all-button"]' }],
+            [CmpActionKind.SETTINGS]: [{ selector: '[data-testid="uc-more-button"]' }],
+            [CmpActionKind.CLOSE]: [{ selector: '[data-testid="uc-close-button"]' }],
+        },
+    },
+    {
+        // Sourcepoint renders its message inside an iframe, so this rule matches in that frame.
+        name: 'Sourcepoint',
+        containerSelectors: ['.message-container [class*="sp_choice_type_"]'],
+        globalNames: ['_sp_'],
+        shadowHostPath: [],
+        actions: {
+            [CmpActionKind.ACCEPT]: [{ selector: '.sp_choice_type_11' }],
+            [CmpActionKind.REJECT]: [{ selector: '.sp_choice_type_13' }],
+            [CmpActionKind.SETTINGS]: [{ selector: '.sp_choice_type_12' }],
+            [CmpActionKind.CLOSE]: [{ selector: '.sp_choice_type_15' }],
+        },
+    },
+    {
+        name: 'Complianz',
+        containerSelectors: ['#cmplz-cookiebanner-container .cmplz-cookiebanner', '.cmplz-cookiebanner'],
+        globalNames: ['complianz'],
+        shadowHostPath: [],
+        actions: {
+            [CmpActionKind.ACCEPT]: [{ selector: '.cmplz-btn.cmplz-accept' }],
+            [CmpActionKind.REJECT]: [{ selector: '.cmplz-btn.cmplz-deny' }],
+            [CmpActionKind.SETTINGS]: [{ selector: '.cmplz-btn.cmplz-view-preferences' }],
+            [CmpActionKind.CLOSE]: [{ selector: '.cmplz-close' }],
+        },
+    },
+];
+
+/**
+ * This function's body is injected into the page's main world (in every frame) to match
+ * the CMP rules and find the button for the requested action.
+ *
+ * A rule matches if one of its container signatures is visible, or if one of its globals
+ * is defined and its button for the action is visible. A global alone never matches, as
+ * CMP scripts stay loaded after the banner has been closed.
+ *
+ * IMPORTANT: This function must be completely self-contained. It cannot reference
+ * any variables or functions from the surrounding module scope, as it will be
+ * serialized and executed in the context of the webpage.
+ *
+ * @param rules The CMP rules to match, in order of priority.
+ * @param actionKind Which of the rule's buttons to look for.
+ * @returns The matched CMP and its visible button, or null if no rule matched or the matched CMP has no such button.
+ */
+export function detectorFunction(rules: CmpRule[], actionKind: CmpActionKind): CmpDetection | null {
+    /**
+     * Checks whether an element is rendered and visible to the user.
+     */
+    const isVisible = (element: Element): boolean =>
+        element.getClientRects().length > 0 && element.checkVisibility({ opacityProperty: true, visibilityProperty: true });
+
+    /**
+     * Queries a selector, ignoring selectors this browser does not support.
+     */
+    const queryAll = (root: Document | ShadowRoot, selector: string): Element[] => {
+        try {
+            return Array.from(root.querySelectorAll(selector));
+        } catch (e) {
+            return [];
+        }
+    };
+
+    /**
+     * Builds a selector that uniquely identifies the element within its root. A rule's own
+     * selector is kept if it already points at the element; otherwise an nth-of-type path is built.
+     */
+    const getUniqueSelector = (root: Document | ShadowRoot, element: Element, ruleSelector: string): string => {
+        if (queryAll(root, ruleSelector)[0] === element) return ruleSelector;
+        if (element.id) return `#${CSS.escape(element.id)}`;
+        const parts: string[] = [];
+        let current: Element | null = element;
+        while (current && current.parentElement) {
+            const parent: Element = current.parentElement;
+            const siblings = Array.from(parent.children).filter(child => child.tagName === current!.tagName);
+            parts.unshift(`${current.tagName.toLowerCase()}:nth-of-type(${siblings.indexOf(current) + 1})`);
+            if (parent.id) {
+                parts.unshift(`#${CSS.escape(parent.id)}`);
+                return parts.join(' > ');
+            }
+            current = parent;
+        }
+        if (current) parts.unshift(current.tagName.toLowerCase());
+        return parts.join(' > ');
+    };
+
+    for (const rule of rules) {
+        const hasSignature = rule.containerSelectors.some(selector => queryAll(document, selector).some(isVisible));
+        const hasGlobal = rule.globalNames.some(name => (window as any)[name] !== undefined);
+        if (!hasSignature && !hasGlobal) continue;
+
+        // Descend to the root that holds the CMP's buttons.
+        let root: Document | ShadowRoot | null = document;
+        for (const hostSelector of rule.shadowHostPath) {
+            const host: Element | null = root.querySelector(hostSelector);
+            root = host?.shadowRoot ?? null;
+            if (!root) break;
+        }
+        if (!root) continue;
+
+        for (const { selector, textPattern } of rule.actions[actionKind] ?? []) {
+            const pattern = textPattern ? new RegExp(textPattern, 'i') : null;
+            const button = queryAll(root, selector).find(element =>
+                isVisible(element) && (!pattern || pattern.test((element.textContent || '').trim())));
+            if (button) {
+                return {
+                    cmp: rule.name,
+                    shadowHostPath: rule.shadowHostPath,
+                    selector: getUniqueSelector(root, button, selector),
+                    buttonText: (button.textContent || '').replace(/\s+/g, ' ').trim(),
+                };
+            }
+        }
+        // The CMP was recognized, but its button for this action is not on screen (e.g., a banner
+        // without a first-layer reject button). Other rules are not tried, as only one CMP runs per page.
+        if (hasSignature) return null;
+    }
+    return null;
+}
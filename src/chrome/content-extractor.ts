@@ -0,0 +1,296 @@
+
+import { ExtractionOptions, ExtractionResult, TaggedElement } from '../types';
+
+// This module contains the extraction function that is injected into the target page.
+// Instead of sending the page's full `outerHTML` to the AI (which is large and often
+// truncated before the banner is even reached), it finds the overlay subtrees that are
+// most likely to be a cookie banner and serializes only those, in a minimized form.
+// It runs in every frame of the tab and also looks inside open shadow roots.
+// The chosen candidates are marked with a `data-cs-candidate` attribute, which the
+// clicker's safety guard uses to check that a button lies inside a detected banner.
+// Every interactive element that is serialized gets a short temporary `data-cs-id`,
+// so the model can name an element by its id instead of writing a CSS selector.
+// Both kinds of tags are removed again at the end of a scan.
+
+/**
+ * This function's body is injected into the target page to extract the minimized HTML.
+ *
+ * IMPORTANT: This function must be completely self-contained. It cannot reference
+ * any variables or functions from the surrounding module scope, as it will be
+ * serialized and executed in the isolated context of the webpage.
+ *
+ * @param options The extraction options (budget, thresholds, and keyword lists).
+ * @returns The minimized HTML and the number of overlay candidates that were found.
+ */
+export function extractorFunction(options: ExtractionOptions): ExtractionResult {
+    // Elements that never contain anything useful for finding a consent button.
+    const SKIPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'SVG', 'NOSCRIPT', 'TEMPLATE', 'LINK', 'META', 'IMG', 'PICTURE', 'VIDEO', 'AUDIO', 'CANVAS', 'IFRAME', 'OBJECT']);
+    // Only attributes that help the model identify and select an element are kept.
+    const KEPT_ATTRIBUTES = ['id', 'class', 'role', 'type', 'name', 'value', 'href', 'title', 'for', 'aria-label', 'aria-checked', 'aria-pressed', 'checked'];
+    const MAX_ATTRIBUTE_LENGTH = 100;
+    // Elements the model may choose to click or toggle, which are tagged with a `data-cs-id`.
+    const INTERACTIVE_SELECTOR = 'button, a[href], input, select, summary, label, [role="button"], [role="link"], [role="checkbox"], [role="switch"], [role="menuitem"], [role="tab"], [onclick], [tabindex]';
+    const keywords = options.consentKeywords.map(keyword => keyword.toLowerCase());
+
+    /**
+     * Checks whether an element is hidden from the user and can therefore be skipped.
+     */
+    const isHidden = (element: Element): boolean => {
+        if ((element as HTMLElement).hidden) return true;
+        const style = window.getComputedStyle(element);
+        return style.display === 'none' || style.visibility === 'hidden' || parseFloat(style.opacity) === 0;
+    };
+
+    /**
+     * Checks whether a string (an id, a class list, or some text) contains a consent keyword.
+     */
+    const hasKeyword = (value: string | null | undefined): boolean => {
+        if (!value) return false;
+        const lowerValue = value.toLowerCase();
+        return keywords.some(keyword => lowerValue.includes(keyword));
+    };
+
+    /**
+     * Builds a CSS selector that uniquely identifies an element within its own
+     * (document or shadow) root. Used to describe the path to a shadow host.
+     */
+    const getSelectorWithinRoot = (element: Element): string => {
+        if (element.id) return `#${CSS.escape(element.id)}`;
+        const parts: string[] = [];
+        let current: Element | null = element;
+        while (current && current.parentElement) {
+            const parent: Element = current.parentElement;
+            const tag = current.tagName.toLowerCase();
+            const siblings = Array.from(parent.children).filter(child => child.tagName === current!.tagName);
+            parts.unshift(siblings.length > 1 ? `${tag}:nth-of-type(${siblings.indexOf(current) + 1})` : tag);
+            if (parent.id) {
+                parts.unshift(`#${CSS.escape(parent.id)}`);
+                return parts.join(' > ');
+            }
+            current = parent;
+        }
+        if (current) parts.unshift(current.tagName.toLowerCase());
+        return parts.join(' > ');
+    };
+
+    /**
+     * Checks whether `ancestor` contains `node`, crossing shadow root boundaries.
+     */
+    const deepContains = (ancestor: Element, node: Node): boolean => {
+        let current: Node | null = node;
+        while (current) {
+            if (current === ancestor) return true;
+            current = current.parentNode || (current as ShadowRoot).host || null;
+        }
+        return false;
+    };
+
+    /**
+     * Checks whether an element is something a user can click or toggle. Besides the usual
+     * controls, this includes custom buttons that only show a pointer cursor, but not the
+     * children of such a button (which inherit the cursor).
+     */
+    const isInteractive = (element: Element): boolean => {
+        if (element.matches(INTERACTIVE_SELECTOR)) return true;
+        if (window.getComputedStyle(element).cursor !== 'pointer') return false;
+        return !element.parentElement || window.getComputedStyle(element.parentElement).cursor !== 'pointer';
+    };
+
+    // The tagged elements of this extraction, keyed by their `data-cs-id`.
+    const elements: Record<string, TaggedElement> = {};
+    let nextElementId = 1;
+
+    /**
+     * Serializes an element into minimized HTML, skipping hidden nodes and irrelevant
+     * tags, collapsing whitespace, and truncating long text. Open shadow roots are
+     * serialized inline as `<shadow-root>`. Interactive elements are tagged with a new
+     * `data-cs-id`, which is included in the output, and their location is recorded.
+     * Serialization stops as soon as the given budget is used up.
+     */
+    const serialize = (root: Element, hostPath: string[], budget: number): string => {
+        let output = '';
+
+        const append = (text: string): boolean => {
+            if (output.length + text.length > budget) return false;
+            output += text;
+            return true;
+        };
+
+        const walk = (node: Node, currentPath: string[]): boolean => {
+            if (node.nodeType === Node.TEXT_NODE) {
+                let text = (node.textContent || '').replace(/\s+/g, ' ').trim();
+                if (!text) return true;
+                if (text.length > options.maxTextLength) {
+                    text = `${text.substring(0, options.maxTextLength)}…`;
+                }
+                return append(text);
+            }
+            if (node.nodeType !== Node.ELEMENT_NODE) return true;
+
+            const element = node as Element;
+            if (SKIPPED_TAGS.has(element.tagName.toUpperCase()) || isHidden(element)) return true;
+
+            const tag = element.tagName.toLowerCase();
+            let attributes = '';
+            if (isInteractive(element)) {
+                const elementId = String(nextElementId++);
+                element.setAttribute('data-cs-id', elementId);
+                elements[elementId] = { shadowHostPath: currentPath, selector: getSelectorWithinRoot(element) };
+                attributes += ` data-cs-id="${elementId}"`;
+            }
+            for (const name of KEPT_ATTRIBUTES) {
+                const value = element.getAttribute(name);
+                if (value === null) continue;
+                const trimmed = value.replace(/\s+/g, ' ').trim().substring(0, MAX_ATTRIBUTE_LENGTH);
+                attributes += ` ${name}="${trimmed.replace(/"/g, '&quot;')}"`;
+            }
+
+            if (!append(`<${tag}${attributes}>`)) return false;
+            if (element.shadowRoot) {
+                const shadowPath = [...currentPath, getSelectorWithinRoot(element)];
+                if (!append('<shadow-root>')) return false;
+                for (const child of Array.from(element.shadowRoot.childNodes)) {
+                    if (!walk(child, shadowPath)) return false;
+                }
+                if (!append('</shadow-root>')) return false;
+            }
+            for (const child of Array.from(element.childNodes)) {
+                if (!walk(child, currentPath)) return false;
+            }
+            return append(`</${tag}>`);
+        };
+
+        walk(root, hostPath);
+        return output;
+    };
+
+    /**
+     * Scores an element on how likely it is to be the container of a cookie banner.
+     */
+    const scoreElement = (element: Element): number => {
+        let score = 0;
+        if (options.knownCmpSelectors.some(selector => element.matches(selector))) score += 50;
+
+        const style = window.getComputedStyle(element);
+        if (style.position === 'fixed' || style.position === 'sticky') score += 20;
+        const zIndex = parseInt(style.zIndex, 10);
+        if (!isNaN(zIndex) && zIndex >= options.minZIndex) score += 15;
+
+        if (hasKeyword(element.id) || hasKeyword(element.getAttribute('class'))) score += 15;
+        // Only the beginning of the text is checked, to keep this fast on large subtrees.
+        // Text inside a shadow root is not part of the host's `textContent`, so it is added too.
+        const text = `${element.textContent || ''} ${element.shadowRoot?.textContent || ''}`;
+        if (hasKeyword(text.substring(0, 2000))) score += 20;
+        if (element.querySelector('button, [role="button"], input[type="button"], input[type="submit"]') || element.shadowRoot) score += 5;
+        return score;
+    };
+
+    // --- Step 1: Collect candidate elements ---
+    // Checking the computed style of every element would be too slow on large pages, so
+    // only likely places are considered: known CMP containers, elements with a consent
+    // keyword in their id or class, and the top levels of the body (where overlays live).
+    // The same search is repeated inside every open shadow root.
+    const candidates = new Map<Element, string[]>(); // Maps each candidate to its shadow host path.
+    const keywordSelectors = keywords.flatMap(keyword => [`[id*="${keyword}" i]`, `[class*="${keyword}" i]`]);
+    const visitedRoots: (Document | ShadowRoot)[] = [];
+
+    const collectFromRoot = (root: Document | ShadowRoot, hostPath: string[]) => {
+        visitedRoots.push(root);
+        for (const selector of [...options.knownCmpSelectors, ...keywordSelectors]) {
+            try {
+                root.querySelectorAll(selector).forEach(element => candidates.set(element, hostPath));
+            } catch (e) {
+                // Ignore selectors that are not supported by this browser.
+            }
+        }
+        const collectTopLevels = (element: Element | ShadowRoot, depth: number) => {
+            for (const child of Array.from(element.children)) {
+                candidates.set(child, hostPath);
+                if (depth < 3) collectTopLevels(child, depth + 1);
+            }
+        };
+        collectTopLevels(root instanceof Document ? root.body : root, 0);
+
+        // Descend into the open shadow roots of this root.
+        root.querySelectorAll('*').forEach(element => {
+            if (element.shadowRoot) {
+                collectFromRoot(element.shadowRoot, [...hostPath, getSelectorWithinRoot(element)]);
+            }
+        });
+    };
+    collectFromRoot(document, []);
+
+    // --- Step 2: Rank the candidates ---
+    const ranked = Array.from(candidates.entries())
+        .filter(([element]) => !SKIPPED_TAGS.has(element.tagName.toUpperCase()) && !isHidden(element))
+        .map(([element, hostPath]) => ({ element, hostPath, score: scoreElement(element) }))
+        .filter(candidate => candidate.score >= options.minCandidateScore)
+        .sort((a, b) => b.score - a.score);
+
+    // Keep only the best few, skipping candidates that are nested in (or contain) one already chosen.
+    const chosen: typeof ranked = [];
+    for (const candidate of ranked) {
+        if (chosen.length >= options.maxCandidates) break;
+        const overlaps = chosen.some(({ element }) => deepContains(element, candidate.element) || deepContains(candidate.element, element));
+        if (!overlaps) chosen.push(candidate);
+    }
+
+    // Replace the tags of an earlier extraction, so only the current candidates count as banners
+    // and every `data-cs-id` names exactly one element.
+    visitedRoots.forEach(root => root.querySelectorAll('[data-cs-candidate], [data-cs-id]').forEach(element => {
+        element.removeAttribute('data-cs-candidate');
+        element.removeAttribute('data-cs-id');
+    }));
+    chosen.forEach(({ element }) => element.setAttribute('data-cs-candidate', ''));
+
+    // --- Step 3: Serialize within the budget ---
+    if (chosen.length === 0) {
+        // No overlay was found, so fall back to a minimized version of the whole body.
+        return {
+            html: serialize(document.body, [], options.maxHtmlLength),
+            candidateCount: 0,
+            topScore: 0,
+            frameUrl: location.href,
+            cmpSelector: null,
+            elements,
+        };
+    }
+
+    // Fingerprint the banner by the first known CMP container (in list order) among the chosen candidates.
+    const cmpSelector = options.knownCmpSelectors.find(selector => chosen.some(({ element }) => {
+        try {
+            return element.matches(selector) || !!element.querySelector(selector);
+        } catch (e) {
+            return false;
+        }
+    })) ?? null;
+
+    let html = '';
+    chosen.forEach(({ element, hostPath, score }, index) => {
+        const shadowInfo = hostPath.length > 0 ? `, shadow host path ${JSON.stringify(hostPath)}` : '';
+        const header = `<!-- Candidate ${index + 1} (score ${score}${shadowInfo}) -->\n`;
+        const remaining = options.maxHtmlLength - html.length - header.length;
+        if (remaining <= 0) return;
+        html += `${header}${serialize(element, hostPath, remaining)}\n`;
+    });
+
+    return { html, candidateCount: chosen.length, topScore: chosen[0].score, frameUrl: location.href, cmpSelector, elements };
+}
+
+/**
+ * This function's body is injected into every frame at the end of a scan to remove the
+ * temporary `data-cs-candidate` and `data-cs-id` tags of the last extraction, including
+ * those inside open shadow roots.
+ *
+ * IMPORTANT: Like `extractorFunction`, this function must be completely self-contained.
+ */
+export function clearTagsFunction(): void {
+    const clearRoot = (root: Document | ShadowRoot) => {
+        root.querySelectorAll('*').forEach(element => {
+            element.removeAttribute('data-cs-candidate');
+            element.removeAttribute('data-cs-id');
+            if (element.shadowRoot) clearRoot(element.shadowRoot);
+        });
+    };
+    clearRoot(document);
+}
@@ -0,0 +1,166 @@
+
+import { ElementTarget } from '../types';
+
+// This module contains observer functions that are injected into the target page
+// to watch how the DOM reacts after a click (e.g., a second banner screen opening,
+// or the banner disappearing after the final click).
+
+/**
+ * This function's body is injected into the target page to wait until the DOM has
+ * "settled", i.e., no mutations have been observed for a short quiet period.
+ * This gives a banner time to animate out or to render its next screen before the
+ * page is extracted again.
+ *
+ * IMPORTANT: This function must be completely self-contained. It cannot reference
+ * any variables or functions from the surrounding module scope, as it will be
+ * serialized and executed in the isolated context of the webpage.
+ *
+ * @param quietMs How long the DOM must stay unchanged to be considered settled.
+ * @param timeoutMs The maximum time to wait, even if the DOM keeps changing.
+ * @returns A promise that resolves to true if the DOM settled, or false if the timeout was hit.
+ */
+export function waitForDomSettleFunction(quietMs: number, timeoutMs: number): Promise<boolean> {
+    return new Promise(resolve => {
+        let quietTimer: number | undefined;
+
+        const finish = (settled: boolean) => {
+            observer.disconnect();
+            window.clearTimeout(quietTimer);
+            window.clearTimeout(timeoutTimer);
+            resolve(settled);
+        };
+
+        // Every mutation restarts the quiet period.
+        const observer = new MutationObserver(() => {
+            window.clearTimeout(quietTimer);
+            quietTimer = window.setTimeout(() => finish(true), quietMs);
+        });
+        observer.observe(document.documentElement, { childList: true, subtree: true, attributes: true, characterData: true });
+
+        quietTimer = window.setTimeout(() => finish(true), quietMs);
+        const timeoutTimer = window.setTimeout(() => finish(false), timeoutMs);
+    });
+}
+
+/**
+ * This function's body is injected into the target page before the final click of a
+ * consent flow. It finds the banner container around the button that is about to be
+ * clicked and marks it with a `data-cs-banner` attribute, so that
+ * `waitForBannerDismissalFunction` can watch it after the click.
+ *
+ * The container is the outermost fixed, sticky, or high z-index ancestor of the button
+ * (crossing shadow root boundaries). For banners rendered inline, the closest ancestor
+ * with a consent keyword in its id or class is used, and otherwise the button's parent.
+ *
+ * IMPORTANT: Like all injected functions, this function must be completely self-contained.
+ *
+ * @param target The button that is about to be clicked.
+ * @param minZIndex The z-index from which an element counts as rendered on top of the page.
+ * @param consentKeywords Keywords that suggest a cookie/consent context.
+ * @returns True if a container was marked, or false if the button could not be found.
+ */
+export function markBannerContainerFunction(target: ElementTarget, minZIndex: number, consentKeywords: string[]): boolean {
+    let root: Document | ShadowRoot = document;
+    for (const hostSelector of target.shadowHostPath) {
+        const host: Element | null = root.querySelector(hostSelector);
+        if (!host || !host.shadowRoot) return false;
+        root = host.shadowRoot;
+    }
+    const button = target.elementId !== undefined
+        ? root.querySelector(`[data-cs-id="${CSS.escape(target.elementId)}"]`)
+        : root.querySelector(target.selector);
+    if (!button) return false;
+
+    // Remove the mark left by an earlier scan, in this root or in any root on the path.
+    const roots: (Document | ShadowRoot)[] = [document];
+    for (let node: Node = button.getRootNode(); node instanceof ShadowRoot; node = node.host.getRootNode()) {
+        roots.push(node);
+    }
+    roots.forEach(r => r.querySelectorAll('[data-cs-banner]').forEach(el => el.removeAttribute('data-cs-banner')));
+
+    let overlayContainer: Element | null = null;
+    let keywordContainer: Element | null = null;
+    let node: Element | null = button.parentElement ?? ((button.getRootNode() as ShadowRoot).host || null);
+    while (node && node !== document.body && node !== document.documentElement) {
+        const style = window.getComputedStyle(node);
+        const zIndex = parseInt(style.zIndex, 10);
+        if (style.position === 'fixed' || style.position === 'sticky' || (!isNaN(zIndex) && zIndex >= minZIndex)) {
+            overlayContainer = node; // Keep walking up to find the outermost overlay.
+        }
+        const idAndClass = `${node.id} ${typeof node.className === 'string' ? node.className : ''}`.toLowerCase();
+        if (!keywordContainer && consentKeywords.some(keyword => idAndClass.includes(keyword))) {
+            keywordContainer = node;
+        }
+        // Continue with the parent, or with the shadow host when leaving a shadow root.
+        node = node.parentElement ?? (node.getRootNode() instanceof ShadowRoot ? (node.getRootNode() as ShadowRoot).host : null);
+    }
+
+    const container = overlayContainer ?? keywordContainer ?? button.parentElement ?? button;
+    container.setAttribute('data-cs-banner', '');
+    return true;
+}
+
+/**
+ * This function's body is injected into the target page after the final click of a
+ * consent flow. It watches the container marked by `markBannerContainerFunction` with a
+ * MutationObserver and resolves as soon as the container is removed or hidden.
+ *
+ * IMPORTANT: Like all injected functions, this function must be completely self-contained.
+ *
+ * @param shadowHostPath The shadow host path of the clicked button. The container is in
+ *                       the document or in one of the shadow roots along this path.
+ * @param timeoutMs How long to wait for the banner to disappear.
+ * @returns A promise that resolves to true if the banner disappeared, or false if it was still visible after the timeout.
+ */
+export function waitForBannerDismissalFunction(shadowHostPath: string[], timeoutMs: number): Promise<boolean> {
+    // Collect the document and the shadow roots along the path, which are the places the container can be.
+    const roots: (Document | ShadowRoot)[] = [document];
+    for (const hostSelector of shadowHostPath) {
+        const host: Element | null = roots[roots.length - 1].querySelector(hostSelector);
+        if (!host || !host.shadowRoot) break;
+        roots.push(host.shadowRoot);
+    }
+    let container: Element | null = null;
+    for (const root of roots) {
+        container = container ?? root.querySelector('[data-cs-banner]');
+    }
+    // The container (or the shadow host holding it) is already gone.
+    if (!container) return Promise.resolve(true);
+    const banner = container;
+
+    /**
+     * Checks whether the banner has been removed from the page or is no longer rendered.
+     */
+    const isDismissed = (): boolean => {
+        if (!banner.isConnected) return true;
+        if (banner.getClientRects().length === 0) return true;
+        return !banner.checkVisibility({ opacityProperty: true, visibilityProperty: true });
+    };
+
+    return new Promise(resolve => {
+        const finish = (dismissed: boolean) => {
+            observer.disconnect();
+            window.clearTimeout(timeoutTimer);
+            banner.removeAttribute('data-cs-banner');
+            resolve(dismissed);
+        };
+
+        if (isDismissed()) {
+            banner.removeAttribute('data-cs-banner');
+            resolve(true);
+            return;
+        }
+
+        // Re-check on every mutation, since banners are removed or hidden in many different ways
+        // (removing a node, toggling a class, setting an inline style, etc.).
+        const observer = new MutationObserver(() => {
+            if (isDismissed()) finish(true);
+        });
+        observer.observe(document.documentElement, { childList: true, subtree: true, attributes: true });
+        roots.slice(1).forEach(root => observer.observe(root, { childList: true, subtree: true, attributes: true }));
+
+        // Banners that fade out only change their computed style over time, which no mutation reports,
+        // so the final check is done when the window ends.
+        const timeoutTimer = window.setTimeout(() => finish(isDismissed()), timeoutMs);
+    });
+}
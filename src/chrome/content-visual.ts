@@ -0,0 +1,264 @@
+
+import { TaggedElement, VisualProbeOptions, VisualProbeResult } from '../types';
+
+// This module contains the functions that are injected into the top-level frame for the
+// visual analysis, the fallback for banners whose HTML says nothing useful (e.g., banners
+// drawn on a canvas, made of images, or rendered with obfuscated markup).
+// The probe hit-tests the viewport to find an overlay that blocks the page, marks it with
+// `data-cs-candidate` (so the clicker's safety guard treats it as the banner), and describes
+// it as accessibility-tree text with the same temporary `data-cs-id` tags the extractor uses.
+// The point clicker clicks where the model pointed on the screenshot, if that point is on
+// the blocking overlay. Cross-origin frames cannot be seen into, so only the top-level
+// document is probed and clicked.
+
+/**
+ * This function's body is injected into the top-level frame to check whether an overlay
+ * visibly blocks the page and to describe that overlay for the model.
+ *
+ * IMPORTANT: This function must be completely self-contained. It cannot reference
+ * any variables or functions from the surrounding module scope, as it will be
+ * serialized and executed in the isolated context of the webpage.
+ *
+ * @param options The hit-testing thresholds and the budget of the tree text.
+ * @returns Whether the page is blocked, and if so the tree text and the tagged elements.
+ */
+export function visualProbeFunction(options: VisualProbeOptions): VisualProbeResult {
+    const INTERACTIVE_SELECTOR = 'button, a[href], input, select, summary, label, [role="button"], [role="link"], [role="checkbox"], [role="switch"], [role="menuitem"], [role="tab"], [onclick], [tabindex]';
+    // The roles the browser gives common elements without a `role` attribute.
+    const IMPLICIT_ROLES: Record<string, string> = {
+        BUTTON: 'button', A: 'link', SELECT: 'combobox', SUMMARY: 'button', DIALOG: 'dialog', IMG: 'img', CANVAS: 'canvas',
+        H1: 'heading', H2: 'heading', H3: 'heading', H4: 'heading', H5: 'heading', H6: 'heading', LABEL: 'label', FORM: 'form',
+    };
+    const SKIPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'LINK', 'META']);
+    const width = window.innerWidth;
+    const height = window.innerHeight;
+
+    /**
+     * Checks whether an element is rendered on top of the page.
+     */
+    const isOverlay = (element: Element): boolean => {
+        const style = window.getComputedStyle(element);
+        if (style.position === 'fixed' || style.position === 'sticky') return true;
+        const zIndex = parseInt(style.zIndex, 10);
+        return style.position !== 'static' && !isNaN(zIndex) && zIndex >= options.minZIndex;
+    };
+
+    /**
+     * Finds the outermost overlay around the element on top at a point of the viewport.
+     */
+    const findOverlayAt = (x: number, y: number): Element | null => {
+        let overlay: Element | null = null;
+        for (let node = document.elementFromPoint(x, y); node && node !== document.body && node !== document.documentElement; node = node.parentElement) {
+            if (isOverlay(node)) overlay = node;
+        }
+        return overlay;
+    };
+
+    // --- Step 1: Hit-test a grid of points across the viewport ---
+    const hits = new Map<Element, number>();
+    for (let column = 0; column < options.gridSize; column++) {
+        for (let row = 0; row < options.gridSize; row++) {
+            const overlay = findOverlayAt(width * (column + 0.5) / options.gridSize, height * (row + 0.5) / options.gridSize);
+            if (overlay) hits.set(overlay, (hits.get(overlay) ?? 0) + 1);
+        }
+    }
+    // Consent walls usually stop the page from scrolling, so a smaller overlay counts too.
+    const isScrollLocked = [document.documentElement, document.body]
+        .some(element => element && ['hidden', 'clip'].includes(window.getComputedStyle(element).overflowY));
+    const minPoints = isScrollLocked ? 1 : options.minBlockedPoints;
+    const blocked = Array.from(hits.values()).some(count => count >= minPoints);
+    if (!blocked) return { blocked: false, tree: '', elements: {} };
+
+    // A modal's buttons often sit in a dialog next to the full-screen backdrop, so every overlay
+    // that was hit is described, not only the one that covers the most points.
+    const overlays = Array.from(hits.keys());
+
+    /**
+     * Builds a CSS selector that uniquely identifies an element within its own (document or shadow) root.
+     */
+    const getSelectorWithinRoot = (element: Element): string => {
+        if (element.id) return `#${CSS.escape(element.id)}`;
+        const parts: string[] = [];
+        let current: Element | null = element;
+        while (current && current.parentElement) {
+            const parent: Element = current.parentElement;
+            const tag = current.tagName.toLowerCase();
+            const siblings = Array.from(parent.children).filter(child => child.tagName === current!.tagName);
+            parts.unshift(siblings.length > 1 ? `${tag}:nth-of-type(${siblings.indexOf(current) + 1})` : tag);
+            if (parent.id) {
+                parts.unshift(`#${CSS.escape(parent.id)}`);
+                return parts.join(' > ');
+            }
+            current = parent;
+        }
+        if (current) parts.unshift(current.tagName.toLowerCase());
+        return parts.join(' > ');
+    };
+
+    /**
+     * Collapses whitespace and truncates long text.
+     */
+    const clean = (text: string | null | undefined): string => {
+        const collapsed = (text || '').replace(/\s+/g, ' ').trim();
+        return collapsed.length > options.maxTextLength ? `${collapsed.substring(0, options.maxTextLength)}…` : collapsed;
+    };
+
+    /**
+     * Computes an element's accessible name, roughly as a screen reader would.
+     */
+    const getName = (element: Element): string => {
+        const labelledBy = element.getAttribute('aria-labelledby');
+        const labelledText = labelledBy
+            ? labelledBy.split(/\s+/).map(id => document.getElementById(id)?.textContent || '').join(' ')
+            : '';
+        return clean(element.getAttribute('aria-label') || labelledText || element.getAttribute('alt') || element.getAttribute('title')
+            || (element as HTMLInputElement).value || element.getAttribute('placeholder') || element.textContent);
+    };
+
+    /**
+     * Checks whether an element is hidden from the user.
+     */
+    const isHidden = (element: Element): boolean => {
+        const style = window.getComputedStyle(element);
+        return style.display === 'none' || style.visibility === 'hidden' || parseFloat(style.opacity) === 0;
+    };
+
+    // --- Step 2: Replace the tags of the HTML extraction with the overlays and their elements ---
+    const clearRoot = (root: Document | ShadowRoot) => {
+        root.querySelectorAll('*').forEach(element => {
+            element.removeAttribute('data-cs-candidate');
+            element.removeAttribute('data-cs-id');
+            if (element.shadowRoot) clearRoot(element.shadowRoot);
+        });
+    };
+    clearRoot(document);
+    overlays.forEach(overlay => overlay.setAttribute('data-cs-candidate', ''));
+
+    // --- Step 3: Describe the overlays as accessibility-tree text within the budget ---
+    const elements: Record<string, TaggedElement> = {};
+    let nextElementId = 1;
+    let tree = '';
+
+    const append = (line: string): boolean => {
+        if (tree.length + line.length + 1 > options.maxTreeLength) return false;
+        tree += `${line}\n`;
+        return true;
+    };
+
+    const walk = (element: Element, depth: number, hostPath: string[]): boolean => {
+        if (SKIPPED_TAGS.has(element.tagName.toUpperCase()) || isHidden(element)) return true;
+        const rect = element.getBoundingClientRect();
+        const role = element.getAttribute('role') || IMPLICIT_ROLES[element.tagName.toUpperCase()] || '';
+        const isInteractive = element.matches(INTERACTIVE_SELECTOR)
+            || (window.getComputedStyle(element).cursor === 'pointer' && (!element.parentElement || window.getComputedStyle(element.parentElement).cursor !== 'pointer'));
+        const indent = '  '.repeat(depth);
+        const position = rect.width > 0 && rect.height > 0
+            ? ` at (${Math.round((rect.left + rect.width / 2) / width * 100)}%, ${Math.round((rect.top + rect.height / 2) / height * 100)}%)`
+            : '';
+
+        if (isInteractive) {
+            // Like a screen reader, an interactive element is described by its name; its content is not listed.
+            const elementId = String(nextElementId++);
+            element.setAttribute('data-cs-id', elementId);
+            elements[elementId] = { shadowHostPath: hostPath, selector: getSelectorWithinRoot(element) };
+            const name = getName(element);
+            return append(`${indent}[${elementId}] ${role || 'clickable'}${name ? ` "${name}"` : ''}${position}`);
+        }
+
+        let childDepth = depth;
+        if (role) {
+            const name = ['heading', 'img', 'label'].includes(role) ? getName(element) : clean(element.getAttribute('aria-label'));
+            if (!append(`${indent}${role}${name ? ` "${name}"` : ''}${position}`)) return false;
+            childDepth = depth + 1;
+            if (['heading', 'img', 'label'].includes(role)) return true;
+        }
+        // Text directly inside this element, e.g., the banner's explanation.
+        for (const node of Array.from(element.childNodes)) {
+            if (node.nodeType === Node.TEXT_NODE) {
+                const text = clean(node.textContent);
+                if (text && !append(`${'  '.repeat(childDepth)}text "${text}"`)) return false;
+            }
+        }
+        if (element.shadowRoot) {
+            const shadowPath = [...hostPath, getSelectorWithinRoot(element)];
+            for (const child of Array.from(element.shadowRoot.children)) {
+                if (!walk(child, childDepth, shadowPath)) return false;
+            }
+        }
+        for (const child of Array.from(element.children)) {
+            if (!walk(child, childDepth, hostPath)) return false;
+        }
+        return true;
+    };
+
+    for (const [index, overlay] of overlays.entries()) {
+        if (!append(`overlay ${index + 1}`) || !walk(overlay, 1, [])) break;
+    }
+    return { blocked: true, tree, elements };
+}
+
+/**
+ * This function's body is injected into the top-level frame to click the point the model
+ * chose on the screenshot. The point must be on an overlay marked by `visualProbeFunction`,
+ * and the same link and label checks as in the clicker's safety guard apply. The overlay is
+ * marked with `data-cs-banner`, so `waitForBannerDismissalFunction` can watch it afterwards.
+ *
+ * IMPORTANT: Like all injected functions, this function must be completely self-contained.
+ *
+ * @param point The point to click, from 0 to 100 in percent of the viewport's width and height.
+ * @param blockedTextPattern A case-insensitive regular expression for purchase and sign-up texts.
+ * @returns An object indicating whether the click was successful, whether the safety check
+ *          refused it, and a reason for failure.
+ */
+export function pointClickFunction(point: { x: number; y: number }, blockedTextPattern: string): { success: boolean, refused: boolean, reason: string } {
+    const x = point.x / 100 * window.innerWidth;
+    const y = point.y / 100 * window.innerHeight;
+
+    // Descend into open shadow roots, whose content the document's hit-testing only reports as the host.
+    let element: Element | null = document.elementFromPoint(x, y);
+    while (element?.shadowRoot) {
+        const inner: Element | null = element.shadowRoot.elementFromPoint(x, y);
+        if (!inner || inner === element) break;
+        element = inner;
+    }
+    if (!element) return { success: false, refused: false, reason: 'There is nothing at the chosen point' };
+    if (element.tagName === 'IFRAME') {
+        return { success: false, refused: false, reason: 'The chosen point is inside an embedded frame, which cannot be clicked by position' };
+    }
+
+    const getComposedParent = (node: Element): Element | null =>
+        node.parentElement ?? (node.getRootNode() instanceof ShadowRoot ? (node.getRootNode() as ShadowRoot).host : null);
+
+    let overlay: Element | null = element;
+    while (overlay && !overlay.hasAttribute('data-cs-candidate')) overlay = getComposedParent(overlay);
+    if (!overlay) return { success: false, refused: true, reason: 'the chosen point is outside the overlay blocking the page' };
+
+    const anchor = element.closest('a[href]') as HTMLAnchorElement | null;
+    if (anchor) {
+        const url = new URL(anchor.href, location.href);
+        if ((url.protocol === 'http:' || url.protocol === 'https:') && url.origin !== location.origin) {
+            return { success: false, refused: true, reason: `the link leads to another site (${url.hostname})` };
+        }
+    }
+    // Only a button's own label is checked; the text of a whole container (e.g., a canvas wrapper) says nothing about the click.
+    const button = element.closest('button, a[href], input, [role="button"], [role="link"]');
+    const label = button
+        ? [button.textContent, button.getAttribute('aria-label'), button.getAttribute('title'), (button as HTMLInputElement).value].filter(Boolean).join(' ')
+        : [element.getAttribute('aria-label'), element.getAttribute('title')].filter(Boolean).join(' ');
+    if (new RegExp(blockedTextPattern, 'i').test(label.replace(/\s+/g, ' '))) {
+        return { success: false, refused: true, reason: `the text "${label.trim().substring(0, 50)}" looks like a purchase or sign-up` };
+    }
+
+    document.querySelectorAll('[data-cs-banner]').forEach(marked => marked.removeAttribute('data-cs-banner'));
+    overlay.setAttribute('data-cs-banner', '');
+
+    // Dispatch the events of a real click at the exact point, which also reaches banners drawn on a canvas.
+    const init = { bubbles: true, cancelable: true, composed: true, view: window, button: 0, clientX: x, clientY: y };
+    element.dispatchEvent(new PointerEvent('pointerdown', { ...init, pointerType: 'mouse', isPrimary: true }));
+    element.dispatchEvent(new MouseEvent('mousedown', init));
+    if (element instanceof HTMLElement) element.focus();
+    element.dispatchEvent(new PointerEvent('pointerup', { ...init, pointerType: 'mouse', isPrimary: true }));
+    element.dispatchEvent(new MouseEvent('mouseup', init));
+    element.dispatchEvent(new MouseEvent('click', init));
+    return { success: true, refused: false, reason: '' };
+}
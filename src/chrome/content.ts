@@ -1,24 +1,156 @@
 
+import { MessageType, AutoScanResponse, ScanStatus } from '../types';
+import { STORAGE_KEYS, EXTRACTION_CONFIG, AUTO_SCAN_CONFIG } from '../constants';
+import { sendMessage } from '../utils/chromePromise';
+import { isAutoModeActive } from '../utils/siteRules';
+
+// This is the persistent content script that powers the opt-in auto mode. It is declared
+// in the manifest and runs in the top-level frame of every page, but it stays idle unless
+// auto mode is turned on (globally, or for this site by a site rule). While active, it
+// watches the DOM for a consent banner appearing and asks the background script to run
+// the usual scan pipeline for this tab. It stops once a scan handled the banner, so a page
+// whose banner is gone (or was never shown, as consent was given on an earlier visit) is not
+// scanned again and again.
+//
+// It deliberately does as little as possible on every page: the heavy work (extraction,
+// rules, AI analysis, clicking) is still injected on demand by `scanManager.ts`.
+
+let observer: MutationObserver | null = null;
+let debounceTimer: number | undefined;
+let maxWaitTimer: number | undefined; // Forces a check on pages whose DOM never stays quiet.
+// Set once this page needs no more automatic scans: a scan handled the banner, or the
+// background reports that this tab has no automatic attempts left.
+let isFinished = false;
+// Set while a scan requested by this script is running, so the checks in the meantime do not ask again.
+let isRequestPending = false;
+
+/**
+ * Checks whether an element is rendered on screen with a real box.
+ */
+function isOnScreen(element: Element): boolean {
+    const { width, height } = element.getBoundingClientRect();
+    return width > 0 && height > 0 && element.checkVisibility({ opacityProperty: true, visibilityProperty: true });
+}
+
+/**
+ * A cheap check for whether a consent banner is likely on screen: the banner element of a
+ * known CMP, or a fixed/sticky element of banner size with a consent keyword in its id or class.
+ */
+function isBannerLikelyPresent(): boolean {
+    for (const selector of AUTO_SCAN_CONFIG.BANNER_SELECTORS) {
+        if (Array.from(document.querySelectorAll(selector)).some(isOnScreen)) return true;
+    }
+    for (const { host, selector } of AUTO_SCAN_CONFIG.SHADOW_BANNER_SELECTORS) {
+        const shadowRoot = document.querySelector(host)?.shadowRoot;
+        if (shadowRoot && Array.from(shadowRoot.querySelectorAll(selector)).some(isOnScreen)) return true;
+    }
+
+    const keywordSelector = EXTRACTION_CONFIG.CONSENT_KEYWORDS
+        .flatMap(keyword => [`[id*="${keyword}" i]`, `[class*="${keyword}" i]`])
+        .join(', ');
+    return Array.from(document.querySelectorAll(keywordSelector)).some(element => {
+        const { position } = window.getComputedStyle(element);
+        const { width, height } = element.getBoundingClientRect();
+        return (position === 'fixed' || position === 'sticky')
+            && width >= AUTO_SCAN_CONFIG.MIN_KEYWORD_BANNER_WIDTH
+            && height >= AUTO_SCAN_CONFIG.MIN_KEYWORD_BANNER_HEIGHT
+            && isOnScreen(element);
+    });
+}
+
+/**
+ * Asks the background script to scan this tab if a banner is likely present. The background
+ * answers once the scan has ended (unless the click reloads the page, which ends this script).
+ */
+async function checkForBanner() {
+    if (isFinished || isRequestPending || !isBannerLikelyPresent()) return;
+    isRequestPending = true;
+    try {
+        const response = await sendMessage<AutoScanResponse>({ type: MessageType.AUTO_SCAN_REQUEST });
+        if (response && (response.status === ScanStatus.SUCCESS || response.attemptsLeft <= 0)) {
+            // Stop watching this page, as the banner is handled or the background will not start any more scans for it.
+            isFinished = true;
+            stopWatching();
+        }
+    } catch (error) {
+        // The background may be restarting (e.g., after an extension update). The next mutation retries.
+        console.warn("Cookie Skipper AI: Auto scan request failed:", error);
+    } finally {
+        isRequestPending = false;
+    }
+}
+
+/**
+ * Cancels the pending check, if any.
+ */
+function cancelCheck() {
+    window.clearTimeout(debounceTimer);
+    window.clearTimeout(maxWaitTimer);
+    debounceTimer = undefined;
+    maxWaitTimer = undefined;
+}
+
 /**
- * This content script is not actively used in the current version of the extension.
- * 
- * The previous architecture may have used a persistent content script that was
- * injected into every page via the manifest.json file. This script would have
- * been responsible for detecting banners and communicating with the background script.
- * 
- * The current, more optimized architecture uses a different approach:
- * 1. The user clicks the extension action icon.
- * 2. The background service worker (`scanManager.ts`) programmatically injects
- *    scripts into the active tab on-demand using the `chrome.scripting.executeScript` API.
- * 
- * This on-demand injection is more performant as it avoids running unnecessary
- * JavaScript on every single page the user visits.
- *
- * This file is kept as a placeholder in case a persistent content script
- * is needed for future features (e.g., a feature that needs to constantly
- * monitor the DOM).
- */
-
-// This empty export statement ensures the file is treated as a module by TypeScript,
-// preventing potential "global scope" issues.
-export {};
\ No newline at end of file
+ * Runs the pending banner check.
+ */
+function runCheck() {
+    cancelCheck();
+    checkForBanner();
+}
+
+/**
+ * Schedules a banner check once the DOM has been quiet for the debounce period,
+ * so a burst of mutations (e.g., a banner rendering) results in a single check.
+ * While mutations continue, the check still runs after the maximum wait.
+ */
+function scheduleCheck() {
+    window.clearTimeout(debounceTimer);
+    debounceTimer = window.setTimeout(runCheck, AUTO_SCAN_CONFIG.DEBOUNCE_MS);
+    if (maxWaitTimer === undefined) {
+        maxWaitTimer = window.setTimeout(runCheck, AUTO_SCAN_CONFIG.MAX_WAIT_MS);
+    }
+}
+
+/**
+ * Starts watching the page for banners, including one that is already on screen.
+ */
+function startWatching() {
+    if (observer || isFinished) return;
+    observer = new MutationObserver(scheduleCheck);
+    observer.observe(document.documentElement, { childList: true, subtree: true, attributes: true, attributeFilter: ['class', 'style', 'hidden'] });
+    scheduleCheck();
+}
+
+/**
+ * Stops watching the page and cancels any pending check.
+ */
+function stopWatching() {
+    observer?.disconnect();
+    observer = null;
+    cancelCheck();
+}
+
+/**
+ * Reads the auto mode settings and starts or stops watching the page accordingly.
+ */
+function applySettings() {
+    chrome.storage.sync.get([STORAGE_KEYS.AUTO_MODE, STORAGE_KEYS.SITE_RULES], (items) => {
+        if (chrome.runtime.lastError) return;
+        if (isAutoModeActive(!!items[STORAGE_KEYS.AUTO_MODE], items[STORAGE_KEYS.SITE_RULES] || [], location.hostname)) {
+            startWatching();
+        } else {
+            stopWatching();
+        }
+    });
+}
+
+// --- Initialization ---
+// Only watch the page while auto mode is active, and react to the switch being flipped
+// (or a site rule being changed) in the popup or on the options page without requiring a reload.
+applySettings();
+
+chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName === 'sync' && (STORAGE_KEYS.AUTO_MODE in changes || STORAGE_KEYS.SITE_RULES in changes)) {
+        applySettings();
+    }
+});
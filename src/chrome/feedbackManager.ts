@@ -0,0 +1,115 @@
+
+import { ClickedElement, ConsentPolicy, ScanResult, StatusUpdatePayload, WrongClickResponse } from '../types';
+import * as feedbackService from '../services/feedbackService';
+import * as selectorCacheService from '../services/selectorCacheService';
+import { STORAGE_KEYS, FEEDBACK_CONFIG } from '../constants';
+
+// This module handles the user's report that a scan clicked the wrong button. After each scan
+// that clicked something, what the click was based on is kept in session storage, so the report
+// still works after the service worker restarted (the popup is often opened a while later).
+// A report forgets the learned flow for the banner, saves a local feedback record, and makes
+// later scans of the site avoid the button.
+
+/**
+ * What a tab's last click was based on, for a wrong-click report.
+ */
+interface ScanFeedbackContext {
+    hostname: string;
+    policy: ConsentPolicy;      // The consent policy the scan applied.
+    fingerprint: string | null; // Identifies the banner's platform, if the page was extracted.
+    bannerSnippet: string | null; // The start of the banner's HTML, if the scan read the page.
+    result: ScanResult & { clicked: ClickedElement };
+}
+
+/**
+ * Builds the session storage key of a tab's feedback context.
+ */
+function getContextKey(tabId: number): string {
+    return `${STORAGE_KEYS.SCAN_FEEDBACK_PREFIX}${tabId}`;
+}
+
+/**
+ * Reads a tab's feedback context from session storage.
+ */
+async function readContext(tabId: number): Promise<ScanFeedbackContext | null> {
+    const key = getContextKey(tabId);
+    return new Promise((resolve, reject) => {
+        chrome.storage.session.get(key, (items) => {
+            if (chrome.runtime.lastError) {
+                return reject(new Error(chrome.runtime.lastError.message));
+            }
+            resolve(items[key] || null);
+        });
+    });
+}
+
+/**
+ * Writes a tab's feedback context to session storage, or removes it if there is none.
+ */
+async function writeContext(tabId: number, context: ScanFeedbackContext | null): Promise<void> {
+    const key = getContextKey(tabId);
+    return new Promise((resolve, reject) => {
+        const callback = () => chrome.runtime.lastError ? reject(chrome.runtime.lastError) : resolve();
+        if (context) {
+            chrome.storage.session.set({ [key]: context }, callback);
+        } else {
+            chrome.storage.session.remove(key, callback);
+        }
+    });
+}
+
+/**
+ * Remembers what a tab's last click was based on, or forgets it if the last scan clicked nothing.
+ * A failure is logged and never fails the scan.
+ * @param tabId The ID of the tab.
+ * @param finalState The tab's state as the scan last set it.
+ * @param hostname The hostname of the scanned site.
+ * @param policy The consent policy the scan applied, or null if it never got that far.
+ * @param fingerprint Identifies the banner's platform, if the page was extracted.
+ * @param html The HTML the clicked button was chosen from, if the scan read the page.
+ */
+export async function saveFeedbackContext(tabId: number, finalState: StatusUpdatePayload | null, hostname: string, policy: ConsentPolicy | null, fingerprint: string | null, html: string | null): Promise<void> {
+    const result = finalState?.result;
+    try {
+        if (!policy || !result?.clicked) {
+            await writeContext(tabId, null);
+            return;
+        }
+        await writeContext(tabId, {
+            hostname,
+            policy,
+            fingerprint,
+            bannerSnippet: html && html.substring(0, FEEDBACK_CONFIG.MAX_SNIPPET_LENGTH),
+            result: { ...result, clicked: result.clicked },
+        });
+    } catch (error) {
+        console.warn("Cookie Skipper AI: Could not keep the context of the last click:", error);
+    }
+}
+
+/**
+ * Handles the user's report that a tab's last scan clicked the wrong button: the learned flow
+ * for the banner is forgotten and a feedback record is saved. The context is used up, so the
+ * same click cannot be reported twice.
+ * @param tabId The ID of the tab.
+ * @returns Whether the report was saved, and whether a learned flow was forgotten.
+ */
+export async function reportWrongClick(tabId: number): Promise<WrongClickResponse> {
+    const context = await readContext(tabId);
+    if (!context) return { recorded: false, forgotFlow: false };
+
+    const { hostname, policy, fingerprint, bannerSnippet, result } = context;
+    // The wrong button may be part of a learned flow even if the AI was asked this time (e.g., an earlier step).
+    const forgotFlow = fingerprint ? await selectorCacheService.forgetFlow(hostname, fingerprint, policy) : false;
+    await feedbackService.recordWrongClick({
+        timestamp: Date.now(),
+        hostname,
+        policy,
+        source: result.source,
+        cmp: result.cmp ?? null,
+        clicked: result.clicked,
+        bannerSnippet,
+    });
+    await writeContext(tabId, null);
+    return { recorded: true, forgotFlow };
+}
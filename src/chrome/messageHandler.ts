@@ -1,11 +1,15 @@
 
-import { ChromeMessage, MessageType } from '../types';
+import { ChromeMessage, MessageType, ScanStatus, ScanTrigger, AutoScanResponse, WrongClickResponse } from '../types';
 import { executeScan } from './scanManager';
-import { tabStates, getInitialState } from './stateManager';
+import { reportWrongClick } from './feedbackManager';
+import { tabStates, getInitialState, autoScanAttempts, updateStatus, isScanInProgress } from './stateManager';
 import { asyncMessageHandler } from '../utils/chromePromise';
+import * as settingsService from '../services/settingsService';
+import { AUTO_SCAN_CONFIG } from '../constants';
+import { isAutoModeActive } from '../utils/siteRules';
 
 // This module is responsible for handling all incoming messages from other parts of
-// the extension (primarily the popup UI). It acts as a central router, delegating
+// the extension (primarily the popup UI, and the content script in auto mode). It acts as a central router, delegating
 // tasks to the appropriate modules based on the message type.
 
 /**
@@ -23,6 +27,12 @@ const messageHandler = async (message: ChromeMessage, sender: chrome.runtime.Mes
             const tabs = await chrome.tabs.query({ active: true, currentWindow: true });
             const activeTab = tabs[0];
             if (activeTab?.id && activeTab.url) {
+                // Never start a second scan while one is still running in this tab (e.g., started by
+                // auto mode), as each scan removes the temporary tags the other one clicks by.
+                if (isScanInProgress(activeTab.id)) return;
+
+                // `updateStatus` marks the tab as busy before it awaits anything, so a request arriving meanwhile is refused.
+                await updateStatus(activeTab.id, { status: ScanStatus.SCANNING, url: activeTab.url, error: undefined, trigger: ScanTrigger.MANUAL });
                 // Delegate the actual scan logic to the scanManager.
                 // This is a "fire-and-forget" operation from the message handler's perspective.
                 executeScan(activeTab.id, activeTab.url);
@@ -52,6 +62,45 @@ const messageHandler = async (message: ChromeMessage, sender: chrome.runtime.Mes
             return getInitialState("");
         }
         
+        // Handles the request from the content script to scan a page on which a banner appeared.
+        case MessageType.AUTO_SCAN_REQUEST: {
+            const tabId = sender.tab?.id;
+            const tabUrl = sender.tab?.url;
+            const attempts = tabId ? autoScanAttempts.get(tabId) ?? 0 : 0;
+            const attemptsLeft = AUTO_SCAN_CONFIG.MAX_ATTEMPTS_PER_TAB - attempts;
+            let response: AutoScanResponse = { accepted: false, attemptsLeft };
+
+            // The settings are checked here too, in case the content script has not seen a change yet.
+            // A site rule can turn auto mode on (or everything off) for a single site.
+            const { autoMode, siteRules } = await settingsService.getSettings();
+            if (!tabId || !tabUrl || attemptsLeft <= 0 || !isAutoModeActive(autoMode, siteRules, new URL(tabUrl).hostname)) return response;
+
+            // Never start a second scan while one is still running in this tab (even from before a navigation).
+            if (isScanInProgress(tabId)) return response;
+            const currentState = tabStates.get(tabId);
+            // A banner already handled on this page is not scanned again (e.g., after a client-side navigation
+            // back to it), and the content script stops watching.
+            if (currentState?.status === ScanStatus.SUCCESS && currentState.url === tabUrl) {
+                response = { accepted: false, attemptsLeft, status: ScanStatus.SUCCESS };
+                return response;
+            }
+
+            autoScanAttempts.set(tabId, attempts + 1);
+            await updateStatus(tabId, { status: ScanStatus.SCANNING, url: tabUrl, error: undefined, trigger: ScanTrigger.AUTO });
+            // The response waits for the scan, so the content script can stop watching once the banner is handled.
+            await executeScan(tabId, tabUrl, ScanTrigger.AUTO);
+            response = { accepted: true, attemptsLeft: attemptsLeft - 1, status: tabStates.get(tabId)?.status };
+            return response;
+        }
+
+        // Handles the popup's report that the last scan of the active tab clicked the wrong button.
+        case MessageType.REPORT_WRONG_CLICK: {
+            const tabs = await chrome.tabs.query({ active: true, currentWindow: true });
+            const activeTabId = tabs[0]?.id;
+            const response: WrongClickResponse = activeTabId ? await reportWrongClick(activeTabId) : { recorded: false, forgotFlow: false };
+            return response;
+        }
+
         // Handles the request to open the extension's options page.
         case MessageType.OPEN_OPTIONS_PAGE:
             chrome.runtime.openOptionsPage();
@@ -0,0 +1,95 @@
+
+import { MessageType, ScanEvent, ScanEventKind, ScanEventPortMessage } from '../types';
+import { SCAN_EVENT_CONFIG } from '../constants';
+
+// This module streams the detailed steps of each scan (extracting, rule match, model request,
+// clicking, etc.) to the popup over a long-lived `chrome.runtime.connect` port. The events of
+// each tab's current (or last) scan are kept in memory, numbered in order, so a popup that
+// opens mid-scan, or reconnects after its port dropped, receives the events it missed.
+
+/**
+ * The events of a tab's current (or last) scan.
+ */
+interface ScanEventLog {
+    scanId: string;
+    events: ScanEvent[];
+}
+
+// The event log of each tab, keyed by tab ID. It is replaced when the tab's next scan starts,
+// and kept across navigations, as a consent click often reloads the page mid-scan.
+const eventLogs = new Map<number, ScanEventLog>();
+
+// The connected popups, with the tab each one shows.
+const subscribers = new Map<chrome.runtime.Port, number>();
+
+/**
+ * Sends events to every popup that shows the tab.
+ */
+function publish(tabId: number, log: ScanEventLog, events: ScanEvent[]) {
+    const message: ScanEventPortMessage = { type: MessageType.SCAN_EVENTS, payload: { tabId, scanId: log.scanId, events } };
+    subscribers.forEach((subscribedTabId, port) => {
+        if (subscribedTabId !== tabId) return;
+        try {
+            port.postMessage(message);
+        } catch (error) {
+            // The popup closed between the disconnect and this message.
+            subscribers.delete(port);
+        }
+    });
+}
+
+/**
+ * Starts a new event log for a tab, replacing the events of its previous scan.
+ * @param tabId The ID of the tab being scanned.
+ */
+export function startScanEvents(tabId: number) {
+    eventLogs.set(tabId, { scanId: crypto.randomUUID(), events: [] });
+    emitScanEvent(tabId, ScanEventKind.STARTED);
+}
+
+/**
+ * Records a step of a tab's scan and streams it to the connected popups.
+ * @param tabId The ID of the tab being scanned.
+ * @param kind The step.
+ * @param detail What the step was about, e.g., the button or the consent platform.
+ */
+export function emitScanEvent(tabId: number, kind: ScanEventKind, detail?: string) {
+    const log = eventLogs.get(tabId);
+    // Only scans started with `startScanEvents` are streamed, and a runaway loop cannot grow the log without bound.
+    if (!log || log.events.length >= SCAN_EVENT_CONFIG.MAX_EVENTS) return;
+    const event: ScanEvent = { seq: log.events.length, kind, timestamp: Date.now(), ...(detail && { detail }) };
+    log.events.push(event);
+    publish(tabId, log, [event]);
+}
+
+/**
+ * Answers a popup's subscription with the events it has not seen yet: those after its last
+ * event if it already has some of the current scan, and all of them otherwise.
+ */
+function handleSubscribe(port: chrome.runtime.Port, message: ScanEventPortMessage) {
+    if (message.type !== MessageType.SUBSCRIBE_SCAN_EVENTS) return;
+    const { tabId, scanId, lastSeq } = message.payload;
+    subscribers.set(port, tabId);
+    const log = eventLogs.get(tabId);
+    if (!log) return;
+    const missed = log.scanId === scanId ? log.events.filter(event => event.seq > lastSeq) : log.events;
+    const reply: ScanEventPortMessage = { type: MessageType.SCAN_EVENTS, payload: { tabId, scanId: log.scanId, events: missed } };
+    port.postMessage(reply);
+}
+
+/**
+ * Initializes the listener for popups connecting to the scan event port, and drops the
+ * event log of closed tabs.
+ */
+export function initializeScanEventStream() {
+    chrome.runtime.onConnect.addListener((port) => {
+        if (port.name !== SCAN_EVENT_CONFIG.PORT_NAME) return;
+        port.onMessage.addListener((message) => handleSubscribe(port, message as ScanEventPortMessage));
+        port.onDisconnect.addListener(() => subscribers.delete(port));
+    });
+
+    chrome.tabs.onRemoved.addListener((tabId) => {
+        eventLogs.delete(tabId);
+    });
+    console.log("Cookie Skipper AI: Scan event stream initialized.");
+}
@@ -1,118 +1,1009 @@
 
-import { ErrorCode, ScanStatus, AppError, ErrorPayload } from '../types';
-import { findAcceptButtonSelector } from '../services/geminiService';
+import { ErrorCode, ScanStatus, AppError, ErrorPayload, ExtractionOptions, ExtractionResult, ElementTarget, BannerAction, ConsentPolicy, ToggleAction, ToggleChange, PurposePreferences, ClickStrategy, DetectionSource, CachedAction, CachedElementTarget, SelectorCacheEntry, CmpActionKind, CmpDetection, ScanTrigger, SiteRuleMode, StatusUpdatePayload, ScanEventKind, ConsentApiResult, ClickGuardOptions, TaggedElement, ModelTier, TokenUsage, VisualProbeOptions, VisualProbeResult, PageScreenshot, VisualAnalysis, ClickedElement, ButtonCandidate } from '../types';
+import { findConsentAction, findVisualConsentAction, getInputBudgets } from '../services/aiService';
 import * as AnalyticsService from '../services/analyticsService';
-import { updateStatus } from './stateManager';
+import * as settingsService from '../services/settingsService';
+import * as selectorCacheService from '../services/selectorCacheService';
+import * as historyService from '../services/historyService';
+import * as feedbackService from '../services/feedbackService';
+import { EXTRACTION_CONFIG, SCAN_CONFIG, CACHE_CONFIG, CLICK_GUARD_CONFIG, AI_CONFIG, VISUAL_CONFIG, UI_TEXT } from '../constants';
+import { updateStatus, runningScans } from './stateManager';
+import { startScanEvents, emitScanEvent } from './scanEvents';
+import { saveFeedbackContext } from './feedbackManager';
+import { findSiteRule } from '../utils/siteRules';
+import { extractorFunction, clearTagsFunction } from './content-extractor';
+import { clickerFunction, toggleFunction } from './content-clicker';
+import { detectorFunction, CMP_RULES } from './content-detector';
+import { actorFunction } from './content-actor';
+import { waitForDomSettleFunction, markBannerContainerFunction, waitForBannerDismissalFunction } from './content-observer';
+import { visualProbeFunction, pointClickFunction } from './content-visual';
 
 // This module contains the core logic for executing a scan on a webpage.
-// It orchestrates getting the page's HTML, sending it to the AI for analysis,
-// and then injecting a script to click the identified button.
+// If the page's consent platform has a JavaScript API, the choice is set through it.
+// Well-known consent platforms are handled by built-in rules next. Otherwise,
+// it orchestrates getting the page's HTML, sending it to the AI for analysis,
+// and then injecting a script to click the identified button. Banners that need
+// several clicks are handled by repeating these steps in a bounded loop, and the
+// final click is verified by watching the banner disappear. Flows that worked are
+// remembered per site and replayed on later visits before the AI is asked. If the
+// HTML shows no banner but an overlay blocks the page, a screenshot can be analyzed
+// instead (if the user turned this on). Every finished scan is added to the local history,
+// and each step is streamed to the popup as it happens. Buttons the user reported as the
+// wrong choice on a site are avoided on later scans of it.
 
 /**
- * This function's body is injected into the target page to perform the click.
- * It is a critical piece of the architecture.
- *
- * IMPORTANT: This function must be completely self-contained. It cannot reference
- * any variables or functions from the surrounding `scanManager.ts` module scope,
- * as it will be serialized and executed in the isolated context of the webpage.
- *
- * @param selector The CSS selector of the element to click.
- * @returns An object indicating whether the click was successful and a reason for failure.
+ * The error message shown when a banner has no button matching the user's consent policy.
+ * The banner is deliberately left untouched rather than falling back to a different choice.
  */
-function clickerFunction(selector: string): { success: boolean, reason: string } {
-    /**
-     * A helper function to determine if an element is truly clickable by a user.
-     * This checks for common issues like being hidden, disabled, or covered by another element.
-     */
-    const isElementClickable = (element: HTMLElement): { clickable: boolean; reason: string } => {
-        const style = window.getComputedStyle(element);
-        if (style.display === 'none') return { clickable: false, reason: 'Element is not displayed' };
-        if (style.visibility === 'hidden') return { clickable: false, reason: 'Element is not visible' };
-        if (parseFloat(style.opacity) < 0.1) return { clickable: false, reason: 'Element is transparent' };
-        if (element.offsetWidth === 0 || element.offsetHeight === 0) return { clickable: false, reason: 'Element has no size' };
-        if ((element as HTMLButtonElement).disabled) return { clickable: false, reason: 'Element is disabled' };
-        
-        const rect = element.getBoundingClientRect();
-        if (rect.width === 0 || rect.height === 0) return { clickable: false, reason: 'Element has no dimensions' };
-        
-        // Check if the center of the element is obscured by another element.
-        const centerX = rect.left + rect.width / 2;
-        const centerY = rect.top + rect.height / 2;
-        const topElement = document.elementFromPoint(centerX, centerY);
-
-        if (!topElement) return { clickable: false, reason: 'Element is off-screen' };
-        // The element is only considered clickable if it's the top-most element, or if the top-most
-        // element is a child of the target element (e.g., clicking on a <span> inside a <button>).
-        if (topElement !== element && !element.contains(topElement)) return { clickable: false, reason: `Element is covered by <${topElement.tagName.toLowerCase()}>` };
-
-        return { clickable: true, reason: '' };
+const POLICY_UNAVAILABLE_MESSAGES: Record<ConsentPolicy, string> = {
+    [ConsentPolicy.ACCEPT_ALL]: 'This banner has no "Accept all" option, so it was left untouched.',
+    [ConsentPolicy.REJECT_ALL]: 'This banner has no "Reject all" or "Necessary only" option, so it was left untouched.',
+    [ConsentPolicy.DISMISS]: 'This banner cannot be closed without making a choice, so it was left untouched.',
+    [ConsentPolicy.CUSTOM]: 'This banner has no preference center for individual purposes, so it was left untouched.',
+};
+
+/**
+ * The CMP rule action that carries out each consent policy. The custom policy starts by
+ * opening the preference center, where the AI then sets the individual purposes.
+ */
+const POLICY_RULE_ACTIONS: Record<ConsentPolicy, CmpActionKind> = {
+    [ConsentPolicy.ACCEPT_ALL]: CmpActionKind.ACCEPT,
+    [ConsentPolicy.REJECT_ALL]: CmpActionKind.REJECT,
+    [ConsentPolicy.DISMISS]: CmpActionKind.CLOSE,
+    [ConsentPolicy.CUSTOM]: CmpActionKind.SETTINGS,
+};
+
+/**
+ * What the last click of each consent policy's flow does, for the clicked element shown in the
+ * popup when the button's own classification is not known (e.g., a learned flow).
+ */
+const POLICY_FINAL_ACTIONS: Record<ConsentPolicy, CmpActionKind> = {
+    [ConsentPolicy.ACCEPT_ALL]: CmpActionKind.ACCEPT,
+    [ConsentPolicy.REJECT_ALL]: CmpActionKind.REJECT,
+    [ConsentPolicy.DISMISS]: CmpActionKind.CLOSE,
+    [ConsentPolicy.CUSTOM]: CmpActionKind.SAVE,
+};
+
+/**
+ * How the scan events describe a request to each model of the escalation cascade.
+ */
+const MODEL_REQUEST_DETAILS: Record<ModelTier, string | undefined> = {
+    [ModelTier.PRIMARY]: undefined,
+    [ModelTier.ESCALATED]: 'stronger model',
+};
+
+/**
+ * Builds the options for the injected extraction function from the central configuration.
+ * @param maxHtmlLength The character budget for the HTML sent to the model.
+ */
+function getExtractionOptions(maxHtmlLength: number): ExtractionOptions {
+    return {
+        maxHtmlLength,
+        maxCandidates: EXTRACTION_CONFIG.MAX_CANDIDATES,
+        maxTextLength: EXTRACTION_CONFIG.MAX_TEXT_LENGTH,
+        minZIndex: EXTRACTION_CONFIG.MIN_Z_INDEX,
+        minCandidateScore: EXTRACTION_CONFIG.MIN_CANDIDATE_SCORE,
+        knownCmpSelectors: Object.keys(EXTRACTION_CONFIG.KNOWN_CMPS),
+        consentKeywords: EXTRACTION_CONFIG.CONSENT_KEYWORDS,
     };
-    
+}
+
+/**
+ * The combined extraction of all frames in a tab.
+ */
+interface PageExtraction {
+    html: string | null;    // The combined HTML for the model, or null if nothing could be extracted.
+    candidateCount: number; // The total number of banner candidates found across all frames.
+    fingerprint: string;    // Identifies the banner's platform, for the learned selector cache.
+    frameUrls: Map<number, string>; // The URL of every extracted frame, keyed by frame ID.
+    elements: Map<number, Record<string, TaggedElement>>; // The elements tagged with a temporary id, keyed by frame ID.
+}
+
+/**
+ * Combines the extraction results of all frames into a single HTML document for the model.
+ * Frames with banner candidates are ranked by their best candidate's score, and each
+ * frame's section is labelled with its frame ID so the model can say where a button lives.
+ * If no frame has a candidate, the top-level frame's minimized body is used instead.
+ * @param results The injection results of the extraction function, one per frame.
+ * @param maxHtmlLength The character budget for the combined HTML.
+ * @returns The combined extraction, with HTML within the size budget.
+ */
+function combineFrameExtractions(results: chrome.scripting.InjectionResult[], maxHtmlLength: number): PageExtraction {
+    const extractions = results
+        .filter(({ result }) => result && typeof (result as ExtractionResult).html === 'string')
+        .map(({ frameId, result }) => ({ frameId, ...(result as ExtractionResult) }));
+
+    let sections = extractions
+        .filter(extraction => extraction.candidateCount > 0)
+        .sort((a, b) => b.topScore - a.topScore);
+    const candidateCount = sections.reduce((total, section) => total + section.candidateCount, 0);
+    const fingerprint = sections.find(section => section.cmpSelector)?.cmpSelector ?? CACHE_CONFIG.GENERIC_FINGERPRINT;
+    const frameUrls = new Map(extractions.map(extraction => [extraction.frameId, extraction.frameUrl]));
+    const elements = new Map(extractions.map(extraction => [extraction.frameId, extraction.elements]));
+    if (sections.length === 0) {
+        sections = extractions.filter(extraction => extraction.frameId === 0);
+    }
+
+    let html = '';
+    for (const section of sections) {
+        const header = `<!-- Frame ${section.frameId} (${section.frameUrl}) -->\n`;
+        const remaining = maxHtmlLength - html.length - header.length;
+        if (remaining <= 0) break;
+        html += `${header}${section.html.substring(0, remaining)}\n`;
+    }
+    return { html: html || null, candidateCount, fingerprint, frameUrls, elements };
+}
+
+/**
+ * Extracts a minimized version of the page's HTML from every frame of the tab.
+ * The injected extractor ranks the likely banner subtrees (including those inside open
+ * shadow roots) and returns only the best few, so a banner injected at the end of a
+ * large <body> or rendered inside a third-party iframe is not lost.
+ * @param tabId The ID of the tab to extract from.
+ * @param maxHtmlLength The character budget for the HTML sent to the model (see `getInputBudgets`).
+ */
+async function extractPage(tabId: number, maxHtmlLength: number = EXTRACTION_CONFIG.MAX_HTML_LENGTH): Promise<PageExtraction> {
+    emitScanEvent(tabId, ScanEventKind.EXTRACTING);
+    const injectionResults = await chrome.scripting.executeScript({
+        target: { tabId, allFrames: true },
+        func: extractorFunction,
+        args: [getExtractionOptions(maxHtmlLength)],
+    });
+    return combineFrameExtractions(injectionResults || [], maxHtmlLength);
+}
+
+/**
+ * Removes the temporary tags of the last extraction from every frame of the tab.
+ * @param tabId The ID of the tab.
+ */
+async function clearPageTags(tabId: number): Promise<void> {
     try {
-        const element = document.querySelector(selector) as HTMLElement | null;
-        if (element) {
-            const { clickable, reason } = isElementClickable(element);
-            if (clickable) {
-                // If all checks pass, perform the click.
-                element.click();
-                return { success: true, reason: '' };
-            } else {
-                // If the element is not clickable, return the reason.
-                return { success: false, reason };
+        await chrome.scripting.executeScript({
+            target: { tabId, allFrames: true },
+            func: clearTagsFunction,
+        });
+    } catch (error) {
+        // The tab may have been closed or navigated away, which takes the tags with it.
+        console.warn("Cookie Skipper AI: Could not remove the temporary tags:", error);
+    }
+}
+
+/**
+ * Runs the rule-based CMP detector in the main world of every frame of the tab.
+ * @param tabId The ID of the tab.
+ * @param policy The user's consent policy, which determines the button to look for.
+ * @returns The recognized CMP and the action for the policy, or null if no rule applies.
+ */
+async function detectKnownCmp(tabId: number, policy: ConsentPolicy): Promise<{ cmp: string; action: BannerAction } | null> {
+    const actionKind = POLICY_RULE_ACTIONS[policy];
+    const detectionResults = await chrome.scripting.executeScript({
+        target: { tabId, allFrames: true },
+        world: 'MAIN', // The rules check the globals defined by the CMPs' scripts.
+        func: detectorFunction,
+        args: [CMP_RULES, actionKind],
+    });
+    // Prefer the top-level frame if the CMP's button was found in more than one frame.
+    const match = (detectionResults || [])
+        .filter(({ result }) => result)
+        .sort((a, b) => a.frameId - b.frameId)[0];
+    if (!match) return null;
+
+    const detection = match.result as CmpDetection;
+    return {
+        cmp: detection.cmp,
+        action: {
+            target: { frameId: match.frameId, shadowHostPath: detection.shadowHostPath, selector: detection.selector },
+            buttonText: detection.buttonText,
+            isFinalStep: actionKind !== CmpActionKind.SETTINGS,
+            toggles: [],
+        },
+    };
+}
+
+/**
+ * Runs the consent API actor in the main world of the top-level frame, where consent
+ * platforms define their APIs.
+ * @param tabId The ID of the tab.
+ * @param policy The user's consent policy.
+ * @param preferences The user's choice for each purpose, for the custom policy.
+ * @returns The platform whose API was used, or null if no API could make the choice.
+ */
+async function setConsentThroughApi(tabId: number, policy: ConsentPolicy, preferences: PurposePreferences): Promise<ConsentApiResult | null> {
+    const actorResults = await chrome.scripting.executeScript({
+        target: { tabId, frameIds: [0] },
+        world: 'MAIN',
+        func: actorFunction,
+        args: [policy, preferences, SCAN_CONFIG.API_VERIFY_TIMEOUT_MS],
+    });
+    return (actorResults?.[0]?.result as ConsentApiResult | null) ?? null;
+}
+
+/**
+ * Injects the clicker function into the frame the target lives in. The clicker's safety
+ * guard refuses elements that could start a purchase, a sign-up, or an off-site navigation.
+ * @param tabId The ID of the tab to click in.
+ * @param target The element to click.
+ * @param strategy How to click the element.
+ * @param requireCandidate Whether the element must lie inside a banner candidate of the last
+ *                         extraction. Only the built-in rules, whose selectors are not read
+ *                         from the page, click before any extraction.
+ * @throws {AppError} With `CLICK_REFUSED` if the safety guard refused the element, or with
+ *                    `CLICK_FAILED` if the injected script could not click it.
+ */
+async function clickTarget(tabId: number, target: ElementTarget, strategy: ClickStrategy = ClickStrategy.NATIVE, requireCandidate = true): Promise<void> {
+    const guard: ClickGuardOptions = { requireCandidate, blockedTextPattern: CLICK_GUARD_CONFIG.BLOCKED_TEXT_PATTERN };
+    emitScanEvent(tabId, ScanEventKind.CLICKING, strategy === ClickStrategy.POINTER_EVENTS ? 'with pointer events' : undefined);
+    const clickResults = await chrome.scripting.executeScript({
+        target: { tabId, frameIds: [target.frameId] },
+        func: clickerFunction,
+        args: [target, strategy, guard], // Pass the found target, the click strategy, and the safety checks as arguments to the function.
+    });
+    const result = clickResults?.[0]?.result as { success: boolean; refused: boolean; reason: string };
+    if (result?.refused) {
+        throw new AppError(`Refused to click the element for safety: ${result.reason}.`, ErrorCode.CLICK_REFUSED);
+    }
+    if (!result || !result.success) {
+        // The click failed for a reason determined by the injected script.
+        throw new AppError(result?.reason || "Click failed for an unknown reason.", ErrorCode.CLICK_FAILED);
+    }
+}
+
+/**
+ * Checks whether an error means that a button could not be clicked (refused by the safety guard, or failed).
+ */
+function isClickError(error: unknown): boolean {
+    return error instanceof AppError && (error.code === ErrorCode.CLICK_REFUSED || error.code === ErrorCode.CLICK_FAILED);
+}
+
+/**
+ * Clicks the final button of a consent flow and verifies that the banner disappeared.
+ * Before the click, the banner container around the button is marked in the page, and
+ * after the click that container is watched for a short window.
+ * @param tabId The ID of the tab to click in.
+ * @param target The final button.
+ * @param strategy How to click the button.
+ * @param requireCandidate Whether the button must lie inside a banner candidate of the last extraction.
+ * @returns True if the banner disappeared, or false if it was still visible after the window.
+ * @throws {AppError} With `CLICK_REFUSED` or `CLICK_FAILED` if the button could not be clicked.
+ */
+async function clickAndVerify(tabId: number, target: ElementTarget, strategy: ClickStrategy, requireCandidate = true): Promise<boolean> {
+    await chrome.scripting.executeScript({
+        target: { tabId, frameIds: [target.frameId] },
+        func: markBannerContainerFunction,
+        args: [target, EXTRACTION_CONFIG.MIN_Z_INDEX, EXTRACTION_CONFIG.CONSENT_KEYWORDS],
+    });
+    await clickTarget(tabId, target, strategy, requireCandidate);
+
+    emitScanEvent(tabId, ScanEventKind.VERIFYING);
+    try {
+        const verifyResults = await chrome.scripting.executeScript({
+            target: { tabId, frameIds: [target.frameId] },
+            func: waitForBannerDismissalFunction,
+            args: [target.shadowHostPath, SCAN_CONFIG.VERIFY_TIMEOUT_MS],
+        });
+        return verifyResults?.[0]?.result !== false;
+    } catch (error) {
+        // The frame was removed by the click (e.g., a banner iframe closing itself), so the banner is gone.
+        console.warn("Cookie Skipper AI: Could not watch the banner after the click:", error);
+        return true;
+    }
+}
+
+/**
+ * Sets each purpose toggle of a preference center to the user's choice for its purpose.
+ * This runs before the preference center's "save" button is clicked.
+ * @param tabId The ID of the tab.
+ * @param toggles The toggles identified by the AI, each mapped to a purpose.
+ * @param preferences The user's choice for each purpose.
+ * @returns The toggles whose state was actually changed.
+ * @throws {AppError} With `CLICK_FAILED` (or `CLICK_REFUSED`) if a toggle could not be set,
+ *                    so that a partial selection is never saved.
+ */
+async function applyToggles(tabId: number, toggles: ToggleAction[], preferences: PurposePreferences): Promise<ToggleChange[]> {
+    const changes: ToggleChange[] = [];
+    for (const toggle of toggles) {
+        const enabled = preferences[toggle.purpose];
+        const toggleResults = await chrome.scripting.executeScript({
+            target: { tabId, frameIds: [toggle.target.frameId] },
+            func: toggleFunction,
+            args: [toggle.target, enabled, SCAN_CONFIG.TOGGLE_SETTLE_TIMEOUT_MS],
+        });
+        const result = toggleResults?.[0]?.result as { success: boolean; changed: boolean; refused: boolean; reason: string };
+        if (result?.refused) {
+            throw new AppError(`Refused to set the "${toggle.label || toggle.purpose}" toggle for safety: ${result.reason}.`, ErrorCode.CLICK_REFUSED);
+        }
+        if (!result || !result.success) {
+            throw new AppError(`Could not set the "${toggle.label || toggle.purpose}" toggle: ${result?.reason || 'unknown reason'}.`, ErrorCode.CLICK_FAILED);
+        }
+        if (result.changed) {
+            changes.push({ purpose: toggle.purpose, label: toggle.label, enabled });
+        }
+    }
+    return changes;
+}
+
+/**
+ * Waits until the DOM of the given frame stops changing after a click, so that the
+ * banner's next screen has rendered before the page is extracted again.
+ * @param tabId The ID of the tab.
+ * @param frameId The frame that was clicked in.
+ */
+async function waitForDomSettle(tabId: number, frameId: number): Promise<void> {
+    try {
+        await chrome.scripting.executeScript({
+            target: { tabId, frameIds: [frameId] },
+            func: waitForDomSettleFunction,
+            args: [SCAN_CONFIG.SETTLE_QUIET_MS, SCAN_CONFIG.SETTLE_TIMEOUT_MS],
+        });
+    } catch (error) {
+        // The frame may have been removed by the click (e.g., a banner iframe closing itself),
+        // which is expected and simply means there is nothing left to wait for.
+        console.warn("Cookie Skipper AI: Could not wait for the DOM to settle:", error);
+    }
+}
+
+/**
+ * Reduces a frame URL to its origin and path, as query strings (e.g., cache busters)
+ * often change between page loads while the frame stays the same.
+ */
+function normalizeFrameUrl(url: string): string {
+    try {
+        const { origin, pathname } = new URL(url);
+        return `${origin}${pathname}`;
+    } catch (e) {
+        return url;
+    }
+}
+
+/**
+ * Converts an action chosen during this scan into a step of a learned flow.
+ * @param action The action that was clicked.
+ * @param frameUrls The URL of every frame, keyed by frame ID.
+ * @returns The learned step, or null if one of its frames has no known URL.
+ */
+function toCachedAction(action: BannerAction, frameUrls: Map<number, string>): CachedAction | null {
+    const toCachedTarget = (target: ElementTarget): CachedElementTarget | null => {
+        const frameUrl = target.frameId === 0 ? null : frameUrls.get(target.frameId);
+        if (frameUrl === undefined) return null;
+        return { frameUrl: frameUrl && normalizeFrameUrl(frameUrl), shadowHostPath: target.shadowHostPath, selector: target.selector };
+    };
+    const target = toCachedTarget(action.target);
+    const toggles = action.toggles.map(toggle => ({ ...toggle, target: toCachedTarget(toggle.target) }));
+    if (!target || toggles.some(toggle => !toggle.target)) return null;
+    return { target, buttonText: action.buttonText, toggles: toggles.map(toggle => ({ ...toggle, target: toggle.target! })) };
+}
+
+/**
+ * Converts a step of a learned flow back into an action for the current page load,
+ * by looking up the frames by URL.
+ * @param cachedAction The learned step.
+ * @param frameUrls The URL of every frame on the current page, keyed by frame ID.
+ * @param isFinalStep Whether this is the last step of the flow.
+ * @returns The action, or null if one of its frames is not on the page.
+ */
+function fromCachedAction(cachedAction: CachedAction, frameUrls: Map<number, string>, isFinalStep: boolean): BannerAction | null {
+    const fromCachedTarget = (target: CachedElementTarget): ElementTarget | null => {
+        if (target.frameUrl === null) return { frameId: 0, shadowHostPath: target.shadowHostPath, selector: target.selector };
+        for (const [frameId, frameUrl] of frameUrls) {
+            if (frameId !== 0 && normalizeFrameUrl(frameUrl) === target.frameUrl) {
+                return { frameId, shadowHostPath: target.shadowHostPath, selector: target.selector };
             }
-        } else {
-            return { success: false, reason: "Element not found" };
+        }
+        return null;
+    };
+    const target = fromCachedTarget(cachedAction.target);
+    const toggles = cachedAction.toggles.map(toggle => ({ ...toggle, target: fromCachedTarget(toggle.target) }));
+    if (!target || toggles.some(toggle => !toggle.target)) return null;
+    return { target, buttonText: cachedAction.buttonText, isFinalStep, toggles: toggles.map(toggle => ({ ...toggle, target: toggle.target! })) };
+}
+
+/**
+ * Runs the visual probe in the top-level frame, which checks whether an overlay blocks the
+ * page and, if so, tags it and describes it as accessibility-tree text.
+ * @param tabId The ID of the tab.
+ */
+async function probeVisualOverlay(tabId: number): Promise<VisualProbeResult> {
+    const options: VisualProbeOptions = {
+        minZIndex: EXTRACTION_CONFIG.MIN_Z_INDEX,
+        gridSize: VISUAL_CONFIG.GRID_SIZE,
+        minBlockedPoints: VISUAL_CONFIG.MIN_BLOCKED_POINTS,
+        maxTreeLength: VISUAL_CONFIG.MAX_TREE_LENGTH,
+        maxTextLength: EXTRACTION_CONFIG.MAX_TEXT_LENGTH,
+    };
+    const probeResults = await chrome.scripting.executeScript({
+        target: { tabId, frameIds: [0] },
+        func: visualProbeFunction,
+        args: [options],
+    });
+    return (probeResults?.[0]?.result as VisualProbeResult | undefined) ?? { blocked: false, tree: '', elements: {} };
+}
+
+/**
+ * Captures the visible part of the tab as a JPEG image. The browser only captures the active
+ * tab of a window, so a tab in the background (e.g., scanned by auto mode) is not captured.
+ * @param tabId The ID of the tab.
+ * @returns The screenshot, or null if the tab is not visible or could not be captured.
+ */
+async function captureTab(tabId: number): Promise<PageScreenshot | null> {
+    try {
+        const tab = await chrome.tabs.get(tabId);
+        if (!tab.active) return null;
+        const dataUrl = await chrome.tabs.captureVisibleTab(tab.windowId, { format: 'jpeg', quality: VISUAL_CONFIG.SCREENSHOT_QUALITY });
+        return { mimeType: 'image/jpeg', data: dataUrl.substring(dataUrl.indexOf(',') + 1) };
+    } catch (error) {
+        console.warn("Cookie Skipper AI: Could not capture the tab:", error);
+        return null;
+    }
+}
+
+/**
+ * Clicks the point the visual analysis chose and verifies that the overlay under it disappeared.
+ * @param tabId The ID of the tab.
+ * @param point The point to click, in percent of the viewport's width and height.
+ * @returns True if the overlay disappeared, or false if it was still visible after the window.
+ * @throws {AppError} With `CLICK_REFUSED` if the point is not on the blocking overlay or fails
+ *                    the safety checks, or with `CLICK_FAILED` if it could not be clicked.
+ */
+async function clickPointAndVerify(tabId: number, point: { x: number; y: number }): Promise<boolean> {
+    emitScanEvent(tabId, ScanEventKind.CLICKING, `at ${Math.round(point.x)}% × ${Math.round(point.y)}% of the screen`);
+    const clickResults = await chrome.scripting.executeScript({
+        target: { tabId, frameIds: [0] },
+        func: pointClickFunction,
+        args: [point, CLICK_GUARD_CONFIG.BLOCKED_TEXT_PATTERN],
+    });
+    const result = clickResults?.[0]?.result as { success: boolean; refused: boolean; reason: string };
+    if (result?.refused) {
+        throw new AppError(`Refused to click the chosen point for safety: ${result.reason}.`, ErrorCode.CLICK_REFUSED);
+    }
+    if (!result || !result.success) {
+        throw new AppError(result?.reason || "Click failed for an unknown reason.", ErrorCode.CLICK_FAILED);
+    }
+    emitScanEvent(tabId, ScanEventKind.VERIFYING);
+    const verifyResults = await chrome.scripting.executeScript({
+        target: { tabId, frameIds: [0] },
+        func: waitForBannerDismissalFunction,
+        args: [[], SCAN_CONFIG.VERIFY_TIMEOUT_MS],
+    });
+    return verifyResults?.[0]?.result !== false;
+}
+
+/**
+ * The outcome of the visual analysis.
+ */
+interface VisualOutcome {
+    analysis: VisualAnalysis;
+    clicked: boolean;   // Whether a button was clicked.
+    dismissed: boolean; // Whether the banner disappeared after the click.
+}
+
+/**
+ * Looks for the banner on a screenshot, for banners whose HTML says nothing useful (e.g., drawn
+ * on a canvas or made of images). This is only done if an overlay visibly blocks the page.
+ * The chosen button is clicked through the regular safety guard if the accessibility tree lists
+ * it, and otherwise at the point the model gave. Such flows are not learned, as a point on a
+ * screenshot does not identify a button on the next visit.
+ * @param tabId The ID of the tab.
+ * @param policy The user's consent policy. The custom policy is not supported.
+ * @param tier Which model of the escalation cascade to ask.
+ * @returns The outcome, or null if nothing blocks the page or the tab could not be captured.
+ */
+async function runVisualAnalysis(tabId: number, policy: ConsentPolicy, tier: ModelTier): Promise<VisualOutcome | null> {
+    const probe = await probeVisualOverlay(tabId);
+    if (!probe.blocked) return null;
+    const screenshot = await captureTab(tabId);
+    if (!screenshot) return null;
+
+    emitScanEvent(tabId, ScanEventKind.MODEL_REQUEST, 'with a screenshot');
+    const analysis = await findVisualConsentAction(screenshot, probe.tree, policy, probe.elements, tier);
+    const { action } = analysis;
+    if (!action) return { analysis, clicked: false, dismissed: false };
+    emitScanEvent(tabId, ScanEventKind.CANDIDATE_CHOSEN, action.buttonText || undefined);
+    const dismissed = action.target
+        ? await clickAndVerify(tabId, action.target, ClickStrategy.NATIVE)
+        : await clickPointAndVerify(tabId, action.point!);
+    return { analysis, clicked: true, dismissed };
+}
+
+/**
+ * Replays a consent flow learned on an earlier visit: each step is clicked in order, and
+ * the last click is verified like any final click.
+ * @param tabId The ID of the tab.
+ * @param entry The learned flow.
+ * @param frameUrls The URL of every frame on the page before the first click, keyed by frame ID.
+ * @param preferences The user's choice for each purpose, applied to learned toggles.
+ * @param changedToggles Collects the purpose toggles changed during the replay.
+ * @param clickedButtons Collects the text of each button clicked during the replay.
+ * @returns True if the banner disappeared after the last step.
+ */
+async function replayCachedFlow(tabId: number, entry: SelectorCacheEntry, frameUrls: Map<number, string>, preferences: PurposePreferences, changedToggles: ToggleChange[], clickedButtons: string[]): Promise<boolean> {
+    try {
+        for (const [index, cachedAction] of entry.actions.entries()) {
+            const isFinalStep = index === entry.actions.length - 1;
+            // A click can replace the banner's frames, so they are looked up again for later steps.
+            const currentFrameUrls = index === 0 ? frameUrls : (await extractPage(tabId)).frameUrls;
+            const action = fromCachedAction(cachedAction, currentFrameUrls, isFinalStep);
+            if (!action) return false;
+
+            if (action.toggles.length > 0) {
+                changedToggles.push(...await applyToggles(tabId, action.toggles, preferences));
+            }
+            if (isFinalStep) {
+                const dismissed = await clickAndVerify(tabId, action.target, ClickStrategy.NATIVE);
+                if (dismissed) clickedButtons.push(action.buttonText || action.target.selector);
+                return dismissed;
+            }
+            await clickTarget(tabId, action.target);
+            clickedButtons.push(action.buttonText || action.target.selector);
+            await waitForDomSettle(tabId, action.target.frameId);
         }
     } catch (error) {
-        // Catch any unexpected errors during the query or click.
-        return { success: false, reason: (error as Error).message };
+        // A learned selector that no longer matches is expected when a site changes its banner.
+        console.warn("Cookie Skipper AI: Replaying the learned flow failed:", error);
+    }
+    return false;
+}
+
+/**
+ * Describes a clicked button for the scan result.
+ * @param action The button's action, chosen during this scan or replayed from a learned flow.
+ * @param actionType What the button does.
+ */
+function toClickedElement(action: BannerAction | CachedAction, actionType: CmpActionKind): ClickedElement {
+    return { text: action.buttonText, actionType, selector: action.target.selector };
+}
+
+/**
+ * Looks up what a button the AI chose does. The AI's answer is always one of its candidates,
+ * so the policy's final choice is only a fallback.
+ * @param action The chosen action.
+ * @param candidates The candidates of the analysis that chose it.
+ * @param policy The user's consent policy.
+ */
+function getActionType(action: BannerAction, candidates: ButtonCandidate[], policy: ConsentPolicy): CmpActionKind {
+    return candidates.find(candidate => candidate.action === action)?.actionType ?? POLICY_FINAL_ACTIONS[policy];
+}
+
+/**
+ * Describes how a scan ended, for its last scan event.
+ * @param finalState The tab's state as the scan last set it.
+ */
+function describeOutcome(finalState: StatusUpdatePayload | null): string | undefined {
+    if (!finalState) return undefined;
+    return finalState.status === ScanStatus.ERROR ? finalState.error?.message : UI_TEXT[finalState.status];
+}
+
+/**
+ * Adds a finished scan to the local history. Scans that did not get past their first
+ * status update are not recorded. A storage failure is logged and never fails the scan.
+ * @param finalState The tab's state as the scan last set it.
+ * @param tabUrl The URL of the scanned tab.
+ * @param trigger What started the scan.
+ * @param startedAt When the scan started, in milliseconds since the epoch.
+ * @param policy The consent policy the scan applied, or null if it never got that far.
+ * @param clickedButtons The text of each button the scan clicked.
+ * @param fingerprint Identifies the banner's platform, if the page was extracted.
+ */
+async function recordScanHistory(finalState: StatusUpdatePayload | null, tabUrl: string, trigger: ScanTrigger, startedAt: number, policy: ConsentPolicy | null, clickedButtons: string[], fingerprint: string | null): Promise<void> {
+    if (!finalState) return;
+    const { status, error, result } = finalState;
+    try {
+        await historyService.recordScan({
+            timestamp: startedAt,
+            hostname: new URL(tabUrl).hostname,
+            trigger,
+            outcome: status,
+            // The tab's state keeps the error of an earlier scan until the next error replaces it.
+            errorCode: status === ScanStatus.ERROR ? error?.code ?? null : null,
+            source: result?.source ?? null,
+            // Only rules and consent APIs name the platform in the result, so a banner the cache,
+            // the AI, or the visual analysis handled is named after its fingerprint.
+            cmp: result?.cmp ?? (fingerprint && EXTRACTION_CONFIG.KNOWN_CMPS[fingerprint]) ?? null,
+            clickedButtons,
+            // Only a scan that clicked (or set the choice through an API) made a choice on the user's behalf.
+            action: result ? policy : null,
+            latencyMs: Date.now() - startedAt,
+        });
+    } catch (historyError) {
+        console.warn("Cookie Skipper AI: Could not add the scan to the history:", historyError);
     }
 }
 
 /**
  * The main function to orchestrate the entire scanning process for a given tab.
+ * Each step extracts the page, asks the AI for the next button, and clicks it. The loop
+ * ends when the AI reports the flow as complete, the banner disappears, or the step limit is hit.
+ * If the banner is still visible after the final click, the click is retried first with a
+ * different click strategy and then with the AI's next-best button. If the AI is not
+ * confident enough in any button, nothing is clicked.
+ *
+ * The AI analysis starts with a cheap model. If it finds no button, is not confident enough,
+ * or picks a button that cannot be clicked or does not close the banner, the scan escalates
+ * once to a stronger model with a larger HTML budget. The model that answered is recorded
+ * in the scan result.
+ *
+ * If the HTML analysis finds no banner but an overlay visibly blocks the page, and the user
+ * turned the visual analysis on, a screenshot of the tab is analyzed instead.
+ *
+ * Nothing is done on sites the user excluded with a site rule. Before the AI is asked at
+ * all, the choice is set through the consent platform's JavaScript API if it has one, then
+ * the built-in rules for well-known consent platforms are tried, then the flow learned on
+ * an earlier visit to the site is replayed. A flow the AI found that worked is stored for
+ * the next visit. A built-in rule whose button the user reported as wrong on the site is
+ * skipped, and the AI is told to avoid such buttons. The last clicked button is part of the
+ * scan result, and what it was based on is kept for a wrong-click report.
  * @param tabId The ID of the tab to scan.
- * @param tabUrl The URL of the tab, used for analytics.
+ * @param tabUrl The URL of the tab, used for analytics and as the key of the learned selector cache.
+ * @param trigger What started the scan (the user, or auto mode).
  */
-export async function executeScan(tabId: number, tabUrl: string) {
+export async function executeScan(tabId: number, tabUrl: string, trigger: ScanTrigger = ScanTrigger.MANUAL) {
     let html: string | null = null;
+    let isPageTagged = false; // Whether an extraction has tagged elements on the page.
+    const startedAt = Date.now();
+    const clickedButtons: string[] = []; // The text of each button clicked so far, for the AI's step history.
+    let appliedPolicy: ConsentPolicy | null = null; // The policy of this scan, once it is known, for the history.
+    let fingerprint: string | null = null; // The banner's platform, once the page is extracted, for a wrong-click report.
+    let finalState: StatusUpdatePayload | null = null; // The tab's state as this scan last set it, for the history.
+
+    /**
+     * Updates the tab's status and remembers the new state. The history is recorded from this copy,
+     * as the tab's own state is cleared when it navigates, which a consent click often causes.
+     */
+    const setStatus = async (update: Partial<StatusUpdatePayload>) => {
+        finalState = await updateStatus(tabId, update);
+    };
+
+    runningScans.add(tabId);
+    startScanEvents(tabId);
     try {
-        // Step 1: Get the full outer HTML of the page's body.
-        // We use programmatic script injection to execute a simple function on the page.
-        const injectionResults = await chrome.scripting.executeScript({
-            target: { tabId: tabId },
-            func: () => document.body.outerHTML,
-        });
-        html = injectionResults?.[0]?.result as string;
-        if (!html) throw new AppError("Failed to get page HTML.", ErrorCode.HTML_FETCH_FAILED);
-        
-        // Step 2: Analyze the HTML with the AI to find the button selector.
-        await updateStatus(tabId, { status: ScanStatus.ANALYZING });
-        const selector = await findAcceptButtonSelector(html);
-        const bannerHtmlContext = html.substring(0, 30000); // Take a large snippet for analytics.
-
-        if (selector) {
-            // Step 3: If a selector was found, inject the clicker function to click the element.
-            const clickResults = await chrome.scripting.executeScript({
-                target: { tabId },
-                func: clickerFunction,
-                args: [selector], // Pass the found selector as an argument to the function.
-            });
-            const result = clickResults?.[0]?.result as { success: boolean; reason: string };
-
-            // Step 3a: Handle the result of the click attempt.
-            if (result && result.success) {
-                await updateStatus(tabId, { status: ScanStatus.SUCCESS });
-                await AnalyticsService.trackScanSuccess({ url: tabUrl, selector, banner_html_context: bannerHtmlContext });
+        const settings = await settingsService.getSettings();
+        const { purposePreferences } = settings;
+        const hostname = new URL(tabUrl).hostname;
+
+        // Check the site rules before touching the page at all.
+        const siteRule = findSiteRule(settings.siteRules, hostname);
+        if (siteRule?.mode === SiteRuleMode.NEVER) {
+            await setStatus({ status: ScanStatus.SKIPPED, step: undefined, result: undefined, trigger });
+            return;
+        }
+        // A site rule can override the consent policy for this site.
+        const consentPolicy = siteRule?.mode === SiteRuleMode.POLICY && siteRule.policy ? siteRule.policy : settings.consentPolicy;
+        appliedPolicy = consentPolicy;
+
+        const maxSteps = SCAN_CONFIG.MAX_STEPS;
+        const changedToggles: ToggleChange[] = []; // The purpose toggles changed in a preference center.
+        let lastAction: BannerAction | null = null;
+        let retryCount = 0;
+        let lastClicked: ClickedElement | undefined; // The last button clicked so far, for the result.
+        const learnedActions: (CachedAction | null)[] = []; // The clicked steps, to be stored in the learned selector cache.
+
+        // Clear the result of any previous scan of this tab.
+        await setStatus({ result: undefined, trigger });
+
+        // Step 0a: Set the choice through the consent platform's JavaScript API, without any click.
+        await setStatus({ status: ScanStatus.SCANNING, step: { current: 1, max: maxSteps } });
+        const apiResult = await setConsentThroughApi(tabId, consentPolicy, purposePreferences);
+        if (apiResult) emitScanEvent(tabId, ScanEventKind.CONSENT_API, apiResult.api);
+        if (apiResult?.verified) {
+            await setStatus({ status: ScanStatus.SUCCESS, step: undefined, result: { source: DetectionSource.API, cmp: apiResult.api, changedToggles, retryCount } });
+            await AnalyticsService.trackScanSuccess({ url: tabUrl, selector: null, banner_html_context: null });
+            return;
+        }
+        if (apiResult) {
+            // The API was called, but the consent state did not change as expected. Fall back to clicking.
+            console.warn(`Cookie Skipper AI: The ${apiResult.api} API did not confirm the choice, falling back to clicking.`);
+        }
+
+        // The buttons the user reported as the wrong choice on this site.
+        const wrongClicks = await feedbackService.getWrongClicks(hostname, consentPolicy);
+        const rejectedButtons = wrongClicks.map(clicked => clicked.text).filter(text => text);
+
+        // Step 0b: Recognize well-known consent platforms with the built-in rules, without an AI call.
+        // A rule whose button the user reported as wrong here is left to the AI instead.
+        const detectedCmp = await detectKnownCmp(tabId, consentPolicy);
+        const isRuleRejected = !!detectedCmp && wrongClicks.some(clicked => clicked.selector === detectedCmp.action.target.selector);
+        const knownCmp = isRuleRejected ? null : detectedCmp;
+        if (knownCmp) {
+            const { cmp, action } = knownCmp;
+            emitScanEvent(tabId, ScanEventKind.RULE_MATCHED, cmp);
+            const buttonLabel = action.buttonText || action.target.selector;
+            lastClicked = toClickedElement(action, POLICY_RULE_ACTIONS[consentPolicy]);
+            if (action.isFinalStep) {
+                if (await clickAndVerify(tabId, action.target, ClickStrategy.NATIVE, false)) {
+                    clickedButtons.push(buttonLabel);
+                    await setStatus({ status: ScanStatus.SUCCESS, step: undefined, result: { source: DetectionSource.RULES, cmp, changedToggles, retryCount, clicked: lastClicked } });
+                    await AnalyticsService.trackScanSuccess({ url: tabUrl, selector: action.target.selector, banner_html_context: null });
+                    return;
+                }
+                // The CMP's template may have been customized. Fall back to the learned flow and the AI.
+                lastClicked = undefined;
+                console.warn(`Cookie Skipper AI: The ${cmp} rule did not close the banner, falling back to the AI.`);
             } else {
-                // The click failed for a reason determined by the injected script.
-                throw new AppError(result?.reason || "Click failed for an unknown reason.", ErrorCode.CLICK_FAILED);
+                // Open the preference center, where the AI then sets the individual purposes.
+                await clickTarget(tabId, action.target, ClickStrategy.NATIVE, false);
+                clickedButtons.push(buttonLabel);
+                lastAction = action;
+                await setStatus({ step: { current: 1, max: maxSteps, description: `Clicked "${buttonLabel}"` } });
+                await waitForDomSettle(tabId, action.target.frameId);
+            }
+        }
+
+        // Step 0c: Replay the flow learned on an earlier visit to this site, if there is one.
+        // This is only tried while a banner candidate is on the page, so nothing is clicked on a banner-free page.
+        // The AI analysis starts with the cheap model of the cascade. When it finds no button, is
+        // not confident enough, or picks a button that cannot be clicked, the scan escalates once
+        // to the stronger model, which also gets a larger HTML budget. The extraction always fills
+        // the budget of the model that analyzes it.
+        const inputBudgets = await getInputBudgets();
+        let modelTier = ModelTier.PRIMARY;
+        let maxHtmlLength = inputBudgets[ModelTier.PRIMARY]!;
+        let answeredBy: { model: string; modelTier: ModelTier } | undefined; // The model whose answer led to the last click.
+        const usage: TokenUsage = { promptTokens: 0, outputTokens: 0 }; // The tokens used by all AI calls of this scan.
+        const addUsage = (callUsage: TokenUsage) => {
+            usage.promptTokens += callUsage.promptTokens;
+            usage.outputTokens += callUsage.outputTokens;
+        };
+
+        /**
+         * Switches the rest of the scan to the stronger model, unless it already uses it or escalation is off.
+         * @param step The current step, for the status.
+         * @param reason Why the scan escalates, for the log.
+         * @returns True if the scan escalated, so the current step should be repeated.
+         */
+        const escalate = async (step: number, reason: string): Promise<boolean> => {
+            const escalatedBudget = inputBudgets[ModelTier.ESCALATED];
+            if (modelTier === ModelTier.ESCALATED || escalatedBudget === null) return false;
+            console.log(`Cookie Skipper AI: Escalating to the stronger model (${reason}).`);
+            modelTier = ModelTier.ESCALATED;
+            maxHtmlLength = escalatedBudget;
+            pendingExtraction = null; // The page is extracted again with the larger budget.
+            await setStatus({ status: ScanStatus.ANALYZING, step: { current: step, max: maxSteps, description: 'Asking a stronger model' } });
+            return true;
+        };
+
+        isPageTagged = true;
+        let pendingExtraction: PageExtraction | null = await extractPage(tabId, maxHtmlLength);
+        fingerprint = pendingExtraction.fingerprint;
+        if (!lastAction && pendingExtraction.candidateCount > 0) {
+            const cachedFlow = await selectorCacheService.getCachedFlow(hostname, fingerprint, consentPolicy);
+            if (cachedFlow) {
+                emitScanEvent(tabId, ScanEventKind.CACHE_HIT, `${cachedFlow.actions.length} ${cachedFlow.actions.length === 1 ? 'click' : 'clicks'}`);
+                if (await replayCachedFlow(tabId, cachedFlow, pendingExtraction.frameUrls, purposePreferences, changedToggles, clickedButtons)) {
+                    const lastCachedAction = cachedFlow.actions[cachedFlow.actions.length - 1];
+                    html = pendingExtraction.html; // The banner the flow was replayed on, for a wrong-click report.
+                    await selectorCacheService.recordCacheHit(hostname, fingerprint, consentPolicy);
+                    await setStatus({ status: ScanStatus.SUCCESS, step: undefined, result: { source: DetectionSource.CACHE, changedToggles, retryCount, clicked: toClickedElement(lastCachedAction, POLICY_FINAL_ACTIONS[consentPolicy]) } });
+                    await AnalyticsService.trackScanSuccess({ url: tabUrl, selector: lastCachedAction.target.selector, banner_html_context: pendingExtraction.html });
+                    return;
+                }
+                await selectorCacheService.recordCacheFailure(hostname, fingerprint, consentPolicy);
+                // The replay may have changed the page, so it is extracted again before asking the AI.
+                pendingExtraction = null;
             }
-        } else {
-            // Step 4: If the AI did not find a selector, update the status accordingly.
-            await updateStatus(tabId, { status: ScanStatus.NOT_FOUND });
-            await AnalyticsService.trackScanNotFound({ url: tabUrl, banner_html_context: bannerHtmlContext });
         }
+
+        for (let step = 1; ; step++) {
+            if (step > maxSteps) {
+                throw new AppError(`The banner was still present after ${maxSteps} steps.`, ErrorCode.STEP_LIMIT_REACHED);
+            }
+
+            // Step 1: Extract a minimized version of the page's HTML from every frame.
+            await setStatus({ status: ScanStatus.SCANNING, step: { current: step, max: maxSteps } });
+            const extraction: PageExtraction = pendingExtraction ?? await extractPage(tabId, maxHtmlLength);
+            pendingExtraction = null;
+            html = extraction.html;
+            if (!html) throw new AppError("Failed to get page HTML.", ErrorCode.HTML_FETCH_FAILED);
+
+            // If an earlier click made every banner candidate disappear, the flow is complete.
+            if (lastAction && extraction.candidateCount === 0) break;
+
+            // Step 2: Analyze the HTML with the AI to find the next button to click for the user's policy.
+            await setStatus({ status: ScanStatus.ANALYZING });
+            emitScanEvent(tabId, ScanEventKind.MODEL_REQUEST, MODEL_REQUEST_DETAILS[modelTier]);
+            const analysis = await findConsentAction(html, consentPolicy, extraction.elements, clickedButtons, [], modelTier, rejectedButtons);
+            addUsage(analysis.usage);
+            const { action, bannerFound } = analysis;
+            if (action) emitScanEvent(tabId, ScanEventKind.CANDIDATE_CHOSEN, action.buttonText || action.target.selector);
+
+            if (!action) {
+                // Step 2a: Ask the stronger model if this one found no button or was not sure enough.
+                // A page without any sign of a banner (e.g., after earlier steps completed the flow)
+                // is not worth the stronger model.
+                const mayHaveBanner = bannerFound || extraction.candidateCount > 0;
+                if ((analysis.lowConfidence || mayHaveBanner) && await escalate(step, analysis.lowConfidence ? 'low confidence' : 'no button found')) {
+                    step--; // The stronger model repeats this step.
+                    continue;
+                }
+
+                // The AI found a matching button, but is not sure enough of it. Guessing could make
+                // the wrong choice on the user's behalf, so nothing is clicked.
+                if (analysis.lowConfidence) {
+                    await setStatus({ status: ScanStatus.LOW_CONFIDENCE, step: undefined });
+                    await AnalyticsService.trackScanLowConfidence({ url: tabUrl, banner_html_context: html });
+                    return;
+                }
+
+                // A banner is present, but it offers no path to the user's choice, possibly only on the
+                // screen an earlier step opened (e.g., a preference center without a reject button). Report
+                // this instead of quietly making a different choice, or claiming success, on the user's behalf.
+                if (bannerFound) {
+                    throw new AppError(POLICY_UNAVAILABLE_MESSAGES[consentPolicy], ErrorCode.POLICY_OPTION_UNAVAILABLE);
+                }
+
+                if (lastAction) {
+                    // The AI sees no banner, but banner candidates are still on the page (a page without
+                    // any ended the loop above), so the earlier clicks may not have finished the flow.
+                    // Report this rather than claiming success.
+                    await setStatus({ status: ScanStatus.BANNER_PERSISTED, step: undefined, result: { source: DetectionSource.AI, cmp: knownCmp?.cmp, changedToggles, retryCount, usage, clicked: lastClicked, ...answeredBy } });
+                    await AnalyticsService.trackScanPersisted({ url: tabUrl, selector: lastAction.target.selector, banner_html_context: html, ...answeredBy });
+                    return;
+                }
+
+                // Step 4a: The HTML shows no banner, but one drawn on a canvas or made of images would not
+                // show up in it. If the user turned the visual analysis on and an overlay blocks the page,
+                // look at a screenshot instead. It makes a single click, so the custom policy is not supported.
+                if (settings.visualAnalysis && consentPolicy !== ConsentPolicy.CUSTOM) {
+                    await setStatus({ status: ScanStatus.ANALYZING, step: { current: step, max: maxSteps, description: 'Looking at a screenshot' } });
+                    const visual = await runVisualAnalysis(tabId, consentPolicy, modelTier);
+                    if (visual) {
+                        addUsage(visual.analysis.usage);
+                        const visualAnswer = { model: visual.analysis.model, modelTier };
+                        const selector = visual.analysis.action?.target?.selector ?? null;
+                        if (visual.clicked) clickedButtons.push(visual.analysis.action?.buttonText || selector || 'a point on the screenshot');
+                        // The visual analysis only looks for the button that makes the choice in one click.
+                        const visualClicked: ClickedElement | undefined = visual.analysis.action
+                            ? { text: visual.analysis.action.buttonText, actionType: POLICY_FINAL_ACTIONS[consentPolicy], selector }
+                            : undefined;
+                        if (visual.dismissed) {
+                            await setStatus({ status: ScanStatus.SUCCESS, step: undefined, result: { source: DetectionSource.VISUAL, changedToggles, retryCount, usage, clicked: visualClicked, ...visualAnswer } });
+                            await AnalyticsService.trackScanSuccess({ url: tabUrl, selector, banner_html_context: html, ...visualAnswer });
+                            return;
+                        }
+                        if (visual.clicked) {
+                            await setStatus({ status: ScanStatus.BANNER_PERSISTED, step: undefined, result: { source: DetectionSource.VISUAL, changedToggles, retryCount, usage, clicked: visualClicked, ...visualAnswer } });
+                            await AnalyticsService.trackScanPersisted({ url: tabUrl, selector, banner_html_context: html, ...visualAnswer });
+                            return;
+                        }
+                        if (visual.analysis.lowConfidence) {
+                            await setStatus({ status: ScanStatus.LOW_CONFIDENCE, step: undefined });
+                            await AnalyticsService.trackScanLowConfidence({ url: tabUrl, banner_html_context: html });
+                            return;
+                        }
+                        if (visual.analysis.bannerFound) {
+                            throw new AppError(POLICY_UNAVAILABLE_MESSAGES[consentPolicy], ErrorCode.POLICY_OPTION_UNAVAILABLE);
+                        }
+                    }
+                }
+
+                // Step 4b: If the AI did not find a button at all, update the status accordingly.
+                await setStatus({ status: ScanStatus.NOT_FOUND, step: undefined });
+                await AnalyticsService.trackScanNotFound({ url: tabUrl, banner_html_context: html });
+                return;
+            }
+
+            // Step 3: Set any purpose toggles of a preference center, then click the button
+            // (e.g., "Save preferences") in the frame it lives in.
+            if (action.toggles.length > 0) {
+                changedToggles.push(...await applyToggles(tabId, action.toggles, purposePreferences));
+            }
+
+            if (!action.isFinalStep) {
+                try {
+                    await clickTarget(tabId, action.target);
+                } catch (error) {
+                    // Step 3c: The button could not be clicked (e.g., the safety guard refused it), so ask the stronger model.
+                    if (isClickError(error) && await escalate(step, 'click failed')) {
+                        step--;
+                        continue;
+                    }
+                    throw error;
+                }
+                answeredBy = { model: analysis.model, modelTier };
+                const buttonLabel = action.buttonText || action.target.selector;
+                clickedButtons.push(buttonLabel);
+                lastClicked = toClickedElement(action, getActionType(action, analysis.candidates, consentPolicy));
+                learnedActions.push(toCachedAction(action, extraction.frameUrls));
+                lastAction = action;
+                await setStatus({ step: { current: step, max: maxSteps, description: `Clicked "${buttonLabel}"` } });
+
+                // Step 3a: Give the banner time to render its next screen before extracting again.
+                await waitForDomSettle(tabId, action.target.frameId);
+                continue;
+            }
+
+            // Step 3b: The final click must make the banner disappear. If it is still visible,
+            // retry the same button with a different click strategy, then the AI's next-ranked
+            // confident candidate, and finally ask the AI again with the failed buttons excluded.
+            let finalAction: BannerAction | null = action;
+            let finalFrameUrls = extraction.frameUrls;
+            const failedButtons: string[] = [];
+            const alternatives = analysis.candidates
+                .filter(candidate => candidate.action !== action && candidate.action.isFinalStep && candidate.confidence >= AI_CONFIG.MIN_CONFIDENCE)
+                .map(candidate => candidate.action);
+            let finalAnswer = { model: analysis.model, modelTier };
+            let finalClicked = toClickedElement(action, getActionType(action, analysis.candidates, consentPolicy)); // The last final button clicked.
+            let dismissed: boolean;
+            try {
+                dismissed = await clickAndVerify(tabId, action.target, ClickStrategy.NATIVE);
+            } catch (error) {
+                // Step 3c: The button could not be clicked (e.g., the safety guard refused it), so ask the stronger model.
+                if (isClickError(error) && await escalate(step, 'click failed')) {
+                    step--;
+                    continue;
+                }
+                throw error;
+            }
+            while (!dismissed && finalAction && retryCount < SCAN_CONFIG.MAX_CLICK_RETRIES) {
+                retryCount++;
+                const failedLabel: string = finalAction.buttonText || finalAction.target.selector;
+                await setStatus({ step: { current: step, max: maxSteps, description: `Banner still visible after clicking "${failedLabel}", retrying` } });
+
+                if (retryCount === 1) {
+                    dismissed = await clickAndVerify(tabId, finalAction.target, ClickStrategy.POINTER_EVENTS);
+                    continue;
+                }
+
+                failedButtons.push(failedLabel);
+                const alternative = alternatives.shift();
+                if (alternative) {
+                    finalAction = alternative;
+                    finalClicked = toClickedElement(alternative, getActionType(alternative, analysis.candidates, consentPolicy));
+                    dismissed = await clickAndVerify(tabId, alternative.target, ClickStrategy.NATIVE);
+                    continue;
+                }
+
+                // The model's own choices did not work, so the stronger model (if the scan has not
+                // escalated yet) is asked again, with a larger HTML budget.
+                await escalate(step, 'banner still visible');
+                const retryExtraction = await extractPage(tabId, maxHtmlLength);
+                if (!retryExtraction.html) break;
+                html = retryExtraction.html;
+                finalFrameUrls = retryExtraction.frameUrls;
+                await setStatus({ status: ScanStatus.ANALYZING });
+                emitScanEvent(tabId, ScanEventKind.MODEL_REQUEST, MODEL_REQUEST_DETAILS[modelTier]);
+                const retryAnalysis = await findConsentAction(html, consentPolicy, retryExtraction.elements, clickedButtons, failedButtons, modelTier, rejectedButtons);
+                addUsage(retryAnalysis.usage);
+                finalAnswer = { model: retryAnalysis.model, modelTier };
+                // Only a button that completes the flow can make the banner disappear.
+                finalAction = retryAnalysis.action?.isFinalStep ? retryAnalysis.action : null;
+                if (finalAction) {
+                    emitScanEvent(tabId, ScanEventKind.CANDIDATE_CHOSEN, finalAction.buttonText || finalAction.target.selector);
+                    if (finalAction.toggles.length > 0) {
+                        changedToggles.push(...await applyToggles(tabId, finalAction.toggles, purposePreferences));
+                    }
+                    finalClicked = toClickedElement(finalAction, getActionType(finalAction, retryAnalysis.candidates, consentPolicy));
+                    dismissed = await clickAndVerify(tabId, finalAction.target, ClickStrategy.NATIVE);
+                }
+            }
+
+            if (!dismissed || !finalAction) {
+                // Every attempt left the banner on screen. Report this instead of claiming success.
+                // The history lists every button that was tried, each once.
+                const triedButtons = finalAction ? [...failedButtons, finalAction.buttonText || finalAction.target.selector] : failedButtons;
+                clickedButtons.push(...new Set(triedButtons));
+                await setStatus({ status: ScanStatus.BANNER_PERSISTED, result: { source: DetectionSource.AI, changedToggles, retryCount, usage, clicked: finalClicked, ...finalAnswer } });
+                await AnalyticsService.trackScanPersisted({ url: tabUrl, selector: action.target.selector, banner_html_context: html, ...finalAnswer });
+                return;
+            }
+
+            const buttonLabel = finalAction.buttonText || finalAction.target.selector;
+            clickedButtons.push(buttonLabel);
+            learnedActions.push(toCachedAction(finalAction, finalFrameUrls));
+            lastAction = finalAction;
+            lastClicked = finalClicked;
+            answeredBy = finalAnswer;
+            await setStatus({ step: { current: step, max: maxSteps, description: `Clicked "${buttonLabel}"` } });
+            break;
+        }
+
+        // Remember the flow for the next visit, unless a built-in rule handles this banner anyway
+        // or one of its frames could not be identified by URL.
+        if (!knownCmp && learnedActions.every(learned => learned !== null)) {
+            await selectorCacheService.saveVerifiedFlow(hostname, fingerprint, consentPolicy, learnedActions as CachedAction[]);
+        }
+
+        // Record which model of the cascade finished the job, so the escalation rate can be tuned.
+        await setStatus({ status: ScanStatus.SUCCESS, result: { source: DetectionSource.AI, cmp: knownCmp?.cmp, changedToggles, retryCount, usage, clicked: lastClicked, ...answeredBy } });
+        await AnalyticsService.trackScanSuccess({ url: tabUrl, selector: lastAction?.target.selector ?? null, banner_html_context: html, ...answeredBy });
     } catch (error) {
         // --- Centralized Error Handling ---
         // This block catches any error from the steps above (HTML fetch, AI analysis, click injection).
@@ -125,14 +1016,21 @@ export async function executeScan(tabId: number, tabUrl: string) {
         } else {
             errorPayload = { code: ErrorCode.GENERIC_ANALYSIS_ERROR, message: "An unknown error occurred during the scan." };
         }
-        
+
         // Update the UI to show the error state.
-        await updateStatus(tabId, { status: ScanStatus.ERROR, error: errorPayload });
+        await setStatus({ status: ScanStatus.ERROR, error: errorPayload });
         // Send an analytics event to track the failure.
-        await AnalyticsService.trackScanError({ 
-            url: tabUrl, 
-            reason: errorPayload.message, 
-            banner_html_context: html ? html.substring(0, 30000) : null 
+        await AnalyticsService.trackScanError({
+            url: tabUrl,
+            reason: errorPayload.message,
+            banner_html_context: html
         });
+    } finally {
+        // Leave the page as it was: the temporary ids are only meaningful during this scan.
+        if (isPageTagged) await clearPageTags(tabId);
+        await recordScanHistory(finalState, tabUrl, trigger, startedAt, appliedPolicy, clickedButtons, fingerprint);
+        await saveFeedbackContext(tabId, finalState, new URL(tabUrl).hostname, appliedPolicy, fingerprint, html);
+        emitScanEvent(tabId, ScanEventKind.FINISHED, describeOutcome(finalState));
+        runningScans.delete(tabId);
     }
-}
\ No newline at end of file
+}
@@ -1,15 +1,24 @@
 
-import { ScanStatus, StatusUpdatePayload, MessageType } from '../types';
-import { STORAGE_KEYS } from '../constants';
+import { ScanStatus, StatusUpdatePayload, MessageType, ScanTrigger } from '../types';
+import { STORAGE_KEYS, BADGE_CONFIG, UI_TEXT } from '../constants';
 import { sendMessage } from '../utils/chromePromise';
 
 // This module is responsible for managing the state of the scanning process for each tab.
-// It acts as the single source of truth for a tab's current status (e.g., IDLE, SCANNING).
+// It acts as the single source of truth for a tab's current status (e.g., IDLE, SCANNING),
+// and mirrors it on the toolbar icon's badge and tooltip, as the popup is usually closed.
 
 // Use a JavaScript Map for in-memory state. This provides a fast, temporary cache
 // for the status of each tab, keyed by the tab's ID.
 export const tabStates = new Map<number, StatusUpdatePayload>();
 
+// The number of automatic scans started in each tab since it last navigated, keyed by tab ID.
+// This limits how often auto mode retries on a page whose banner cannot be handled.
+export const autoScanAttempts = new Map<number, number>();
+
+// The tabs a scan is running in, from its start until it settles. Unlike the tab's status, this
+// survives a navigation, which a consent click often causes while the scan is still verifying it.
+export const runningScans = new Set<number>();
+
 /**
  * Returns a default initial state object for a tab.
  * @param url The URL of the tab.
@@ -20,17 +29,66 @@ export const getInitialState = (url: string = ""): StatusUpdatePayload => ({
     error: undefined
 });
 
+/**
+ * Checks whether a scan is running in a tab, or is about to start (its status is set first).
+ * @param tabId The ID of the tab.
+ */
+export function isScanInProgress(tabId: number): boolean {
+    const status = tabStates.get(tabId)?.status;
+    return runningScans.has(tabId) || status === ScanStatus.SCANNING || status === ScanStatus.ANALYZING;
+}
+
+/**
+ * Builds the toolbar badge and tooltip for a tab's state.
+ * @param state The tab's state.
+ * @returns The badge text (empty to clear it), its background color, and the tooltip.
+ */
+function getBadge(state: StatusUpdatePayload): { text: string; color: string; title: string } {
+    // A banner auto mode handled gets its own mark, so it is clear that nothing was clicked by hand.
+    const isAutoSuccess = state.status === ScanStatus.SUCCESS && state.trigger === ScanTrigger.AUTO;
+    const badge = isAutoSuccess ? BADGE_CONFIG.AUTO_SUCCESS : BADGE_CONFIG.STATUS_BADGES[state.status];
+    const description = state.status === ScanStatus.ERROR
+        ? state.error?.message
+        : isAutoSuccess ? UI_TEXT.SUCCESS_AUTO : UI_TEXT[state.status];
+    return {
+        text: badge?.text ?? '',
+        color: badge?.color ?? '#000000',
+        title: description ? `${BADGE_CONFIG.TITLE}: ${description}` : BADGE_CONFIG.TITLE,
+    };
+}
+
+/**
+ * Shows a tab's state on the toolbar icon. Badges set for a tab only apply while that tab is active.
+ * @param tabId The ID of the tab.
+ * @param state The tab's state.
+ */
+async function updateBadge(tabId: number, state: StatusUpdatePayload) {
+    const { text, color, title } = getBadge(state);
+    try {
+        await Promise.all([
+            chrome.action.setBadgeText({ tabId, text }),
+            chrome.action.setBadgeBackgroundColor({ tabId, color }),
+            chrome.action.setTitle({ tabId, title }),
+        ]);
+    } catch (error) {
+        // The tab may have been closed while its scan was still running.
+        console.warn("Cookie Skipper AI: Could not update the toolbar badge:", error);
+    }
+}
+
 /**
  * Updates the status for a specific tab and notifies any listening UI (like the popup).
  * This is the central function for all state transitions.
  * @param tabId The ID of the tab to update.
  * @param newStatus A partial payload containing the fields to update.
+ * @returns The tab's updated state.
  */
-export const updateStatus = async (tabId: number, newStatus: Partial<StatusUpdatePayload>) => {
+export const updateStatus = async (tabId: number, newStatus: Partial<StatusUpdatePayload>): Promise<StatusUpdatePayload> => {
     // Get the current state or create an initial one if it doesn't exist.
     const currentState = tabStates.get(tabId) || getInitialState();
-    // Merge the current state with the new status updates.
-    const updatedState: StatusUpdatePayload = { ...currentState, ...newStatus };
+    // Merge the current state with the new status updates. The update is broadcast to every
+    // extension page, so it says which tab it is for.
+    const updatedState: StatusUpdatePayload = { ...currentState, ...newStatus, tabId };
     
     // --- Update In-Memory Cache ---
     tabStates.set(tabId, updatedState);
@@ -42,6 +100,9 @@ export const updateStatus = async (tabId: number, newStatus: Partial<StatusUpdat
     const sessionStateKey = `${STORAGE_KEYS.TAB_STATUS_PREFIX}${tabId}`;
     await chrome.storage.session.set({ [sessionStateKey]: updatedState });
 
+    // --- Update the Toolbar Badge ---
+    await updateBadge(tabId, updatedState);
+
     // --- Broadcast the Update ---
     // Send a message with the new state to the popup UI.
     try {
@@ -54,6 +115,7 @@ export const updateStatus = async (tabId: number, newStatus: Partial<StatusUpdat
              console.warn("Cookie Skipper AI: Status update message failed unexpectedly:", error);
         }
     }
+    return updatedState;
 };
 
 /**
@@ -65,16 +127,23 @@ export function initializeTabStateManagement() {
     chrome.tabs.onUpdated.addListener((tabId, changeInfo) => {
         // ...if the page is reloading, clear out the old state for that tab.
         if (changeInfo.status === 'loading') {
+           autoScanAttempts.delete(tabId);
+           // A running scan keeps its state, so the tab stays marked as busy and the popup keeps
+           // showing it. The scan's final status then replaces it.
+           if (runningScans.has(tabId)) return;
            tabStates.delete(tabId);
            chrome.storage.session.remove(`${STORAGE_KEYS.TAB_STATUS_PREFIX}${tabId}`);
+           // The badge belongs to the previous page.
+           updateBadge(tabId, getInitialState());
         }
     });
 
     // When a tab is closed...
     chrome.tabs.onRemoved.addListener((tabId) => {
-        // ...remove its state from both the in-memory map and session storage to free up resources.
+        // ...remove its state (and what its last click was based on) from both the in-memory map and session storage to free up resources.
         tabStates.delete(tabId);
-        chrome.storage.session.remove(`${STORAGE_KEYS.TAB_STATUS_PREFIX}${tabId}`);
+        autoScanAttempts.delete(tabId);
+        chrome.storage.session.remove([`${STORAGE_KEYS.TAB_STATUS_PREFIX}${tabId}`, `${STORAGE_KEYS.SCAN_FEEDBACK_PREFIX}${tabId}`]);
     });
     console.log("Cookie Skipper AI: Tab state management initialized.");
 }
\ No newline at end of file
@@ -0,0 +1,47 @@
+import React from 'react';
+import { ClickedElement, ScanResult, WrongClickResponse } from '../types';
+import { SOURCE_LABELS, UI_TEXT } from '../constants';
+
+interface ClickDetailsProps {
+  // The result of the tab's last scan.
+  result: ScanResult;
+  // The button the scan clicked last.
+  clicked: ClickedElement;
+  // The answer to the user's wrong-click report, or null if the click was not reported.
+  report: WrongClickResponse | null;
+  // Whether the report is being sent.
+  isReporting: boolean;
+  onReportWrong: () => void;
+  onScanAgain: () => void;
+}
+
+/**
+ * A UI component in the popup showing the button a scan clicked: its text, what it does,
+ * its selector, and where it came from. The user can report it as the wrong button, after
+ * which the component offers to scan the page again.
+ */
+export const ClickDetails: React.FC<ClickDetailsProps> = ({ result, clicked, report, isReporting, onReportWrong, onScanAgain }) => {
+  const linkClassName = "text-blue-400 hover:text-blue-300 disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <div className="w-full bg-gray-900/60 rounded-md p-2 space-y-1 text-xs text-left">
+      <p className="text-gray-300">
+        Clicked {clicked.text ? `"${clicked.text}"` : 'a button without text'}
+        <span className="text-gray-400"> · {UI_TEXT.ACTION_TYPES[clicked.actionType]} · {SOURCE_LABELS[result.source]}{result.cmp && ` (${result.cmp})`}</span>
+      </p>
+      <p className="font-mono text-gray-500 truncate" title={clicked.selector ?? undefined}>{clicked.selector ?? UI_TEXT.CLICKED_POINT}</p>
+
+      {report ? (
+        <div className="space-y-1 pt-1">
+          <p className={report.recorded ? 'text-gray-300' : 'text-yellow-400'}>
+            {report.recorded ? UI_TEXT.WRONG_CLICK_THANKS : UI_TEXT.WRONG_CLICK_FAILED}
+          </p>
+          {report.forgotFlow && <p className="text-gray-400">{UI_TEXT.WRONG_CLICK_FORGOT}</p>}
+          <button onClick={onScanAgain} className={linkClassName}>{UI_TEXT.SCAN_AGAIN}</button>
+        </div>
+      ) : (
+        <button onClick={onReportWrong} disabled={isReporting} className={linkClassName}>{UI_TEXT.WRONG_CLICK}</button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,38 @@
+import React, { useEffect, useRef } from 'react';
+import { ScanEvent } from '../types';
+import { UI_TEXT } from '../constants';
+
+interface ScanTimelineProps {
+  // The steps of the scan so far, oldest first.
+  events: ScanEvent[];
+}
+
+/**
+ * A UI component in the popup listing the steps of the current (or last) scan as they
+ * happen, each with the time since the scan started. It keeps the newest step in view.
+ */
+export const ScanTimeline: React.FC<ScanTimelineProps> = ({ events }) => {
+  const listRef = useRef<HTMLOListElement>(null);
+
+  // Scroll to the newest step whenever one arrives.
+  useEffect(() => {
+    if (listRef.current) listRef.current.scrollTop = listRef.current.scrollHeight;
+  }, [events.length]);
+
+  if (events.length === 0) return null;
+  const startedAt = events[0].timestamp;
+
+  return (
+    <ol ref={listRef} className="w-full max-h-32 overflow-y-auto bg-gray-800 rounded-lg p-3 space-y-1 text-xs text-left">
+      {events.map(event => (
+        <li key={event.seq} className="flex space-x-2">
+          <span className="w-10 flex-shrink-0 text-right text-gray-500">+{((event.timestamp - startedAt) / 1000).toFixed(1)}s</span>
+          <span className="text-gray-300">
+            {UI_TEXT.SCAN_EVENTS[event.kind]}
+            {event.detail && <span className="text-gray-400">: {event.detail}</span>}
+          </span>
+        </li>
+      ))}
+    </ol>
+  );
+};
@@ -0,0 +1,38 @@
+
+import React from 'react';
+import { useOptions } from '../../context/OptionsContext';
+import { AUTO_SCAN_CONFIG } from '../../constants';
+
+interface AutoModePanelProps {
+  // The current auto mode status from settings.
+  autoMode: boolean;
+}
+
+/**
+ * A UI component on the options page for turning the automatic scanning mode on or off.
+ * In auto mode, banners are handled as soon as they appear, without opening the popup.
+ */
+export const AutoModePanel: React.FC<AutoModePanelProps> = ({ autoMode }) => {
+  // Get the auto mode change handler from the shared options context.
+  const { handleAutoModeChange } = useOptions();
+
+  return (
+    <div className="bg-gray-700/50 p-4 rounded-lg flex items-center justify-between mb-4">
+      <div>
+        <span className="font-medium text-gray-200">Skip banners automatically</span>
+        <p className="text-xs text-gray-400">Scan each page as soon as a cookie banner appears, up to {AUTO_SCAN_CONFIG.MAX_ATTEMPTS_PER_TAB} times per page.</p>
+      </div>
+      {/* A standard toggle switch for the auto mode option. */}
+      <label htmlFor="auto-mode-toggle" className="relative inline-flex items-center cursor-pointer">
+          <input
+            type="checkbox"
+            id="auto-mode-toggle"
+            className="sr-only peer"
+            checked={autoMode}
+            onChange={(e) => handleAutoModeChange(e.target.checked)}
+          />
+          <div className="w-11 h-6 bg-gray-600 rounded-full peer peer-focus:ring-4 peer-focus:ring-blue-800 peer-checked:after:translate-x-full after:content-[''] after:absolute after:top-0.5 after:left-[2px] after:bg-white after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+      </label>
+    </div>
+  );
+};
@@ -2,28 +2,107 @@
 import React, { useState } from 'react';
 import { CheckCircleIcon, ErrorIcon, SparklesIcon } from '../Icons';
 import { useOptions } from '../../context/OptionsContext';
+import { AiProviderKind, ModelSettings, ProviderConfig } from '../../types';
+import { AI_CONFIG } from '../../constants';
 
 // Enum for the local state of the API key test.
 type TestStatus = 'idle' | 'testing' | 'success' | 'error';
 
 interface ByokTierPanelProps {
   initialApiKey: string;
+  initialProviderConfig: ProviderConfig;
+  initialModelSettings: ModelSettings;
   isDisabled: boolean;
 }
 
+// The providers offered to the user, with the help text shown below the key input.
+const PROVIDER_OPTIONS: { value: AiProviderKind; title: string; keyLabel: string; keyHelp: React.ReactNode }[] = [
+  {
+    value: AiProviderKind.GEMINI,
+    title: 'Google Gemini',
+    keyLabel: 'Google Gemini API Key',
+    keyHelp: <>Get a key from <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline">Google AI Studio</a>.</>,
+  },
+  {
+    value: AiProviderKind.OPENAI_COMPATIBLE,
+    title: 'OpenAI-compatible',
+    keyLabel: 'API Key',
+    keyHelp: 'Sent as a bearer token. Leave it empty if your server does not need one.',
+  },
+  {
+    value: AiProviderKind.OLLAMA,
+    title: 'Ollama (local)',
+    keyLabel: 'API Key',
+    keyHelp: <>Ollama needs no key. Start it with <code>OLLAMA_ORIGINS=chrome-extension://*</code> so it accepts requests from the extension.</>,
+  },
+];
+
+// The allowed range of each generation setting.
+const SETTING_LIMITS: Record<keyof ModelSettings, { min: number; max: number }> = {
+  temperature: { min: 0, max: AI_CONFIG.MAX_TEMPERATURE },
+  thinkingBudget: { min: 0, max: AI_CONFIG.MAX_THINKING_BUDGET },
+  maxInputLength: { min: AI_CONFIG.MIN_INPUT_LENGTH, max: AI_CONFIG.MAX_INPUT_LENGTH },
+};
+
+/**
+ * Keeps every generation setting within its allowed range. The thinking budget and input size are whole numbers.
+ */
+const clampModelSettings = (settings: ModelSettings): ModelSettings => {
+  const clamp = (key: keyof ModelSettings) => Math.min(Math.max(settings[key], SETTING_LIMITS[key].min), SETTING_LIMITS[key].max);
+  return {
+    temperature: clamp('temperature'),
+    thinkingBudget: Math.round(clamp('thinkingBudget')),
+    maxInputLength: Math.round(clamp('maxInputLength')),
+  };
+};
+
 /**
  * A UI component for the "Bring Your Own Key" (BYOK) tier on the options page.
- * It manages the input, testing, and saving of a user-provided Gemini API key.
+ * It manages the choice of AI provider, base URL, model, and generation settings,
+ * and the input, testing, and saving of a user-provided API key.
  */
-export const ByokTierPanel: React.FC<ByokTierPanelProps> = ({ initialApiKey, isDisabled }) => {
+export const ByokTierPanel: React.FC<ByokTierPanelProps> = ({ initialApiKey, initialProviderConfig, initialModelSettings, isDisabled }) => {
   // Get handlers from the shared options context.
-  const { handleSaveKey, handleTestKey } = useOptions();
-  
+  const { handleSaveKey, handleTestKey, handleListModels } = useOptions();
+
   // --- Local State ---
   // This state is managed locally within the component as it's specific to this panel's UI.
   const [apiKey, setApiKey] = useState(initialApiKey);
+  const [config, setConfig] = useState<ProviderConfig>(initialProviderConfig);
+  const [modelSettings, setModelSettings] = useState<ModelSettings>(initialModelSettings);
   const [testStatus, setTestStatus] = useState<TestStatus>('idle');
   const [testMessage, setTestMessage] = useState('');
+  const [models, setModels] = useState<string[]>([]);
+  const [isLoadingModels, setIsLoadingModels] = useState(false);
+
+  const provider = PROVIDER_OPTIONS.find(option => option.value === config.kind) ?? PROVIDER_OPTIONS[0];
+  const defaults = AI_CONFIG.PROVIDER_DEFAULTS[provider.value];
+  // Only Gemini requires a key; the other providers may run without one.
+  const isKeyRequired = config.kind === AiProviderKind.GEMINI;
+
+  /**
+   * Updates the provider settings. The test result and model list no longer apply to the new settings.
+   */
+  const updateConfig = (changes: Partial<ProviderConfig>) => {
+    setConfig(current => ({ ...current, ...changes }));
+    setTestStatus('idle');
+    setTestMessage('');
+    if (changes.kind || changes.baseUrl !== undefined) setModels([]);
+  };
+
+  /**
+   * Updates a generation setting from its input. An empty or invalid input keeps the previous value.
+   * The value is brought within its range when the input loses focus, so typing is not interrupted.
+   */
+  const updateModelSetting = (key: keyof ModelSettings, value: string) => {
+    const parsed = parseFloat(value);
+    if (!Number.isFinite(parsed)) return;
+    setModelSettings(current => ({ ...current, [key]: parsed }));
+    setTestStatus('idle');
+    setTestMessage('');
+  };
+
+  const onModelSettingBlur = () => setModelSettings(clampModelSettings);
 
   /**
    * Handles the "Test Key" button click. It calls the test function from the context
@@ -32,16 +111,28 @@ export const ByokTierPanel: React.FC<ByokTierPanelProps> = ({ initialApiKey, isD
   const onTest = async () => {
     setTestStatus('testing');
     setTestMessage('');
-    const result = await handleTestKey(apiKey);
+    const result = await handleTestKey(apiKey, config, clampModelSettings(modelSettings));
     setTestStatus(result.success ? 'success' : 'error');
     setTestMessage(result.message);
   };
-  
+
+  /**
+   * Handles the "Load models" button click, filling the model suggestions from the provider.
+   */
+  const onLoadModels = async () => {
+    setIsLoadingModels(true);
+    const result = await handleListModels(apiKey, config);
+    setModels(result.models);
+    setTestStatus(result.message ? 'error' : 'idle');
+    setTestMessage(result.message);
+    setIsLoadingModels(false);
+  };
+
   /**
    * Handles the "Save" button click.
    */
   const onSave = () => {
-      handleSaveKey(apiKey);
+      handleSaveKey(apiKey, config, clampModelSettings(modelSettings));
       // Reset the test status after saving.
       setTestStatus('idle');
       setTestMessage('');
@@ -59,37 +150,160 @@ export const ByokTierPanel: React.FC<ByokTierPanelProps> = ({ initialApiKey, isD
     }
   };
 
+  const inputClassName = "px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50";
+
   return (
     <div className="space-y-3">
       <div>
-        <label htmlFor="apiKey" className="block text-sm font-medium text-gray-300">Google Gemini API Key</label>
-        <p className="text-xs text-gray-500 mb-2">Get a key from <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline">Google AI Studio</a>.</p>
+        <label htmlFor="aiProvider" className="block text-sm font-medium text-gray-300 mb-2">AI Provider</label>
+        <select
+          id="aiProvider"
+          value={config.kind}
+          onChange={(e) => updateConfig({ kind: e.target.value as AiProviderKind })}
+          disabled={isDisabled}
+          className={`w-full ${inputClassName}`}
+        >
+          {PROVIDER_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.title}</option>)}
+        </select>
+      </div>
+
+      {/* Gemini is always reached through its SDK, so only the other providers have a base URL. */}
+      {config.kind !== AiProviderKind.GEMINI && (
+        <div>
+          <label htmlFor="baseUrl" className="block text-sm font-medium text-gray-300 mb-2">Base URL</label>
+          <input
+            type="url"
+            id="baseUrl"
+            value={config.baseUrl}
+            onChange={(e) => updateConfig({ baseUrl: e.target.value })}
+            disabled={isDisabled}
+            className={`w-full ${inputClassName}`}
+            placeholder={defaults.baseUrl}
+          />
+        </div>
+      )}
+
+      <div>
+        <label htmlFor="model" className="block text-sm font-medium text-gray-300 mb-2">Model</label>
+        <div className="flex space-x-2">
+          <input
+            type="text"
+            id="model"
+            list="modelOptions"
+            value={config.model}
+            onChange={(e) => updateConfig({ model: e.target.value })}
+            disabled={isDisabled}
+            className={`flex-grow ${inputClassName}`}
+            placeholder={defaults.model}
+          />
+          <datalist id="modelOptions">
+            {models.map(model => <option key={model} value={model} />)}
+          </datalist>
+          <button
+            onClick={onLoadModels}
+            disabled={isDisabled || isLoadingModels || (isKeyRequired && !apiKey)}
+            className="py-2 px-4 rounded-md text-sm font-medium text-white bg-gray-600 hover:bg-gray-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-gray-500 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isLoadingModels ? 'Loading...' : 'Load models'}
+          </button>
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="escalationModel" className="block text-sm font-medium text-gray-300">Escalation model</label>
+        <p className="text-xs text-gray-500 mb-2">A stronger model, asked once with more of the page when the model above cannot handle a banner.</p>
+        <input
+          type="text"
+          id="escalationModel"
+          list="modelOptions"
+          value={config.escalationModel}
+          onChange={(e) => updateConfig({ escalationModel: e.target.value })}
+          disabled={isDisabled}
+          className={`w-full ${inputClassName}`}
+          placeholder={defaults.escalationModel || 'Same as the model above'}
+        />
+      </div>
+
+      {/* Generation settings. The defaults suit most models; the thinking budget only applies to Gemini. */}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+        <div>
+          <label htmlFor="temperature" className="block text-sm font-medium text-gray-300 mb-2">Temperature</label>
+          <input
+            type="number"
+            id="temperature"
+            min={SETTING_LIMITS.temperature.min}
+            max={SETTING_LIMITS.temperature.max}
+            step={0.1}
+            value={modelSettings.temperature}
+            onChange={(e) => updateModelSetting('temperature', e.target.value)}
+            onBlur={onModelSettingBlur}
+            disabled={isDisabled}
+            className={`w-full ${inputClassName}`}
+          />
+        </div>
+        {config.kind === AiProviderKind.GEMINI && (
+          <div>
+            <label htmlFor="thinkingBudget" className="block text-sm font-medium text-gray-300 mb-2">Thinking budget (tokens)</label>
+            <input
+              type="number"
+              id="thinkingBudget"
+              min={SETTING_LIMITS.thinkingBudget.min}
+              max={SETTING_LIMITS.thinkingBudget.max}
+              step={128}
+              value={modelSettings.thinkingBudget}
+              onChange={(e) => updateModelSetting('thinkingBudget', e.target.value)}
+              onBlur={onModelSettingBlur}
+              disabled={isDisabled}
+              className={`w-full ${inputClassName}`}
+            />
+          </div>
+        )}
+        <div>
+          <label htmlFor="maxInputLength" className="block text-sm font-medium text-gray-300 mb-2">Max input (characters)</label>
+          <input
+            type="number"
+            id="maxInputLength"
+            min={SETTING_LIMITS.maxInputLength.min}
+            max={SETTING_LIMITS.maxInputLength.max}
+            step={1000}
+            value={modelSettings.maxInputLength}
+            onChange={(e) => updateModelSetting('maxInputLength', e.target.value)}
+            onBlur={onModelSettingBlur}
+            disabled={isDisabled}
+            className={`w-full ${inputClassName}`}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="apiKey" className="block text-sm font-medium text-gray-300">{provider.keyLabel}{!isKeyRequired && ' (optional)'}</label>
+        <p className="text-xs text-gray-500 mb-2">{provider.keyHelp}</p>
         <div className="flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-2">
-          <input 
-            type="password" 
-            id="apiKey" 
-            value={apiKey} 
+          <input
+            type="password"
+            id="apiKey"
+            value={apiKey}
             onChange={(e) => {
                 setApiKey(e.target.value);
                 // Reset test status whenever the user types, as the current result is no longer valid.
-                setTestStatus('idle'); 
-            }} 
-            disabled={isDisabled} 
-            className="flex-grow px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50" 
-            placeholder="Enter your API key" 
+                setTestStatus('idle');
+            }}
+            disabled={isDisabled}
+            className={`flex-grow ${inputClassName}`}
+            placeholder="Enter your API key"
           />
           <div className="flex space-x-2">
-            <button 
-              onClick={onTest} 
-              disabled={isDisabled || !apiKey || testStatus === 'testing'} 
+            <button
+              onClick={onTest}
+              disabled={isDisabled || (isKeyRequired && !apiKey) || testStatus === 'testing'}
               className="flex-grow flex items-center justify-center space-x-1.5 py-2 px-4 rounded-md text-sm font-medium text-white bg-gray-600 hover:bg-gray-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-gray-500 disabled:opacity-50 disabled:cursor-not-allowed"
             >
               <TestStatusIcon />
-              <span>{testStatus === 'testing' ? 'Testing...' : 'Test Key'}</span>
+              <span>{testStatus === 'testing' ? 'Testing...' : isKeyRequired ? 'Test Key' : 'Test'}</span>
             </button>
-            <button 
-              onClick={onSave} 
-              disabled={isDisabled || !apiKey} 
+            <button
+              onClick={onSave}
+              disabled={isDisabled || (isKeyRequired && !apiKey)}
               className="flex-grow py-2 px-4 rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
             >
               Save
@@ -99,10 +313,10 @@ export const ByokTierPanel: React.FC<ByokTierPanelProps> = ({ initialApiKey, isD
       </div>
       {/* Display the success or error message from the key test. */}
       {testMessage && (
-        <p className={`text-xs text-center sm:text-left h-4 ${testStatus === 'success' ? 'text-green-400' : 'text-red-400'}`}>
+        <p className={`text-xs text-center sm:text-left ${testStatus === 'success' ? 'text-green-400' : 'text-red-400'}`}>
           {testMessage}
         </p>
       )}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,55 @@
+
+import React from 'react';
+import { ConsentPolicy, PurposePreferences } from '../../types';
+import { useOptions } from '../../context/OptionsContext';
+import { PurposePreferencesPanel } from './PurposePreferencesPanel';
+
+interface ConsentPolicyPanelProps {
+  // The currently selected consent policy from settings.
+  policy: ConsentPolicy;
+  // The per-purpose choices, shown when the custom policy is selected.
+  purposePreferences: PurposePreferences;
+}
+
+// The choices offered to the user, in the order they are displayed.
+export const POLICY_OPTIONS: { value: ConsentPolicy; title: string; description: string }[] = [
+  { value: ConsentPolicy.ACCEPT_ALL, title: 'Accept all', description: 'Click "Accept all" (or the closest equivalent) on every banner.' },
+  { value: ConsentPolicy.REJECT_ALL, title: 'Reject all / Necessary only', description: 'Refuse all optional cookies. Banners without a reject option are left untouched.' },
+  { value: ConsentPolicy.DISMISS, title: 'Dismiss without choosing', description: 'Close the banner (e.g., with its "X" button) without making a choice.' },
+  { value: ConsentPolicy.CUSTOM, title: 'Custom per purpose', description: 'Open the preference center and allow or refuse each purpose individually.' },
+];
+
+/**
+ * A UI component on the options page for choosing which button the extension
+ * clicks on cookie banners (accept, reject, dismiss, or custom per purpose).
+ */
+export const ConsentPolicyPanel: React.FC<ConsentPolicyPanelProps> = ({ policy, purposePreferences }) => {
+  // Get the policy change handler from the shared options context.
+  const { handleConsentPolicyChange } = useOptions();
+
+  return (
+    <div className="space-y-2">
+      {POLICY_OPTIONS.map(option => (
+        <label
+          key={option.value}
+          className={`flex items-start p-3 rounded-lg border cursor-pointer transition-colors ${policy === option.value ? 'border-blue-500 bg-blue-900/30' : 'border-gray-700 bg-gray-800/50 hover:border-gray-600'}`}
+        >
+          <input
+            type="radio"
+            name="consentPolicy"
+            value={option.value}
+            checked={policy === option.value}
+            onChange={() => handleConsentPolicyChange(option.value)}
+            className="mt-1 h-4 w-4 text-blue-600 bg-gray-700 border-gray-600 focus:ring-blue-500"
+          />
+          <span className="ml-3">
+            <span className="block text-sm font-medium text-gray-100">{option.title}</span>
+            <span className="block text-xs text-gray-400">{option.description}</span>
+          </span>
+        </label>
+      ))}
+      {/* The per-purpose choices only apply to the custom policy. */}
+      {policy === ConsentPolicy.CUSTOM && <PurposePreferencesPanel preferences={purposePreferences} />}
+    </div>
+  );
+};
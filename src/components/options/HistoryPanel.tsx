@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import { DetectionSource, ScanHistoryEntry, ScanStatus } from '../../types';
+import { useOptions } from '../../context/OptionsContext';
+import { toCsv } from '../../services/historyService';
+import { HISTORY_CONFIG, SOURCE_LABELS } from '../../constants';
+
+interface HistoryPanelProps {
+  // The finished scans, newest first, or null while they are loading.
+  history: ScanHistoryEntry[] | null;
+  // For how many days the history is kept.
+  retentionDays: number;
+}
+
+// The outcomes a scan can end with, with the label shown in the table and the filter.
+const OUTCOME_LABELS: Partial<Record<ScanStatus, string>> = {
+  [ScanStatus.SUCCESS]: 'Handled',
+  [ScanStatus.BANNER_PERSISTED]: 'Banner persisted',
+  [ScanStatus.LOW_CONFIDENCE]: 'Not confident',
+  [ScanStatus.NOT_FOUND]: 'No banner',
+  [ScanStatus.SKIPPED]: 'Skipped by site rule',
+  [ScanStatus.ERROR]: 'Error',
+};
+
+const OUTCOME_CLASSES: Partial<Record<ScanStatus, string>> = {
+  [ScanStatus.SUCCESS]: 'text-green-400',
+  [ScanStatus.BANNER_PERSISTED]: 'text-yellow-400',
+  [ScanStatus.LOW_CONFIDENCE]: 'text-yellow-400',
+  [ScanStatus.ERROR]: 'text-red-400',
+};
+
+/**
+ * Offers text as a file download, without a round trip through the background.
+ */
+function downloadFile(content: string, mimeType: string, fileName: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * A UI component on the options page listing what the extension did on which site.
+ * The list can be filtered by site, outcome, and source, and the matching entries
+ * exported as JSON or CSV. The retention period can be changed and the history cleared.
+ */
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, retentionDays }) => {
+  const { handleHistoryRetentionChange, handleClearHistory } = useOptions();
+  const [search, setSearch] = useState('');
+  const [outcome, setOutcome] = useState<ScanStatus | ''>('');
+  const [source, setSource] = useState<DetectionSource | ''>('');
+
+  const query = search.trim().toLowerCase();
+  const matchingEntries = (history ?? []).filter(entry =>
+    (!query || entry.hostname.includes(query)) &&
+    (!outcome || entry.outcome === outcome) &&
+    (!source || entry.source === source)
+  );
+  const visibleEntries = matchingEntries.slice(0, HISTORY_CONFIG.MAX_DISPLAYED_ENTRIES);
+
+  /**
+   * Downloads the entries matching the filters, named after today's date.
+   */
+  const handleExport = (format: 'json' | 'csv') => {
+    const fileName = `cookie-skipper-history-${new Date().toISOString().slice(0, 10)}.${format}`;
+    if (format === 'json') {
+      downloadFile(JSON.stringify(matchingEntries, null, 2), 'application/json', fileName);
+    } else {
+      downloadFile(toCsv(matchingEntries), 'text/csv', fileName);
+    }
+  };
+
+  const selectClassName = "bg-gray-800 border border-gray-600 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+  const buttonClassName = "px-3 py-1 bg-gray-600 hover:bg-gray-500 rounded-md text-sm disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <div className="bg-gray-700/50 p-4 rounded-lg space-y-3">
+      <p className="text-xs text-gray-400">
+        Every scan is recorded on this device only; the history is never sent anywhere.
+      </p>
+
+      {/* The filters. */}
+      <div className="flex items-center space-x-2">
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search sites..."
+          className="flex-grow bg-gray-800 border border-gray-600 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <select value={outcome} onChange={(e) => setOutcome(e.target.value as ScanStatus | '')} className={selectClassName}>
+          <option value="">All outcomes</option>
+          {Object.entries(OUTCOME_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+        </select>
+        <select value={source} onChange={(e) => setSource(e.target.value as DetectionSource | '')} className={selectClassName}>
+          <option value="">All sources</option>
+          {Object.entries(SOURCE_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+        </select>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs uppercase tracking-wide text-gray-400 border-b border-gray-700">
+            <th className="py-2 pr-2 font-medium">Time</th>
+            <th className="py-2 pr-2 font-medium">Site</th>
+            <th className="py-2 pr-2 font-medium">Outcome</th>
+            <th className="py-2 pr-2 font-medium">Source</th>
+            <th className="py-2 pr-2 font-medium">Clicked</th>
+            <th className="py-2 text-right font-medium">Time taken</th>
+          </tr>
+        </thead>
+        <tbody>
+          {visibleEntries.map(entry => (
+            <tr key={entry.id} className="border-b border-gray-700 align-top">
+              <td className="py-2 pr-2 whitespace-nowrap text-gray-400">{new Date(entry.timestamp).toLocaleString()}</td>
+              <td className="py-2 pr-2 break-all">{entry.hostname}</td>
+              <td className={`py-2 pr-2 ${OUTCOME_CLASSES[entry.outcome] ?? 'text-gray-300'}`} title={entry.errorCode ?? undefined}>
+                {OUTCOME_LABELS[entry.outcome] ?? entry.outcome}
+              </td>
+              <td className="py-2 pr-2 text-gray-300">
+                {entry.source ? SOURCE_LABELS[entry.source] : '–'}{entry.cmp && ` (${entry.cmp})`}
+              </td>
+              <td className="py-2 pr-2 text-gray-300">{entry.clickedButtons.length ? entry.clickedButtons.join(' → ') : '–'}</td>
+              <td className="py-2 text-right whitespace-nowrap text-gray-400">{(entry.latencyMs / 1000).toFixed(1)} s</td>
+            </tr>
+          ))}
+          {history === null && (
+            <tr><td colSpan={6} className="py-2 text-gray-400">Loading history...</td></tr>
+          )}
+          {history?.length === 0 && (
+            <tr><td colSpan={6} className="py-2 text-gray-400">No scans yet.</td></tr>
+          )}
+          {!!history?.length && matchingEntries.length === 0 && (
+            <tr><td colSpan={6} className="py-2 text-gray-400">No scans match your filters.</td></tr>
+          )}
+        </tbody>
+      </table>
+
+      {matchingEntries.length > visibleEntries.length && (
+        <p className="text-xs text-gray-400">
+          Showing the latest {visibleEntries.length} of {matchingEntries.length} matching scans. Exports include all of them.
+        </p>
+      )}
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <button onClick={() => handleExport('json')} disabled={matchingEntries.length === 0} className={buttonClassName}>Export JSON</button>
+          <button onClick={() => handleExport('csv')} disabled={matchingEntries.length === 0} className={buttonClassName}>Export CSV</button>
+        </div>
+        <div className="flex items-center space-x-2">
+          <label htmlFor="historyRetention" className="text-sm text-gray-300">Keep for</label>
+          <select
+            id="historyRetention"
+            value={retentionDays}
+            onChange={(e) => handleHistoryRetentionChange(Number(e.target.value))}
+            className={selectClassName}
+          >
+            {HISTORY_CONFIG.RETENTION_OPTIONS_DAYS.map(days => <option key={days} value={days}>{days} days</option>)}
+          </select>
+          <button
+            onClick={() => window.confirm('Delete the whole scan history?') && handleClearHistory()}
+            disabled={!history?.length}
+            className="text-sm text-red-400 hover:text-red-300 px-2 py-1 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Clear history
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
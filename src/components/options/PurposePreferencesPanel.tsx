@@ -0,0 +1,52 @@
+
+import React from 'react';
+import { ConsentPurpose, PurposePreferences } from '../../types';
+import { useOptions } from '../../context/OptionsContext';
+
+interface PurposePreferencesPanelProps {
+  // The current choice for each purpose from settings.
+  preferences: PurposePreferences;
+}
+
+// The purposes offered to the user, in the order they are displayed.
+const PURPOSE_OPTIONS: { purpose: ConsentPurpose; title: string; description: string }[] = [
+  { purpose: ConsentPurpose.FUNCTIONAL, title: 'Functional', description: 'Remembers preferences such as language, and enables features like chat widgets.' },
+  { purpose: ConsentPurpose.ANALYTICS, title: 'Analytics', description: 'Measures how visitors use the site.' },
+  { purpose: ConsentPurpose.ADVERTISING, title: 'Advertising', description: 'Targets and measures ads, often across sites.' },
+  { purpose: ConsentPurpose.PERSONALIZATION, title: 'Personalization', description: 'Personalizes content and recommendations.' },
+  { purpose: ConsentPurpose.SOCIAL_MEDIA, title: 'Social media', description: 'Enables social media embeds and sharing buttons.' },
+];
+
+/**
+ * A UI component on the options page for choosing, per consent purpose, whether the
+ * extension allows or refuses it in a banner's preference center (the "custom" policy).
+ */
+export const PurposePreferencesPanel: React.FC<PurposePreferencesPanelProps> = ({ preferences }) => {
+  // Get the preference change handler from the shared options context.
+  const { handlePurposePreferenceChange } = useOptions();
+
+  return (
+    <div className="bg-gray-700/50 p-4 rounded-lg space-y-3">
+      <p className="text-xs text-gray-400">Strictly necessary cookies are always allowed, as sites cannot work without them.</p>
+      {PURPOSE_OPTIONS.map(option => (
+        <div key={option.purpose} className="flex items-center justify-between">
+          <div>
+            <span className="text-sm font-medium text-gray-200">{option.title}</span>
+            <p className="text-xs text-gray-400">{option.description}</p>
+          </div>
+          {/* A standard toggle switch for each purpose. */}
+          <label htmlFor={`purpose-${option.purpose}`} className="relative inline-flex items-center cursor-pointer">
+            <input
+              type="checkbox"
+              id={`purpose-${option.purpose}`}
+              className="sr-only peer"
+              checked={preferences[option.purpose]}
+              onChange={(e) => handlePurposePreferenceChange(option.purpose, e.target.checked)}
+            />
+            <div className="w-11 h-6 bg-gray-600 rounded-full peer peer-focus:ring-4 peer-focus:ring-blue-800 peer-checked:after:translate-x-full after:content-[''] after:absolute after:top-0.5 after:left-[2px] after:bg-white after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+          </label>
+        </div>
+      ))}
+    </div>
+  );
+};
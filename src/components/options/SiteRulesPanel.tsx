@@ -0,0 +1,169 @@
+
+import React, { useState } from 'react';
+import { ConsentPolicy, SiteRule, SiteRuleMode } from '../../types';
+import { useOptions } from '../../context/OptionsContext';
+import { normalizeHostPattern } from '../../utils/siteRules';
+import { POLICY_OPTIONS } from './ConsentPolicyPanel';
+
+interface SiteRulesPanelProps {
+  // The user's current site rules from settings.
+  rules: SiteRule[];
+}
+
+// The rule modes offered to the user, in the order they are displayed.
+const MODE_OPTIONS: { value: SiteRuleMode; title: string }[] = [
+  { value: SiteRuleMode.NEVER, title: 'Never run' },
+  { value: SiteRuleMode.ALWAYS_AUTO, title: 'Always run automatically' },
+  { value: SiteRuleMode.POLICY, title: 'Use a specific policy' },
+];
+
+const INVALID_PATTERN_MESSAGE = 'Enter a hostname such as "example.com" or "*.example.com".';
+
+/**
+ * A UI component on the options page for managing per-site rules: never running on a site,
+ * always running automatically on it, or making a different choice on its banners.
+ * Rules can be searched, edited in place, and removed.
+ */
+export const SiteRulesPanel: React.FC<SiteRulesPanelProps> = ({ rules }) => {
+  // Get the rules change handler from the shared options context.
+  const { handleSiteRulesChange } = useOptions();
+  const [search, setSearch] = useState('');
+  const [newPattern, setNewPattern] = useState('');
+  const [newMode, setNewMode] = useState<SiteRuleMode>(SiteRuleMode.NEVER);
+  const [error, setError] = useState('');
+
+  /**
+   * Replaces the rule at an index with an updated copy. The policy is only kept for the POLICY mode.
+   */
+  const updateRule = (index: number, changes: Partial<SiteRule>) => {
+    const updated = { ...rules[index], ...changes };
+    if (updated.mode !== SiteRuleMode.POLICY) delete updated.policy;
+    else if (!updated.policy) updated.policy = ConsentPolicy.REJECT_ALL;
+    handleSiteRulesChange(rules.map((rule, i) => i === index ? updated : rule));
+  };
+
+  /**
+   * Validates an edited pattern when its input loses focus. Invalid or duplicate patterns are reverted.
+   */
+  const handlePatternBlur = (index: number, input: HTMLInputElement) => {
+    const pattern = normalizeHostPattern(input.value);
+    if (!pattern || rules.some((rule, i) => i !== index && rule.pattern === pattern)) {
+      setError(pattern ? `A rule for "${pattern}" already exists.` : INVALID_PATTERN_MESSAGE);
+      input.value = rules[index].pattern;
+      return;
+    }
+    setError('');
+    input.value = pattern;
+    if (pattern !== rules[index].pattern) updateRule(index, { pattern });
+  };
+
+  /**
+   * Adds a new rule from the form at the bottom of the table.
+   */
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const pattern = normalizeHostPattern(newPattern);
+    if (!pattern) {
+      setError(INVALID_PATTERN_MESSAGE);
+      return;
+    }
+    if (rules.some(rule => rule.pattern === pattern)) {
+      setError(`A rule for "${pattern}" already exists.`);
+      return;
+    }
+    const rule: SiteRule = newMode === SiteRuleMode.POLICY
+      ? { pattern, mode: newMode, policy: ConsentPolicy.REJECT_ALL }
+      : { pattern, mode: newMode };
+    setError('');
+    setNewPattern('');
+    handleSiteRulesChange([...rules, rule]);
+  };
+
+  // Keep the original index of each rule, as edits and deletions are applied to the full list.
+  const query = search.trim().toLowerCase();
+  const visibleRules = rules
+    .map((rule, index) => ({ rule, index }))
+    .filter(({ rule }) => !query || rule.pattern.includes(query));
+
+  const selectClassName = "bg-gray-800 border border-gray-600 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <div className="bg-gray-700/50 p-4 rounded-lg space-y-3">
+      <p className="text-xs text-gray-400">
+        Rules take precedence over the settings above. "*.example.com" also matches example.com and all of its subdomains; an exact hostname beats a wildcard.
+      </p>
+
+      {rules.length > 0 && (
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search sites..."
+          className="w-full bg-gray-800 border border-gray-600 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      )}
+
+      <table className="w-full text-sm">
+        <tbody>
+          {visibleRules.map(({ rule, index }) => (
+            // The key includes the pattern so the uncontrolled input is reset when a rule is replaced.
+            <tr key={`${index}-${rule.pattern}`} className="border-b border-gray-700">
+              <td className="py-2 pr-2">
+                <input
+                  type="text"
+                  defaultValue={rule.pattern}
+                  onBlur={(e) => handlePatternBlur(index, e.target)}
+                  className="w-full bg-transparent border border-transparent hover:border-gray-600 focus:border-gray-600 rounded-md px-2 py-1 focus:outline-none"
+                />
+              </td>
+              <td className="py-2 pr-2">
+                <select value={rule.mode} onChange={(e) => updateRule(index, { mode: e.target.value as SiteRuleMode })} className={selectClassName}>
+                  {MODE_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.title}</option>)}
+                </select>
+              </td>
+              <td className="py-2 pr-2">
+                {/* The policy only applies to the POLICY mode. */}
+                {rule.mode === SiteRuleMode.POLICY && (
+                  <select value={rule.policy} onChange={(e) => updateRule(index, { policy: e.target.value as ConsentPolicy })} className={selectClassName}>
+                    {POLICY_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.title}</option>)}
+                  </select>
+                )}
+              </td>
+              <td className="py-2 text-right">
+                <button
+                  onClick={() => handleSiteRulesChange(rules.filter((_, i) => i !== index))}
+                  className="text-xs text-red-400 hover:text-red-300 px-2 py-1"
+                >
+                  Remove
+                </button>
+              </td>
+            </tr>
+          ))}
+          {rules.length === 0 && (
+            <tr><td className="py-2 text-gray-400">No site rules yet.</td></tr>
+          )}
+          {rules.length > 0 && visibleRules.length === 0 && (
+            <tr><td className="py-2 text-gray-400">No rules match your search.</td></tr>
+          )}
+        </tbody>
+      </table>
+
+      {/* The form for adding a new rule. */}
+      <form onSubmit={handleAdd} className="flex items-center space-x-2">
+        <input
+          type="text"
+          value={newPattern}
+          onChange={(e) => setNewPattern(e.target.value)}
+          placeholder="example.com or *.example.com"
+          className="flex-grow bg-gray-800 border border-gray-600 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <select value={newMode} onChange={(e) => setNewMode(e.target.value as SiteRuleMode)} className={selectClassName}>
+          {MODE_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.title}</option>)}
+        </select>
+        <button type="submit" className="px-4 py-2 bg-blue-600 hover:bg-blue-500 rounded-md text-sm font-semibold">Add</button>
+      </form>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
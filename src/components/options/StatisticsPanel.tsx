@@ -0,0 +1,125 @@
+import React, { useMemo } from 'react';
+import { RankedCount, ScanHistoryEntry } from '../../types';
+import { computeStatistics } from '../../services/statisticsService';
+import { SOURCE_LABELS } from '../../constants';
+
+interface StatisticsPanelProps {
+  // The finished scans the statistics are computed from, or null while they are loading.
+  history: ScanHistoryEntry[] | null;
+  // For how many days the history is kept, which limits the period the statistics cover.
+  retentionDays: number;
+}
+
+/**
+ * Formats a duration in milliseconds as seconds.
+ */
+function formatSeconds(milliseconds: number): string {
+  return `${(milliseconds / 1000).toFixed(1)} s`;
+}
+
+/**
+ * A UI component on the options page summarizing the scan history: banners handled per day,
+ * how often the buttons from each detection source worked, the most frequent sites and
+ * consent platforms, the average scan time, and the clicks the user was spared.
+ * Everything is computed on this device from the local history.
+ */
+export const StatisticsPanel: React.FC<StatisticsPanelProps> = ({ history, retentionDays }) => {
+  const statistics = useMemo(() => computeStatistics(history ?? []), [history]);
+  const busiestDay = Math.max(1, ...statistics.perDay.map(day => day.scans));
+
+  if (history === null) {
+    return <p className="text-gray-400">Loading statistics...</p>;
+  }
+
+  const renderCard = (title: string, value: string, detail: string) => (
+    <div className="bg-gray-800/60 p-3 rounded-md">
+      <p className="text-xs uppercase tracking-wide text-gray-400">{title}</p>
+      <p className="text-lg font-semibold text-gray-100">{value}</p>
+      <p className="text-xs text-gray-400">{detail}</p>
+    </div>
+  );
+
+  const renderRanking = (title: string, ranking: RankedCount[], emptyText: string) => (
+    <div className="bg-gray-800/60 p-3 rounded-md">
+      <p className="text-xs uppercase tracking-wide text-gray-400 mb-2">{title}</p>
+      {ranking.length === 0 && <p className="text-sm text-gray-400">{emptyText}</p>}
+      <ol className="space-y-1 text-sm">
+        {ranking.map(({ name, count }) => (
+          <li key={name} className="flex justify-between">
+            <span className="truncate pr-2">{name}</span>
+            <span className="text-gray-400">{count}</span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+
+  return (
+    <div className="bg-gray-700/50 p-4 rounded-lg space-y-4">
+      <p className="text-xs text-gray-400">
+        Computed on this device from the last {retentionDays} days of scan history. Nothing is sent anywhere.
+      </p>
+
+      <div className="grid grid-cols-3 gap-4">
+        {renderCard('Banners handled', String(statistics.handled), `of ${statistics.totalScans} scans`)}
+        {renderCard('Average scan time', statistics.averageLatencyMs === null ? '–' : formatSeconds(statistics.averageLatencyMs), 'from start to verified click')}
+        {renderCard('Clicks saved', `~${statistics.clicksSaved}`, 'one per button the extension clicked for you')}
+      </div>
+
+      {/* Banners handled per day, with all scans of the day as the lighter bar behind. */}
+      <div className="bg-gray-800/60 p-3 rounded-md">
+        <p className="text-xs uppercase tracking-wide text-gray-400 mb-2">Banners handled per day</p>
+        <div className="flex items-end h-24 space-x-1">
+          {statistics.perDay.map(day => (
+            <div
+              key={day.day}
+              className="flex-1 h-full flex flex-col justify-end"
+              title={`${day.day}: ${day.handled} handled of ${day.scans} scans`}
+            >
+              <div className="bg-gray-600 rounded-t-sm flex flex-col justify-end" style={{ height: `${(day.scans / busiestDay) * 100}%` }}>
+                <div className="bg-green-500 rounded-t-sm" style={{ height: day.scans ? `${(day.handled / day.scans) * 100}%` : 0 }} />
+              </div>
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-between text-xs text-gray-400 mt-1">
+          <span>{statistics.perDay[0]?.day}</span>
+          <span>{statistics.perDay[statistics.perDay.length - 1]?.day}</span>
+        </div>
+      </div>
+
+      <div className="bg-gray-800/60 p-3 rounded-md">
+        <p className="text-xs uppercase tracking-wide text-gray-400 mb-2">Success rate by source</p>
+        {statistics.bySource.length === 0 ? (
+          <p className="text-sm text-gray-400">No button has been clicked yet.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-400">
+                <th className="pb-1 font-medium">Source</th>
+                <th className="pb-1 text-right font-medium">Attempts</th>
+                <th className="pb-1 text-right font-medium">Banner closed</th>
+                <th className="pb-1 text-right font-medium">Average time</th>
+              </tr>
+            </thead>
+            <tbody>
+              {statistics.bySource.map(source => (
+                <tr key={source.source}>
+                  <td className="py-1">{SOURCE_LABELS[source.source]}</td>
+                  <td className="py-1 text-right text-gray-300">{source.attempts}</td>
+                  <td className="py-1 text-right text-gray-300">{Math.round((source.successes / source.attempts) * 100)}%</td>
+                  <td className="py-1 text-right text-gray-400">{formatSeconds(source.averageLatencyMs)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        {renderRanking('Top sites', statistics.topDomains, 'No banners handled yet.')}
+        {renderRanking('Top consent platforms', statistics.topCmps, 'No known platform recognized yet.')}
+      </div>
+    </div>
+  );
+};
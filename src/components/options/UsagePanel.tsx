@@ -0,0 +1,98 @@
+import React, { useEffect, useState } from 'react';
+import { useOptions } from '../../context/OptionsContext';
+import { UsageSummary, UsageTotals } from '../../types';
+import { getModelPrice } from '../../services/usageService';
+
+interface UsagePanelProps {
+  // The AI usage of today and this month, or null while it is loading.
+  usage: UsageSummary | null;
+  // The monthly spending cap in US dollars, or null for no cap.
+  monthlyBudgetUsd: number | null;
+  // The model the user chose, whose price is shown.
+  model: string;
+}
+
+/**
+ * Formats an estimated cost, with more precision for the small amounts single scans cost.
+ */
+function formatCost(costUsd: number): string {
+  return `$${costUsd.toFixed(costUsd > 0 && costUsd < 1 ? 4 : 2)}`;
+}
+
+/**
+ * A UI component on the options page showing BYOK users how many tokens their scans used,
+ * what they cost, and letting them set a monthly budget after which the AI is no longer asked.
+ */
+export const UsagePanel: React.FC<UsagePanelProps> = ({ usage, monthlyBudgetUsd, model }) => {
+  const { handleMonthlyBudgetChange } = useOptions();
+  // The budget as typed, saved only when the user leaves the input.
+  const [budgetInput, setBudgetInput] = useState(monthlyBudgetUsd === null ? '' : String(monthlyBudgetUsd));
+
+  // Keep the input in sync when the saved budget changes.
+  useEffect(() => {
+    setBudgetInput(monthlyBudgetUsd === null ? '' : String(monthlyBudgetUsd));
+  }, [monthlyBudgetUsd]);
+
+  const price = getModelPrice(model);
+  const monthCost = usage?.month.estimatedCostUsd ?? 0;
+  const budgetReached = monthlyBudgetUsd !== null && monthCost >= monthlyBudgetUsd;
+
+  /**
+   * Saves the typed budget. An empty input removes the cap; an invalid one restores the saved value.
+   */
+  const saveBudget = () => {
+    const trimmed = budgetInput.trim();
+    const budget = trimmed === '' ? null : Number(trimmed);
+    if (budget !== null && (!Number.isFinite(budget) || budget < 0)) {
+      setBudgetInput(monthlyBudgetUsd === null ? '' : String(monthlyBudgetUsd));
+      return;
+    }
+    if (budget !== monthlyBudgetUsd) handleMonthlyBudgetChange(budget);
+  };
+
+  const renderTotals = (title: string, totals: UsageTotals | undefined) => (
+    <div className="bg-gray-800/60 p-3 rounded-md">
+      <p className="text-xs uppercase tracking-wide text-gray-400">{title}</p>
+      <p className="text-lg font-semibold text-gray-100">{formatCost(totals?.estimatedCostUsd ?? 0)}</p>
+      <p className="text-xs text-gray-400">
+        {totals?.calls ?? 0} calls · {(totals?.promptTokens ?? 0).toLocaleString()} input / {(totals?.outputTokens ?? 0).toLocaleString()} output tokens
+      </p>
+    </div>
+  );
+
+  return (
+    <div className="bg-gray-700/50 p-4 rounded-lg mb-4 space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        {renderTotals('Today', usage?.today)}
+        {renderTotals('This month', usage?.month)}
+      </div>
+
+      <p className="text-xs text-gray-400">
+        {price
+          ? `${model} costs about $${price.input} per million input tokens and $${price.output} per million output tokens.`
+          : `No list price is known for ${model || 'this model'}, so its calls are counted as free.`}
+        {' '}Costs are estimates from list prices; your provider's bill is authoritative.
+      </p>
+
+      <div>
+        <label htmlFor="monthlyBudget" className="block text-sm font-medium text-gray-300 mb-2">Monthly budget (USD, optional)</label>
+        <input
+          type="number"
+          id="monthlyBudget"
+          min={0}
+          step={0.5}
+          placeholder="No limit"
+          value={budgetInput}
+          onChange={(e) => setBudgetInput(e.target.value)}
+          onBlur={saveBudget}
+          className="w-40 px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <p className={`text-xs mt-1 ${budgetReached ? 'text-yellow-400' : 'text-gray-400'}`}>
+          {budgetReached
+            ? 'The budget is used up. Until next month, only built-in rules and learned sites are handled.'
+            : 'Once this month\'s estimated cost reaches the budget, the AI is no longer asked.'}
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,37 @@
+import React from 'react';
+import { useOptions } from '../../context/OptionsContext';
+
+interface VisualAnalysisPanelProps {
+  // The current visual analysis setting.
+  visualAnalysis: boolean;
+}
+
+/**
+ * A UI component on the options page for turning the screenshot fallback on or off.
+ * When the page's HTML shows no banner but an overlay blocks the page, a screenshot of the
+ * tab is sent to the AI instead. This is off by default, as a screenshot shows the whole visible page.
+ */
+export const VisualAnalysisPanel: React.FC<VisualAnalysisPanelProps> = ({ visualAnalysis }) => {
+  // Get the visual analysis change handler from the shared options context.
+  const { handleVisualAnalysisChange } = useOptions();
+
+  return (
+    <div className="bg-gray-700/50 p-4 rounded-lg flex items-center justify-between mb-4">
+      <div>
+        <span className="font-medium text-gray-200">Analyze a screenshot as a last resort</span>
+        <p className="text-xs text-gray-400">For banners drawn as images or on a canvas: if the page's HTML shows no banner but something blocks the page, a screenshot of the visible tab is sent to the AI. The model must accept images.</p>
+      </div>
+      {/* A standard toggle switch for the visual analysis option. */}
+      <label htmlFor="visual-analysis-toggle" className="relative inline-flex items-center cursor-pointer">
+          <input
+            type="checkbox"
+            id="visual-analysis-toggle"
+            className="sr-only peer"
+            checked={visualAnalysis}
+            onChange={(e) => handleVisualAnalysisChange(e.target.checked)}
+          />
+          <div className="w-11 h-6 bg-gray-600 rounded-full peer peer-focus:ring-4 peer-focus:ring-blue-800 peer-checked:after:translate-x-full after:content-[''] after:absolute after:top-0.5 after:left-[2px] after:bg-white after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+      </label>
+    </div>
+  );
+};
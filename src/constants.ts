@@ -1,3 +1,4 @@
+import { AiProviderKind, ScanStatus, ScanEventKind, CmpActionKind, DetectionSource } from './types';
 
 // This file centralizes all the constant values used across the application.
 // Using constants instead of "magic strings" prevents typos and makes the code
@@ -8,10 +9,24 @@
  */
 export const STORAGE_KEYS = {
   OPERATING_MODE: 'operatingMode', // Stores the user's chosen service tier (e.g., 'BYOK', 'PRO').
-  API_KEY: 'apiKey', // Stores the user's personal Gemini API key (only for BYOK mode).
+  API_KEY: 'apiKey', // Stores the user's personal API key for the chosen provider (only for BYOK mode).
+  PROVIDER_CONFIG: 'providerConfig', // Stores the BYOK user's AI provider, base URL, and model.
+  MODEL_SETTINGS: 'modelSettings', // Stores the BYOK user's temperature, thinking budget, and maximum input size.
+  MONTHLY_BUDGET: 'monthlyBudget', // Stores the BYOK user's optional monthly spending cap, in US dollars.
   DATA_COLLECTION_CONSENT: 'dataCollectionConsent', // Boolean flag for user consent on the free tier.
+  CONSENT_POLICY: 'consentPolicy', // Stores which choice to make on cookie banners (accept, reject, dismiss, or custom).
+  PURPOSE_PREFERENCES: 'purposePreferences', // Stores the per-purpose choices used by the custom consent policy.
+  AUTO_MODE: 'autoMode', // Boolean flag for scanning automatically when a banner appears.
+  VISUAL_ANALYSIS: 'visualAnalysis', // Boolean flag for falling back to a screenshot when the HTML shows no banner.
+  SITE_RULES: 'siteRules', // Stores the per-site rules (never, always auto, or a specific policy).
   TAB_STATUS_PREFIX: 'tab_status_', // Prefix for storing the status of individual tabs in session storage.
-  CENTRAL_API_KEY_CACHE: 'centralApiKeyCache', // Key for caching the fetched central API key.
+  SCAN_FEEDBACK_PREFIX: 'scan_feedback_', // Prefix for storing what each tab's last click was based on, for wrong-click reports, in session storage.
+  CENTRAL_API_KEY_CACHE: 'centralApiKeyCache', // Key for caching the fetched central API key and model settings.
+  SELECTOR_CACHE: 'selectorCache', // Stores the learned consent flows per site in local storage.
+  TOKEN_USAGE: 'tokenUsage', // Stores the daily and monthly AI usage totals in local storage.
+  SCAN_HISTORY: 'scanHistory', // Stores the record of finished scans in local storage.
+  HISTORY_RETENTION: 'historyRetentionDays', // Stores for how many days the scan history is kept.
+  WRONG_CLICK_REPORTS: 'wrongClickReports', // Stores the clicks the user reported as wrong in local storage.
 };
 
 /**
@@ -39,15 +54,276 @@ export const CACHE_CONFIG = {
   // Time-To-Live (TTL) for the cached central API key, in milliseconds.
   // Here, it's set to 1 hour to balance performance with the ability to rotate keys.
   CENTRAL_API_KEY_TTL_MS: 60 * 60 * 1000, 
+  // The maximum number of sites in the learned selector cache. The least recently used entries are evicted first.
+  SELECTOR_CACHE_MAX_ENTRIES: 500,
+  // A learned flow is forgotten after it failed to close the banner this many times in a row.
+  SELECTOR_CACHE_MAX_FAILURES: 2,
+  // The fingerprint used for banners that do not match any known CMP.
+  GENERIC_FINGERPRINT: 'generic',
 };
 
 /**
  * Configuration for the AI model.
  */
 export const AI_CONFIG = {
-  // The specific Gemini model to be used for analysis.
-  // Centralizing this makes it easy to update the model in the future.
-  MODEL_NAME: 'gemini-2.5-flash-preview-04-17',
+  // The default Gemini model, used unless the remote config (free and pro tiers) or
+  // the user (BYOK) picks another one. A cheap model goes first; see `ESCALATION_MODEL_NAME`.
+  MODEL_NAME: 'gemini-2.5-flash-lite',
+  // The default stronger model, asked once per scan when the first model finds no button, is not
+  // confident enough, or picks a button that cannot be clicked.
+  ESCALATION_MODEL_NAME: 'gemini-2.5-flash',
+  // The stronger model gets this many times the first model's HTML budget (up to `MAX_INPUT_LENGTH`).
+  ESCALATION_INPUT_FACTOR: 2,
+  // The defaults for each BYOK provider, used when the user leaves the base URL or a model empty.
+  // Without an escalation model, a scan escalates to the same model with a larger HTML budget.
+  PROVIDER_DEFAULTS: {
+    [AiProviderKind.GEMINI]: { baseUrl: '', model: 'gemini-2.5-flash-lite', escalationModel: 'gemini-2.5-flash' },
+    [AiProviderKind.OPENAI_COMPATIBLE]: { baseUrl: 'https://api.openai.com/v1', model: 'gpt-4o-mini', escalationModel: 'gpt-4o' },
+    [AiProviderKind.OLLAMA]: { baseUrl: 'http://localhost:11434', model: 'llama3.1', escalationModel: '' },
+  },
+  // The default sampling temperature. 0 gives deterministic, non-creative responses.
+  DEFAULT_TEMPERATURE: 0,
+  // The default "thinking" budget in tokens. Thinking is disabled for lower latency, as this is a simple extraction task.
+  DEFAULT_THINKING_BUDGET: 0,
+  // The range allowed for the user-configurable settings. The default input size is `EXTRACTION_CONFIG.MAX_HTML_LENGTH`.
+  MAX_TEMPERATURE: 2,
+  MAX_THINKING_BUDGET: 24576,
+  MIN_INPUT_LENGTH: 5000,
+  MAX_INPUT_LENGTH: 500000,
+  // The number of ranked button candidates the model is asked for.
+  MAX_BUTTON_CANDIDATES: 3,
+  // Below this confidence (from 0 to 1), the model's best button is not clicked.
+  MIN_CONFIDENCE: 0.6,
+  // Every request to a provider, including its retries, is aborted after this time.
+  REQUEST_TIMEOUT_MS: 45000,
+  // How often a rate-limited, failed, or unreachable request is retried. The delay doubles with each
+  // retry, from the base up to the maximum, and is randomized so that clients do not retry in lockstep.
+  MAX_RETRIES: 2,
+  RETRY_BASE_DELAY_MS: 1000,
+  RETRY_MAX_DELAY_MS: 8000,
+  // Ollama's context window defaults to a few thousand tokens and silently drops the start of a longer
+  // prompt (the instructions), so each request sets it from the prompt's size: about this many
+  // characters per token of HTML, plus room for the answer (and a screenshot, if one is sent).
+  OLLAMA_CHARS_PER_TOKEN: 3,
+  OLLAMA_OUTPUT_HEADROOM_TOKENS: 1024,
+  OLLAMA_IMAGE_TOKENS: 1024,
+  // The window is rounded up to a multiple of this, as Ollama reloads the model whenever it changes.
+  OLLAMA_CONTEXT_STEP: 4096,
+};
+
+/**
+ * Configuration for the AI usage tracking of BYOK users.
+ */
+export const USAGE_CONFIG = {
+  // List prices in US dollars per million tokens, used to estimate costs. A model is matched by
+  // the longest name prefix, so dated or preview versions share their family's price.
+  // Models without a price (e.g., local Ollama models) count as free.
+  MODEL_PRICES_PER_MILLION: {
+    'gemini-2.5-pro': { input: 1.25, output: 10 },
+    'gemini-2.5-flash': { input: 0.30, output: 2.50 },
+    'gemini-2.5-flash-lite': { input: 0.10, output: 0.40 },
+    'gemini-2.0-flash': { input: 0.10, output: 0.40 },
+    'gemini-2.0-flash-lite': { input: 0.075, output: 0.30 },
+    'gpt-4o': { input: 2.50, output: 10 },
+    'gpt-4o-mini': { input: 0.15, output: 0.60 },
+    'gpt-4.1': { input: 2, output: 8 },
+    'gpt-4.1-mini': { input: 0.40, output: 1.60 },
+    'gpt-4.1-nano': { input: 0.10, output: 0.40 },
+  } as Record<string, { input: number; output: number }>,
+  // Daily totals are kept for this many days, monthly totals for this many months.
+  DAILY_RETENTION: 31,
+  MONTHLY_RETENTION: 12,
+};
+
+/**
+ * Configuration for the local scan history shown on the options page.
+ */
+export const HISTORY_CONFIG = {
+  // The retention periods offered to the user, in days, and the one used until the user picks another.
+  RETENTION_OPTIONS_DAYS: [7, 30, 90, 365],
+  DEFAULT_RETENTION_DAYS: 30,
+  // The most entries kept regardless of their age, so auto mode on a busy profile cannot fill local storage.
+  MAX_ENTRIES: 2000,
+  // The most entries listed at once in the viewer. Exports always contain every matching entry.
+  MAX_DISPLAYED_ENTRIES: 200,
+};
+
+/**
+ * Configuration for the clicks the user reports as wrong from the popup.
+ */
+export const FEEDBACK_CONFIG = {
+  // The most reports kept. The oldest are dropped first.
+  MAX_REPORTS: 200,
+  // The length of the banner's HTML kept with a report, enough to see the buttons without storing the whole page.
+  MAX_SNIPPET_LENGTH: 2000,
+};
+
+/**
+ * Configuration for the statistics computed from the scan history on the options page.
+ */
+export const STATISTICS_CONFIG = {
+  // How many days, ending today, the chart of banners handled per day covers.
+  DAYS_SHOWN: 14,
+  // How many of the most frequent domains and consent platforms are listed.
+  TOP_COUNT: 5,
+};
+
+/**
+ * Configuration for the safety guard that runs before every click.
+ */
+export const CLICK_GUARD_CONFIG = {
+  // Button texts that must never be clicked, as they start a purchase, a subscription, or an account sign-up.
+  BLOCKED_TEXT_PATTERN: '\\b(buy|purchase|checkout|check out|pay|payment|order now|add to (cart|basket|bag)|subscribe|subscription|sign up|signup|register|create (an )?account|start (a |your )?(free )?trial|upgrade|donate|kaufen|abonnieren|acheter|abonner)\\b',
+};
+
+/**
+ * Configuration for the in-page extraction step that minimizes the page's HTML
+ * before it is sent to the AI model.
+ */
+export const EXTRACTION_CONFIG = {
+  // The default total character budget for the HTML sent to the model. It can be changed by
+  // the user (BYOK) or the remote config (free and pro tiers).
+  MAX_HTML_LENGTH: 30000,
+  // Only the best-scoring overlay subtrees are sent, up to this many.
+  MAX_CANDIDATES: 3,
+  // Long text (e.g., a full privacy notice) is truncated to this many characters.
+  MAX_TEXT_LENGTH: 200,
+  // Elements at or above this z-index are considered to be rendered "on top" of the page.
+  MIN_Z_INDEX: 100,
+  // Subtrees scoring below this threshold are not considered to be a banner.
+  MIN_CANDIDATE_SCORE: 25,
+  // Container selectors of the most common Consent Management Platforms (CMPs), with the
+  // platform's name. A matched selector fingerprints the banner, so the name is known even
+  // when no built-in rule handled it.
+  KNOWN_CMPS: {
+    '#onetrust-banner-sdk': 'OneTrust',
+    '#onetrust-consent-sdk': 'OneTrust',
+    '#CybotCookiebotDialog': 'Cookiebot',
+    '#didomi-host': 'Didomi',
+    '#qc-cmp2-container': 'Quantcast Choice',
+    '#truste-consent-track': 'TrustArc',
+    '#usercentrics-root': 'Usercentrics',
+    '[id^="sp_message_container"]': 'Sourcepoint',
+    '#cmplz-cookiebanner-container': 'Complianz',
+    '.cc-window': 'Cookie Consent',
+    '#cookie-law-info-bar': 'CookieYes',
+  } as Record<string, string>,
+  // Keywords in ids, classes, and text that suggest a cookie or consent context.
+  CONSENT_KEYWORDS: ['cookie', 'consent', 'gdpr', 'privacy', 'cmp', 'tracking'],
+};
+
+/**
+ * Configuration for the multi-step scan loop (click, wait for the DOM to settle, re-analyze).
+ */
+export const SCAN_CONFIG = {
+  // The maximum number of click steps in a single scan (e.g., "Manage options" -> "Reject all" -> "Save").
+  MAX_STEPS: 3,
+  // How long the DOM must stay unchanged after a click before the page is extracted again.
+  SETTLE_QUIET_MS: 500,
+  // The maximum time to wait for the DOM to settle after a click.
+  SETTLE_TIMEOUT_MS: 3000,
+  // How long to watch the banner after the final click before it counts as persisted.
+  VERIFY_TIMEOUT_MS: 2000,
+  // How long to wait for a purpose toggle to show its new state after it was clicked.
+  TOGGLE_SETTLE_TIMEOUT_MS: 300,
+  // How many times a persisted banner is retried (first with a different click strategy, then with another button).
+  MAX_CLICK_RETRIES: 2,
+  // How long to wait for a consent platform's API to report the new consent state after a choice is set through it.
+  API_VERIFY_TIMEOUT_MS: 1500,
+};
+
+/**
+ * Configuration for the opt-in visual analysis, which sends a screenshot of the tab to the
+ * model when the HTML analysis finds no banner but an overlay blocks the page.
+ */
+export const VISUAL_CONFIG = {
+  // The sample points per row and column hit-tested across the viewport to find a blocking overlay.
+  GRID_SIZE: 3,
+  // How many of the sample points an overlay must cover to block the page. While the page's
+  // scrolling is locked (a common sign of a consent wall), covering one point is enough.
+  MIN_BLOCKED_POINTS: 5,
+  // The character budget for the accessibility-tree text sent along with the screenshot.
+  MAX_TREE_LENGTH: 8000,
+  // JPEG keeps the screenshot small; the quality is still enough to read button labels.
+  SCREENSHOT_QUALITY: 70,
+};
+
+/**
+ * The toolbar badge that shows each tab's scan status without opening the popup.
+ */
+export const BADGE_CONFIG = {
+  // The badge text and color of each status. Statuses without an entry (idle, no banner found) clear the badge.
+  STATUS_BADGES: {
+    [ScanStatus.SCANNING]: { text: '⟳', color: '#2563eb' },
+    [ScanStatus.ANALYZING]: { text: '⟳', color: '#2563eb' },
+    [ScanStatus.SUCCESS]: { text: '✓', color: '#16a34a' },
+    [ScanStatus.BANNER_PERSISTED]: { text: '?', color: '#d97706' },
+    [ScanStatus.LOW_CONFIDENCE]: { text: '?', color: '#d97706' },
+    [ScanStatus.SKIPPED]: { text: '–', color: '#6b7280' },
+    [ScanStatus.ERROR]: { text: '!', color: '#dc2626' },
+  } as Partial<Record<ScanStatus, { text: string; color: string }>>,
+  // The badge when auto mode handled the banner, so it stands apart from a manual scan.
+  AUTO_SUCCESS: { text: 'A✓', color: '#7c3aed' },
+  // The tooltip of the toolbar icon, which the current status is appended to.
+  TITLE: 'Cookie Skipper AI',
+};
+
+/**
+ * Configuration for the stream of scan events from the background to the popup.
+ */
+export const SCAN_EVENT_CONFIG = {
+  // The name of the `chrome.runtime.connect` port the events are streamed over.
+  PORT_NAME: 'scan-events',
+  // The most events kept per scan. A scan that loops until its step limit stays well below this.
+  MAX_EVENTS: 100,
+  // How long the popup waits before reconnecting a dropped port (e.g., after the service worker restarted).
+  RECONNECT_DELAY_MS: 1000,
+};
+
+/**
+ * Configuration for the opt-in automatic mode, in which the content script starts scans.
+ */
+export const AUTO_SCAN_CONFIG = {
+  // How long the DOM must stay quiet before the content script checks for a banner.
+  DEBOUNCE_MS: 1000,
+  // The longest the check waits while the DOM keeps changing (e.g., a ticker or carousel), so it still runs.
+  MAX_WAIT_MS: 4000,
+  // The maximum number of automatic scans per tab, until the tab navigates to a new page.
+  MAX_ATTEMPTS_PER_TAB: 3,
+  // The banner elements of well-known consent platforms. Unlike the containers in `EXTRACTION_CONFIG`,
+  // these are hidden or removed once consent is given, while the platforms' root elements (e.g.,
+  // `#onetrust-consent-sdk`, which keeps the floating settings button) stay on the page.
+  BANNER_SELECTORS: [
+    '#onetrust-banner-sdk',
+    '#CybotCookiebotDialog',
+    '#didomi-notice',
+    '#didomi-popup',
+    '#qc-cmp2-ui',
+    '#truste-consent-track',
+    '[id^="sp_message_container"]',
+    '.cmplz-cookiebanner',
+    '.cc-window',
+    '#cookie-law-info-bar',
+  ],
+  // Banner elements that live inside an open shadow root, with the root's host.
+  SHADOW_BANNER_SELECTORS: [
+    { host: '#usercentrics-root', selector: '[data-testid="uc-accept-all-button"], [data-testid="uc-deny-all-button"]' },
+  ],
+  // The smallest size of a fixed element with a consent keyword that counts as a banner, in pixels,
+  // so a floating "cookie settings" button left after consent does not.
+  MIN_KEYWORD_BANNER_WIDTH: 200,
+  MIN_KEYWORD_BANNER_HEIGHT: 40,
+};
+
+/**
+ * Where a clicked button came from, as named in the popup and on the options page.
+ */
+export const SOURCE_LABELS: Record<DetectionSource, string> = {
+  [DetectionSource.API]: 'Consent API',
+  [DetectionSource.RULES]: 'Built-in rule',
+  [DetectionSource.CACHE]: 'Learned flow',
+  [DetectionSource.AI]: 'AI',
+  [DetectionSource.VISUAL]: 'Screenshot',
 };
 
 /**
@@ -59,6 +335,43 @@ export const UI_TEXT = {
   SCANNING: "Scanning page...",
   ANALYZING: "AI is analyzing...",
   SUCCESS: "Cookie banner skipped!",
+  SUCCESS_AUTO: "Cookie banner skipped automatically!",
   NOT_FOUND: "No cookie banner found.",
+  SKIPPED: "Turned off for this site.",
+  LOW_CONFIDENCE: "Found a banner, but wasn't sure which button to click, so it was left as is.",
+  BANNER_PERSISTED: "Clicked, but the banner is still visible.",
+  FROM_CACHE: "Used the button learned on an earlier visit.",
+  FROM_RULES: (cmp: string) => `Recognized ${cmp} without an AI call.`,
+  FROM_API: (api: string) => `Set through the ${api} consent API, without a click.`,
+  FROM_SCREENSHOT: "Found the button on a screenshot of the page.",
   IDLE: "Idle. Ready to scan.",
+  STEP_PROGRESS: (current: number, max: number) => `Step ${current} of ${max}`,
+  SCAN_EVENTS: {
+    [ScanEventKind.STARTED]: "Scan started",
+    [ScanEventKind.CONSENT_API]: "Set through the consent API",
+    [ScanEventKind.RULE_MATCHED]: "Recognized by a built-in rule",
+    [ScanEventKind.CACHE_HIT]: "Replaying the learned flow",
+    [ScanEventKind.EXTRACTING]: "Reading the page",
+    [ScanEventKind.MODEL_REQUEST]: "Asked the AI",
+    [ScanEventKind.CANDIDATE_CHOSEN]: "Chose a button",
+    [ScanEventKind.CLICKING]: "Clicking",
+    [ScanEventKind.VERIFYING]: "Checking the banner closed",
+    [ScanEventKind.FINISHED]: "Finished",
+  } as Record<ScanEventKind, string>,
+  ACTION_TYPES: {
+    [CmpActionKind.ACCEPT]: "Accept",
+    [CmpActionKind.REJECT]: "Reject",
+    [CmpActionKind.SETTINGS]: "Open settings",
+    [CmpActionKind.CLOSE]: "Close",
+    [CmpActionKind.SAVE]: "Save choices",
+  } as Record<CmpActionKind, string>,
+  CLICKED_POINT: "a point on the screenshot",
+  WRONG_CLICK: "That was wrong",
+  WRONG_CLICK_THANKS: "Thanks! This button won't be chosen again on this site.",
+  WRONG_CLICK_FORGOT: "The button learned for this site was forgotten.",
+  WRONG_CLICK_FAILED: "Could not save the report, as the scan is no longer known. Scan again first.",
+  SCAN_AGAIN: "Scan again",
+  AUTO_MODE: "Skip banners automatically",
+  NEVER_ON_SITE: "Never on this site",
+  ALWAYS_ON_SITE: "Always on this site",
 };
\ No newline at end of file
@@ -1,9 +1,11 @@
 
 import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
-import { OperatingMode } from '../types';
+import { OperatingMode, ConsentPolicy, ConsentPurpose, SiteRule, ProviderConfig, AiProviderKind, ModelSettings, UsageSummary, ScanHistoryEntry } from '../types';
 import * as settingsService from '../services/settingsService';
-import { testApiKey } from '../services/geminiService';
-import { PAYMENT } from '../constants';
+import * as usageService from '../services/usageService';
+import * as historyService from '../services/historyService';
+import { testApiKey, listProviderModels } from '../services/aiService';
+import { PAYMENT, STORAGE_KEYS } from '../constants';
 
 // This file defines a React Context for managing the state of the options page.
 // Using a context is a best practice for sharing state and functions across a tree of
@@ -17,13 +19,24 @@ import { PAYMENT } from '../constants';
 interface OptionsContextType {
   settings: settingsService.UserSettings | null; // The current user settings.
   statusMessage: string; // A temporary message for user feedback (e.g., "Settings saved!").
+  usage: UsageSummary | null; // The AI usage of today and this month, for BYOK users.
+  history: ScanHistoryEntry[] | null; // The finished scans, newest first, or null while they are loading.
   
   // Handlers for user actions.
   handleUpgradeToPro: () => void;
   handleModeChange: (newMode: OperatingMode) => void;
-  handleSaveKey: (apiKey: string) => Promise<void>;
-  handleTestKey: (apiKey: string) => Promise<{ success: boolean; message: string }>;
+  handleSaveKey: (apiKey: string, config: ProviderConfig, modelSettings: ModelSettings) => Promise<void>;
+  handleTestKey: (apiKey: string, config: ProviderConfig, modelSettings: ModelSettings) => Promise<{ success: boolean; message: string }>;
+  handleListModels: (apiKey: string, config: ProviderConfig) => Promise<{ models: string[]; message: string }>;
   handleConsentChange: (isEnabled: boolean) => Promise<void>;
+  handleConsentPolicyChange: (policy: ConsentPolicy) => Promise<void>;
+  handlePurposePreferenceChange: (purpose: ConsentPurpose, isEnabled: boolean) => Promise<void>;
+  handleAutoModeChange: (isEnabled: boolean) => Promise<void>;
+  handleVisualAnalysisChange: (isEnabled: boolean) => Promise<void>;
+  handleSiteRulesChange: (rules: SiteRule[]) => Promise<void>;
+  handleMonthlyBudgetChange: (budgetUsd: number | null) => Promise<void>;
+  handleHistoryRetentionChange: (days: number) => Promise<void>;
+  handleClearHistory: () => Promise<void>;
 }
 
 // Create the React Context. It's initialized to null.
@@ -36,12 +49,29 @@ const OptionsContext = createContext<OptionsContextType | null>(null);
 export const OptionsProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [settings, setSettings] = useState<settingsService.UserSettings | null>(null);
   const [statusMessage, setStatusMessage] = useState('');
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
+  const [history, setHistory] = useState<ScanHistoryEntry[] | null>(null);
 
   // When the provider mounts, fetch the initial settings from storage.
   useEffect(() => {
     settingsService.getSettings().then(setSettings);
   }, []);
 
+  // Load the AI usage and the scan history, and reload them whenever a scan records more, so the page stays current while open.
+  useEffect(() => {
+    const loadUsage = () => usageService.getUsageSummary().then(setUsage).catch(() => setUsage(null));
+    const loadHistory = () => historyService.getHistory().then(setHistory).catch(() => setHistory([]));
+    const listener = (changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => {
+      if (areaName !== 'local') return;
+      if (changes[STORAGE_KEYS.TOKEN_USAGE]) loadUsage();
+      if (changes[STORAGE_KEYS.SCAN_HISTORY]) loadHistory();
+    };
+    loadUsage();
+    loadHistory();
+    chrome.storage.onChanged.addListener(listener);
+    return () => chrome.storage.onChanged.removeListener(listener);
+  }, []);
+
   /**
    * A helper function to show a status message for a few seconds.
    * `useCallback` is used to memoize the function so it doesn't get recreated on every render.
@@ -94,31 +124,47 @@ export const OptionsProvider: React.FC<{ children: ReactNode }> = ({ children })
   }, [settings, showStatus]);
 
   /**
-   * Handles saving the user's personal API key.
+   * Handles saving the user's AI provider, generation settings, and personal API key.
+   * Only Gemini requires a key; the other providers may run without one.
    */
-  const handleSaveKey = useCallback(async (apiKey: string) => {
-    if (!apiKey) {
+  const handleSaveKey = useCallback(async (apiKey: string, config: ProviderConfig, modelSettings: ModelSettings) => {
+    if (!apiKey && config.kind === AiProviderKind.GEMINI) {
       showStatus('API Key cannot be empty.');
       return;
     }
+    await settingsService.saveProviderConfig(config);
+    await settingsService.saveModelSettings(modelSettings);
     await settingsService.saveUserApiKey(apiKey);
     setSettings(await settingsService.getSettings()); // Refresh state
-    showStatus('API Key saved successfully!');
+    showStatus('Provider settings saved successfully!');
   }, [showStatus]);
   
   /**
    * Handles testing the user's API key. This function doesn't modify state itself,
    * but returns a result object for the UI to display.
    */
-  const handleTestKey = useCallback(async (apiKey: string) => {
+  const handleTestKey = useCallback(async (apiKey: string, config: ProviderConfig, modelSettings: ModelSettings) => {
     try {
-      await testApiKey(apiKey);
-      return { success: true, message: 'Success! This API key is valid.' };
+      await testApiKey(config, apiKey, modelSettings);
+      return { success: true, message: 'Success! The provider accepted these settings.' };
     } catch (error: any) {
       return { success: false, message: error.message || 'An unknown error occurred.' };
     }
   }, []);
 
+  /**
+   * Handles loading the models the chosen provider offers. Like the key test, it returns
+   * a result object for the UI to display.
+   */
+  const handleListModels = useCallback(async (apiKey: string, config: ProviderConfig) => {
+    try {
+      const models = await listProviderModels(config, apiKey);
+      return { models, message: models.length ? '' : 'The provider did not list any models.' };
+    } catch (error: any) {
+      return { models: [], message: error.message || 'An unknown error occurred.' };
+    }
+  }, []);
+
   /**
    * Handles changing the user's consent for data collection.
    */
@@ -128,15 +174,99 @@ export const OptionsProvider: React.FC<{ children: ReactNode }> = ({ children })
     showStatus(`Data collection preferences updated.`);
   }, [showStatus]);
 
+  /**
+   * Handles changing which choice the extension makes on cookie banners.
+   */
+  const handleConsentPolicyChange = useCallback(async (policy: ConsentPolicy) => {
+    await settingsService.saveConsentPolicy(policy);
+    setSettings(await settingsService.getSettings()); // Refresh state
+    showStatus(`Cookie banner preference updated.`);
+  }, [showStatus]);
+
+  /**
+   * Handles allowing or refusing a single consent purpose for the custom policy.
+   */
+  const handlePurposePreferenceChange = useCallback(async (purpose: ConsentPurpose, isEnabled: boolean) => {
+    const { purposePreferences } = await settingsService.getSettings();
+    await settingsService.savePurposePreferences({ ...purposePreferences, [purpose]: isEnabled });
+    setSettings(await settingsService.getSettings()); // Refresh state
+    showStatus(`Purpose preferences updated.`);
+  }, [showStatus]);
+
+  /**
+   * Handles turning the automatic scanning mode on or off.
+   */
+  const handleAutoModeChange = useCallback(async (isEnabled: boolean) => {
+    await settingsService.saveAutoMode(isEnabled);
+    setSettings(await settingsService.getSettings()); // Refresh state
+    showStatus(`Automatic mode ${isEnabled ? 'enabled' : 'disabled'}.`);
+  }, [showStatus]);
+
+  /**
+   * Handles turning the screenshot fallback on or off.
+   */
+  const handleVisualAnalysisChange = useCallback(async (isEnabled: boolean) => {
+    await settingsService.saveVisualAnalysis(isEnabled);
+    setSettings(await settingsService.getSettings()); // Refresh state
+    showStatus(`Visual analysis ${isEnabled ? 'enabled' : 'disabled'}.`);
+  }, [showStatus]);
+
+  /**
+   * Handles adding, editing, or removing per-site rules. The panel passes the complete updated list.
+   */
+  const handleSiteRulesChange = useCallback(async (rules: SiteRule[]) => {
+    await settingsService.saveSiteRules(rules);
+    setSettings(await settingsService.getSettings()); // Refresh state
+    showStatus(`Site rules updated.`);
+  }, [showStatus]);
+
+  /**
+   * Handles setting or removing the BYOK user's monthly spending cap.
+   */
+  const handleMonthlyBudgetChange = useCallback(async (budgetUsd: number | null) => {
+    await settingsService.saveMonthlyBudget(budgetUsd);
+    setSettings(await settingsService.getSettings()); // Refresh state
+    showStatus(budgetUsd === null ? 'Monthly budget removed.' : 'Monthly budget updated.');
+  }, [showStatus]);
+
+  /**
+   * Handles changing for how long the scan history is kept. Older entries are dropped right away.
+   */
+  const handleHistoryRetentionChange = useCallback(async (days: number) => {
+    await settingsService.saveHistoryRetention(days);
+    await historyService.pruneHistory(days);
+    setSettings(await settingsService.getSettings()); // Refresh state
+    showStatus(`The history is now kept for ${days} days.`);
+  }, [showStatus]);
+
+  /**
+   * Handles deleting the whole scan history. The storage listener above reloads the empty list.
+   */
+  const handleClearHistory = useCallback(async () => {
+    await historyService.clearHistory();
+    showStatus('Scan history cleared.');
+  }, [showStatus]);
+
   // The value object contains all the state and functions to be provided to consumers.
   const value = {
     settings,
     statusMessage,
+    usage,
+    history,
     handleUpgradeToPro,
     handleModeChange,
     handleSaveKey,
     handleTestKey,
-    handleConsentChange
+    handleListModels,
+    handleConsentChange,
+    handleConsentPolicyChange,
+    handlePurposePreferenceChange,
+    handleAutoModeChange,
+    handleVisualAnalysisChange,
+    handleSiteRulesChange,
+    handleMonthlyBudgetChange,
+    handleHistoryRetentionChange,
+    handleClearHistory
   };
 
   return (
@@ -1,9 +1,10 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { ChromeMessage, MessageType, OperatingMode, ScanStatus, ErrorPayload, ErrorCode } from '../types';
+import { ChromeMessage, MessageType, OperatingMode, ScanStatus, ErrorPayload, ErrorCode, ScanStepProgress, ScanResult, SiteRule, SiteRuleMode, ScanEvent, ScanEventPortMessage, WrongClickResponse } from '../types';
 import * as settingsService from '../services/settingsService';
-import { STORAGE_KEYS } from '../constants';
+import { STORAGE_KEYS, SCAN_EVENT_CONFIG } from '../constants';
 import { sendMessage } from '../utils/chromePromise';
+import { findSiteRule } from '../utils/siteRules';
 
 /**
  * A custom React hook that encapsulates all the logic for managing the popup's state
@@ -17,8 +18,18 @@ export const useExtensionStatus = () => {
   const [status, setStatus] = useState<ScanStatus>(ScanStatus.IDLE);
   const [lastUrl, setLastUrl] = useState<string>('');
   const [error, setError] = useState<ErrorPayload | null>(null);
+  const [step, setStep] = useState<ScanStepProgress | null>(null); // Progress of a multi-step consent flow.
+  const [result, setResult] = useState<ScanResult | null>(null); // The result record of the last scan that clicked something.
   const [showAds, setShowAds] = useState(false);
-  const successTimerRef = useRef<number | null>(null); // Timer to reset status from SUCCESS to IDLE.
+  const [autoMode, setAutoMode] = useState(false); // Whether banners are handled automatically.
+  const [hostname, setHostname] = useState(''); // The hostname of the active tab, if it is a web page.
+  const [siteRule, setSiteRule] = useState<SiteRule | null>(null); // The site rule that applies to the active tab.
+  const [events, setEvents] = useState<ScanEvent[]>([]); // The detailed steps of the tab's current (or last) scan.
+  const [wrongClickReport, setWrongClickReport] = useState<WrongClickResponse | null>(null); // The answer to the user's "That was wrong" report.
+  const [isReportingWrongClick, setIsReportingWrongClick] = useState(false);
+  const scanIdRef = useRef<string | null>(null); // The scan the events belong to.
+  const lastSeqRef = useRef(-1); // The last event received, so a reconnect only asks for the ones missed.
+  const activeTabIdRef = useRef<number | null>(null); // The tab the popup shows, so other tabs' updates are ignored.
 
   /**
    * A memoized callback to handle incoming messages from the background script.
@@ -27,30 +38,39 @@ export const useExtensionStatus = () => {
   const handleMessage = useCallback((message: ChromeMessage) => {
     if (message.type === MessageType.STATUS_UPDATE) {
       const payload = message.payload;
-      
-      // Clear any existing success-to-idle timer.
-      if (successTimerRef.current) {
-        clearTimeout(successTimerRef.current);
-        successTimerRef.current = null;
-      }
 
       // Update the UI state based on the payload from the background.
       setStatus(payload.status);
       setError(payload.error || null);
+      setStep(payload.step || null);
+      setResult(payload.result || null);
       if (payload.url) {
         setLastUrl(payload.url);
       }
-
-      // If the scan was successful, set a timer to automatically return to the IDLE state after a few seconds.
-      if (payload.status === ScanStatus.SUCCESS) {
-        successTimerRef.current = window.setTimeout(() => {
-          setStatus(ScanStatus.IDLE);
-          successTimerRef.current = null;
-        }, 3000);
+      // A new scan (e.g., started by auto mode) replaces the click a report was about.
+      if (payload.status === ScanStatus.SCANNING) {
+        setWrongClickReport(null);
       }
+      // The result stays on screen, so the user can check what was clicked and report a wrong button.
     }
   }, []);
   
+  /**
+   * A memoized callback to add the scan events streamed over the port. Events of a new scan
+   * replace the timeline, and events already received (e.g., replayed after a reconnect) are skipped.
+   */
+  const handleScanEvents = useCallback((scanId: string, newEvents: ScanEvent[]) => {
+    if (scanId !== scanIdRef.current) {
+      scanIdRef.current = scanId;
+      lastSeqRef.current = -1;
+      setEvents([]);
+    }
+    const unseen = newEvents.filter(event => event.seq > lastSeqRef.current);
+    if (unseen.length === 0) return;
+    lastSeqRef.current = unseen[unseen.length - 1].seq;
+    setEvents(current => [...current, ...unseen]);
+  }, []);
+
   /**
    * Handler to open the extension's options page.
    */
@@ -60,6 +80,54 @@ export const useExtensionStatus = () => {
     }
   };
 
+  /**
+   * Handler for the auto mode switch. The content scripts pick up the change from storage.
+   */
+  const handleAutoModeChange = async (isEnabled: boolean) => {
+    setAutoMode(isEnabled);
+    try {
+      await settingsService.saveAutoMode(isEnabled);
+    } catch (e) {
+      console.error("Failed to save auto mode", e);
+      setAutoMode(!isEnabled);
+    }
+  };
+
+  /**
+   * Handler for the per-site quick toggles. Sets an exact rule for the active tab's hostname,
+   * or removes it when `mode` is null. Wildcard rules are left to the options page.
+   */
+  const handleSiteRuleChange = async (mode: SiteRuleMode | null) => {
+    if (!hostname) return;
+    try {
+      const { siteRules } = await settingsService.getSettings();
+      const newRules = siteRules.filter(rule => rule.pattern !== hostname);
+      if (mode) newRules.push({ pattern: hostname, mode });
+      await settingsService.saveSiteRules(newRules);
+      setSiteRule(findSiteRule(newRules, hostname));
+    } catch (e) {
+      console.error("Failed to save site rule", e);
+    }
+  };
+
+  /**
+   * Handler for the "That was wrong" button. The background forgets the learned flow for the
+   * banner and saves a local feedback record; the popup then offers to scan again.
+   */
+  const handleReportWrongClick = async () => {
+    if (isReportingWrongClick) return;
+    setIsReportingWrongClick(true);
+    try {
+      const response = await sendMessage<WrongClickResponse>({ type: MessageType.REPORT_WRONG_CLICK });
+      setWrongClickReport(response ?? { recorded: false, forgotFlow: false });
+    } catch (e) {
+      console.error("Failed to report the wrong click", e);
+      setWrongClickReport({ recorded: false, forgotFlow: false });
+    } finally {
+      setIsReportingWrongClick(false);
+    }
+  };
+
   /**
    * Handler for the "Scan Page Manually" button click.
    */
@@ -72,6 +140,10 @@ export const useExtensionStatus = () => {
         // Immediately update UI to give feedback.
         setStatus(ScanStatus.SCANNING);
         setError(null);
+        setStep(null);
+        setResult(null);
+        setEvents([]);
+        setWrongClickReport(null);
         try {
           // Send a message to the background script to start the scan.
           await sendMessage({ type: MessageType.MANUAL_SCAN_REQUEST });
@@ -95,10 +167,42 @@ export const useExtensionStatus = () => {
   useEffect(() => {
     const isExtensionContext = typeof chrome !== "undefined" && chrome.runtime?.id;
     let listenerMounted = true; // Flag to prevent state updates after the component has unmounted.
+    let eventPort: chrome.runtime.Port | null = null; // The port the scan events are streamed over.
+    let reconnectTimer: number | null = null;
 
     const messageListener = (message: any) => {
       // Only handle the message if the component is still mounted.
-      if (listenerMounted) handleMessage(message as ChromeMessage);
+      if (!listenerMounted) return;
+      const chromeMessage = message as ChromeMessage;
+      // Status updates of every tab are broadcast, but the popup only shows the active tab's.
+      // Until the active tab is known, its state is read below anyway.
+      if (chromeMessage.type === MessageType.STATUS_UPDATE && chromeMessage.payload.tabId !== activeTabIdRef.current) return;
+      handleMessage(chromeMessage);
+    };
+
+    /**
+     * Connects to the background's scan event stream for a tab. The subscription says which events
+     * the popup already has, so after a dropped port (e.g., the service worker restarted) only the
+     * missed ones are sent again.
+     */
+    const connectScanEvents = (tabId: number) => {
+      const port = chrome.runtime.connect({ name: SCAN_EVENT_CONFIG.PORT_NAME });
+      eventPort = port;
+      port.onMessage.addListener((message) => {
+        const portMessage = message as ScanEventPortMessage;
+        if (listenerMounted && portMessage.type === MessageType.SCAN_EVENTS && portMessage.payload.tabId === tabId) {
+          handleScanEvents(portMessage.payload.scanId, portMessage.payload.events);
+        }
+      });
+      port.onDisconnect.addListener(() => {
+        eventPort = null;
+        if (listenerMounted) reconnectTimer = window.setTimeout(() => connectScanEvents(tabId), SCAN_EVENT_CONFIG.RECONNECT_DELAY_MS);
+      });
+      const subscription: ScanEventPortMessage = {
+        type: MessageType.SUBSCRIBE_SCAN_EVENTS,
+        payload: { tabId, scanId: scanIdRef.current, lastSeq: lastSeqRef.current },
+      };
+      port.postMessage(subscription);
     };
 
     if (isExtensionContext) {
@@ -107,6 +211,19 @@ export const useExtensionStatus = () => {
       chrome.tabs.query({ active: true, currentWindow: true }).then(tabs => {
         if (!tabs[0]?.id || !listenerMounted) return;
         const tabId = tabs[0].id;
+        activeTabIdRef.current = tabId;
+
+        // Stream the detailed steps of the tab's scan, starting with those that already happened.
+        connectScanEvents(tabId);
+
+        // Site rules only apply to web pages, so the quick toggles are hidden on other pages.
+        const tabUrl = tabs[0].url ? new URL(tabs[0].url) : null;
+        if (tabUrl && (tabUrl.protocol === 'http:' || tabUrl.protocol === 'https:')) {
+          setHostname(tabUrl.hostname);
+          settingsService.getSettings().then(settings => {
+            if (listenerMounted) setSiteRule(findSiteRule(settings.siteRules, tabUrl.hostname));
+          });
+        }
         const sessionStateKey = `${STORAGE_KEYS.TAB_STATUS_PREFIX}${tabId}`;
         
         // 1. First, try to get the state synchronously from `chrome.storage.session`.
@@ -133,6 +250,7 @@ export const useExtensionStatus = () => {
       settingsService.getSettings().then(settings => {
         if(listenerMounted) {
           setShowAds(settings.mode === OperatingMode.FREE_AD_SUPPORTED && settings.consent);
+          setAutoMode(settings.autoMode);
         }
       });
 
@@ -151,20 +269,33 @@ export const useExtensionStatus = () => {
           chrome.runtime.onMessage.removeListener(messageListener); 
         } 
         catch (e) { console.warn("Could not remove message listener", e); }
+        // Closing the port from this side does not fire its disconnect listener, so it is not reconnected.
+        eventPort?.disconnect();
       }
-      // Clear any pending timers to prevent state updates on an unmounted component.
-      if(successTimerRef.current) clearTimeout(successTimerRef.current);
+      // Clear the pending reconnect to prevent state updates on an unmounted component.
+      if (reconnectTimer) clearTimeout(reconnectTimer);
     };
-  }, [handleMessage]); // `handleMessage` is a stable dependency due to useCallback.
+  }, [handleMessage, handleScanEvents]); // Both handlers are stable dependencies due to useCallback.
 
   return { 
     status, 
     error, 
+    step,
+    result,
+    events,
+    wrongClickReport,
+    isReportingWrongClick,
     lastUrl, 
     // This is a derived state value. It simplifies logic in the UI component.
     isScanning: status === ScanStatus.SCANNING || status === ScanStatus.ANALYZING, 
     showAds, 
+    autoMode,
+    hostname,
+    siteRule,
     handleManualScan, 
+    handleAutoModeChange,
+    handleSiteRuleChange,
+    handleReportWrongClick,
     openOptionsPage 
   };
 };
\ No newline at end of file
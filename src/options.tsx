@@ -1,15 +1,34 @@
 
-import React from 'react';
+import React, { useState } from 'react';
 import ReactDOM from 'react-dom/client';
 import { CookieIcon } from './components/Icons';
 import { OperatingMode } from './types';
+import { AI_CONFIG } from './constants';
 import { ProTierPanel } from './components/options/ProTierPanel';
 import { FreeTierPanel } from './components/options/FreeTierPanel';
 import { ByokTierPanel } from './components/options/ByokTierPanel';
+import { ConsentPolicyPanel } from './components/options/ConsentPolicyPanel';
+import { AutoModePanel } from './components/options/AutoModePanel';
+import { VisualAnalysisPanel } from './components/options/VisualAnalysisPanel';
+import { SiteRulesPanel } from './components/options/SiteRulesPanel';
+import { UsagePanel } from './components/options/UsagePanel';
+import { HistoryPanel } from './components/options/HistoryPanel';
+import { StatisticsPanel } from './components/options/StatisticsPanel';
 import { OptionsProvider, useOptions } from './context/OptionsContext';
 
 // This file is the entry point for the extension's options page.
 
+/**
+ * The tabs of the options page: the settings, the record of past scans, and the statistics computed from it.
+ */
+type OptionsTab = 'settings' | 'history' | 'statistics';
+
+const TABS: { value: OptionsTab; title: string }[] = [
+  { value: 'settings', title: 'Settings' },
+  { value: 'history', title: 'History' },
+  { value: 'statistics', title: 'Statistics' },
+];
+
 /**
  * The main content component for the options page.
  * It consumes the shared state and functions from the OptionsContext
@@ -17,7 +36,8 @@ import { OptionsProvider, useOptions } from './context/OptionsContext';
  */
 const OptionsContent: React.FC = () => {
     // useOptions hook provides all necessary state and handlers from the context.
-    const { settings, statusMessage, handleModeChange } = useOptions();
+    const { settings, statusMessage, usage, history, handleModeChange } = useOptions();
+    const [activeTab, setActiveTab] = useState<OptionsTab>('settings');
 
     // Show a loading state until the settings have been fetched from storage.
     if (!settings) {
@@ -74,33 +94,86 @@ const OptionsContent: React.FC = () => {
                 <p className="text-sm text-gray-400">Manage your preferences and subscription</p>
               </div>
             </header>
+
+            <nav className="flex space-x-2 mt-4 border-b border-gray-700">
+              {TABS.map(tab => (
+                <button
+                  key={tab.value}
+                  onClick={() => setActiveTab(tab.value)}
+                  className={`px-4 py-2 text-sm font-medium -mb-px border-b-2 ${activeTab === tab.value ? 'border-blue-500 text-gray-100' : 'border-transparent text-gray-400 hover:text-gray-200'}`}
+                >
+                  {tab.title}
+                </button>
+              ))}
+            </nav>
             
             <main className="mt-6">
-                <h2 className="text-xl font-semibold text-gray-200 mb-4">Choose Your Service Tier</h2>
-                <div className="space-y-4">
+              {activeTab === 'history' && (
+                <>
+                  <h2 className="text-xl font-semibold text-gray-200 mb-4">Scan History</h2>
+                  <HistoryPanel history={history} retentionDays={settings.historyRetentionDays} />
+                </>
+              )}
+
+              {activeTab === 'statistics' && (
+                <>
+                  <h2 className="text-xl font-semibold text-gray-200 mb-4">Statistics</h2>
+                  <StatisticsPanel history={history} retentionDays={settings.historyRetentionDays} />
+                </>
+              )}
+
+              {activeTab === 'settings' && (
+                <>
+                  <h2 className="text-xl font-semibold text-gray-200 mb-4">Choose Your Service Tier</h2>
+                  <div className="space-y-4">
                   
-                  {/* Each tier is rendered using the helper function with its specific child component. */}
-                  {renderTier(OperatingMode.PRO, "Pro User ✨", "The best experience. No ads, no data collection, no hassle.", 
-                    <ProTierPanel isProUser={settings.mode === OperatingMode.PRO} />
-                  )}
+                    {/* Each tier is rendered using the helper function with its specific child component. */}
+                    {renderTier(OperatingMode.PRO, "Pro User ✨", "The best experience. No ads, no data collection, no hassle.", 
+                      <ProTierPanel isProUser={settings.mode === OperatingMode.PRO} />
+                    )}
     
-                  {renderTier(OperatingMode.FREE_AD_SUPPORTED, "Free Service", "Supported by ads and anonymized data collection.", 
-                    <FreeTierPanel 
-                      consent={settings.consent} 
-                      isDisabled={settings.mode !== OperatingMode.FREE_AD_SUPPORTED} 
-                    />
-                  )}
+                    {renderTier(OperatingMode.FREE_AD_SUPPORTED, "Free Service", "Supported by ads and anonymized data collection.", 
+                      <FreeTierPanel 
+                        consent={settings.consent} 
+                        isDisabled={settings.mode !== OperatingMode.FREE_AD_SUPPORTED} 
+                      />
+                    )}
     
-                  {renderTier(OperatingMode.BYOK, "Bring Your Own Key", "For technical users. No ads or data collection.",
-                    <ByokTierPanel 
-                      initialApiKey={settings.userKey || ''}
-                      isDisabled={settings.mode !== OperatingMode.BYOK}
-                    />
-                  )}
+                    {renderTier(OperatingMode.BYOK, "Bring Your Own Key", "For technical users. No ads or data collection.",
+                      <ByokTierPanel 
+                        initialApiKey={settings.userKey || ''}
+                        initialProviderConfig={settings.providerConfig}
+                        initialModelSettings={settings.modelSettings}
+                        isDisabled={settings.mode !== OperatingMode.BYOK}
+                      />
+                    )}
     
-                </div>
-                {/* A small area to display temporary status messages (e.g., "API Key Saved!"). */}
-                <div className="h-5 mt-6 text-center text-sm text-green-400 font-medium">{statusMessage}</div>
+                  </div>
+
+                  {/* Only BYOK users pay for their AI calls, so only they see the usage and budget. */}
+                  {settings.mode === OperatingMode.BYOK && (
+                    <>
+                      <h2 className="text-xl font-semibold text-gray-200 mt-8 mb-4">AI Usage</h2>
+                      <UsagePanel
+                        usage={usage}
+                        monthlyBudgetUsd={settings.monthlyBudgetUsd}
+                        model={settings.providerConfig.model || AI_CONFIG.PROVIDER_DEFAULTS[settings.providerConfig.kind].model}
+                      />
+                    </>
+                  )}
+
+                  <h2 className="text-xl font-semibold text-gray-200 mt-8 mb-4">Cookie Banner Behavior</h2>
+                  <AutoModePanel autoMode={settings.autoMode} />
+                  <VisualAnalysisPanel visualAnalysis={settings.visualAnalysis} />
+                  <ConsentPolicyPanel policy={settings.consentPolicy} purposePreferences={settings.purposePreferences} />
+
+                  <h2 className="text-xl font-semibold text-gray-200 mt-8 mb-4">Site Rules</h2>
+                  <SiteRulesPanel rules={settings.siteRules} />
+                </>
+              )}
+
+              {/* A small area to display temporary status messages (e.g., "API Key Saved!"). */}
+              <div className="h-5 mt-6 text-center text-sm text-green-400 font-medium">{statusMessage}</div>
             </main>
           </div>
         </div>
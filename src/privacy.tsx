@@ -67,11 +67,20 @@ const PrivacyPolicy: React.FC = () => {
           <p>
             Your Gemini API key is stored locally and securely on your device using `chrome.storage.sync` and is never transmitted to us or any third party. The anonymized data we collect is transmitted securely over HTTPS to our servers.
           </p>
+          <p>
+            The history of scans shown on the Options page (the sites scanned, what was clicked, and the outcome) is kept only in your browser's local storage. It is never sent to us or any third party, and you can export or clear it at any time.
+          </p>
+          <p>
+            When you report a clicked button as wrong from the popup, a record of it (the site, the button, and the start of the banner's HTML) is kept in your browser's local storage, so the extension avoids that button on the site. It is never sent to us or any third party.
+          </p>
 
           <h2 className="text-white">5. Your Choices and Controls</h2>
           <p>
             You are in control. You can enable or disable data collection and ads at any time from the extension's Options page. You can also review this privacy policy whenever you wish.
           </p>
+          <p>
+            The optional visual analysis is off by default. If you turn it on, a screenshot of the visible part of the tab is sent to the AI provider when a page's HTML shows no cookie banner but something blocks the page. Screenshots are never stored or sent to our servers.
+          </p>
 
           <h2 className="text-white">6. Changes to This Policy</h2>
           <p>
@@ -3,29 +3,168 @@
 // Keeping prompts separate from the application logic makes them easier
 // to manage, version, test, and tune without changing any code.
 
+import { ConsentPolicy, ConsentPurpose, CmpActionKind } from './types';
+import { AI_CONFIG } from './constants';
+
+/**
+ * The goal given to the model for each consent policy. Each goal names the button
+ * to look for and provides synonyms to cover common variations.
+ */
+const POLICY_GOALS: Record<ConsentPolicy, string> = {
+  [ConsentPolicy.ACCEPT_ALL]: `Your task is to identify the primary "Accept All", "Agree", "Allow all", or similar cookie consent button.`,
+  [ConsentPolicy.REJECT_ALL]: `Your task is to identify the "Reject All", "Decline", "Necessary only", "Only essential cookies", or similar cookie consent button that refuses all optional cookies. Never choose a button that accepts optional cookies.`,
+  [ConsentPolicy.DISMISS]: `Your task is to identify the button that closes the cookie banner without making a consent choice, such as a close ("X") button or a "Continue without accepting" link. Never choose a button that accepts or rejects cookies.`,
+  [ConsentPolicy.CUSTOM]: `Your task is to set the user's cookie choices for individual purposes in the banner's preference center.
+If the preference center is not open yet, identify the button that opens it, such as "Manage options", "Customize", "Cookie settings", or "More choices".
+Once the preference center is open, list every purpose toggle (checkbox or switch) in "toggles", and identify the button that saves the current selection (such as "Save preferences" or "Confirm my choices") as the button to click. Never choose "Accept all" or "Reject all" as the save button.
+Map each toggle to one of these purposes: ${Object.values(ConsentPurpose).join(', ')}. Skip toggles for strictly necessary cookies and toggles that fit none of the purposes.`,
+};
+
 /**
- * The prompt sent to the Gemini model to find the "accept" button.
- * 
+ * The prompt sent to the Gemini model to find the next consent button to click.
+ * The `{goal}` placeholder is filled in from `POLICY_GOALS` by `buildFindButtonPrompt`.
+ *
  * This prompt is carefully crafted to be clear and concise:
- * - It clearly states the primary goal: find the main "Accept All" button.
- * - It provides synonyms ("Agree", "Allow all") to cover common variations.
- * - It specifies the exact output format required: a JSON object with a "selector" key.
- *   This is crucial for reliable, programmatic parsing of the response.
- * - It gives an example of both a successful response and a failure case (selector: null).
+ * - It clearly states the primary goal, which depends on the user's consent policy.
+ * - It specifies the output format: a JSON object with a ranked list of button "candidates", each
+ *   with its "elementId" and "frameId", "buttonText", "actionType",
+ *   "confidence", and "containerSelector". The same shape is enforced by the response schema in
+ *   `aiService.ts`, and the response is validated against it before use.
+ * - It asks for a calibrated confidence, so an uncertain answer is not clicked.
+ * - It gives an example of a successful response, and describes the failure case (no candidates).
+ * - It asks whether a banner was found at all, so a banner without a matching button is
+ *   reported instead of being treated as "no banner".
+ * - It explains that the HTML is a minimized extract, split into ranked candidate sections.
+ * - It asks for the element's temporary data-cs-id instead of a CSS selector, so every answer
+ *   resolves to exactly one element, and for the frame ID, so the click runs in the right place.
+ * - It asks what each button does, so multi-step banners can be followed (only settings buttons lead to a further step).
+ * - For the custom policy, it asks for the purpose toggles of the preference center, mapped to our purposes.
  * - It clearly marks where the HTML content to be analyzed begins.
  */
-export const FIND_ACCEPT_BUTTON_PROMPT = `
-Analyze the following HTML content from a webpage. Your task is to identify the primary "Accept All", "Agree", "Allow all", or similar cookie consent button.
+export const FIND_CONSENT_BUTTON_PROMPT = `
+Analyze the following HTML content from a webpage. {goal}
+
+Some banners need more than one step, for example a "Manage options" or "More choices" button that first has to be clicked to reveal the choice, or a "Save preferences" button on a second screen. In that case, identify the button that must be clicked next.
+
+The HTML has been minimized: scripts, styles, and hidden elements were removed and long text was truncated. It may be split into several candidate sections, each introduced by a comment and ordered from most to least likely to be the cookie banner.
+
+The page may contain several frames. Each frame's content is introduced by a comment such as <!-- Frame 12 (https://example.com/) -->. Content inside a <shadow-root> element lives in an open shadow root.
+
+Every element that can be clicked or toggled has a data-cs-id attribute. Always refer to an element by its data-cs-id value and the number of its frame; never write a CSS selector for it.
+
+Respond with a JSON object with these keys:
+- "bannerFound": true if a cookie consent banner is present on the page, false otherwise.
+- "candidates": up to {maxCandidates} buttons that could be the button to click next, ranked from most to least likely. Each candidate is an object with these keys:
+  - "elementId": the data-cs-id of the button, copied exactly.
+  - "frameId": the number of the frame the button is in.
+  - "buttonText": the visible text of the button.
+  - "actionType": what the button does: {actionTypes}. Use "${CmpActionKind.SETTINGS}" for a button that only opens another screen, such as "Manage options".
+  - "confidence": how confident you are that this is the right button for the task, from 0 to 1. Use a low value if you are guessing.
+  - "containerSelector": a CSS selector for the cookie banner element that contains the button, within the same frame and shadow root.
+- "toggles": only if the task asks for purpose toggles, a list of objects with the toggle's "elementId" (its data-cs-id), "frameId", "purpose", and visible "label". Otherwise [].
+
+If no such button can be identified, or the banner has already been dismissed, respond with an empty "candidates" list. If a banner is present but offers no button matching the task (and no button that leads to one), set "bannerFound" to true and "candidates" to [].
+
+Example response:
+{
+  "bannerFound": true,
+  "candidates": [
+    {
+      "elementId": "12",
+      "frameId": 0,
+      "buttonText": "Accept all",
+      "actionType": "${CmpActionKind.ACCEPT}",
+      "confidence": 0.95,
+      "containerSelector": "#cookie-banner"
+    }
+  ],
+  "toggles": []
+}
+`;
+
+/**
+ * Builds the full instruction text for one step of a (possibly multi-step) consent flow.
+ * On later steps, the buttons clicked so far are listed so the model continues the flow
+ * instead of choosing the same button again. When a click did not close the banner, the
+ * failed buttons are listed so the model offers its next-best button instead. Buttons the user
+ * reported as the wrong choice on the site are listed so the model avoids them.
+ * @param policy The user's consent policy, which determines the button to look for.
+ * @param previousButtons The visible text of the buttons clicked in earlier steps, in order.
+ * @param failedButtons The visible text of the buttons that were clicked but left the banner visible.
+ * @param rejectedButtons The visible text of the buttons the user reported as the wrong choice on this site.
+ * @returns The instruction text, ending where the HTML to analyze should be appended.
+ */
+export function buildFindButtonPrompt(policy: ConsentPolicy, previousButtons: string[], failedButtons: string[] = [], rejectedButtons: string[] = []): string {
+  let prompt = FIND_CONSENT_BUTTON_PROMPT
+    .replace('{goal}', POLICY_GOALS[policy])
+    .replace('{maxCandidates}', String(AI_CONFIG.MAX_BUTTON_CANDIDATES))
+    .replace('{actionTypes}', Object.values(CmpActionKind).map(type => `"${type}"`).join(', '));
+  if (previousButtons.length > 0) {
+    const history = previousButtons.map((text, index) => `${index + 1}. "${text}"`).join('\n');
+    prompt += `\nThe following buttons have already been clicked in earlier steps, in this order. The HTML below shows the page as it is now:\n${history}\n`;
+  }
+  if (failedButtons.length > 0) {
+    const failed = failedButtons.map(text => `- "${text}"`).join('\n');
+    prompt += `\nThe following buttons were clicked, but the banner is still visible. Do not choose them again; identify a different button that achieves the same goal, or respond with an empty "candidates" list if there is none:\n${failed}\n`;
+  }
+  if (rejectedButtons.length > 0) {
+    const rejected = rejectedButtons.map(text => `- "${text}"`).join('\n');
+    prompt += `\nThe user reported that clicking the following buttons on this site did not make their choice. Do not choose them; identify the button that does, or respond with an empty "candidates" list if there is none:\n${rejected}\n`;
+  }
+  return `${prompt}\nHTML to analyze:\n---\n`;
+}
 
-Respond with a JSON object containing a single key "selector", which holds a precise CSS selector to uniquely identify this button. The selector must be robust enough for use with document.querySelector().
+/**
+ * The prompt sent with a screenshot of the page when the HTML analysis found no banner, but an
+ * overlay blocks the page (e.g., a banner drawn on a canvas or made of images).
+ * The `{goal}` placeholder is filled in from `POLICY_GOALS` by `buildVisualPrompt`.
+ *
+ * - It describes the two inputs: the screenshot, and an accessibility tree of the overlays, whose
+ *   interactive elements carry the same temporary ids as in the HTML prompt.
+ * - It prefers an element id, which is clicked through the regular safety guard, and asks for the
+ *   button's position in percent of the screenshot as well, for buttons the tree does not list.
+ * - It only asks for a button that completes the choice in one click, as the visual analysis
+ *   does not follow multi-step flows. The response schema in `aiService.ts` enforces the shape.
+ */
+export const FIND_CONSENT_BUTTON_VISUAL_PROMPT = `
+The attached image is a screenshot of the visible part of a webpage, which is blocked by an overlay. {goal}
 
-If no such button can be confidently identified, respond with a JSON object where the "selector" key is null.
+Only a button that completes the choice with a single click counts; do not choose buttons that only open another screen.
+
+Below the instructions is an accessibility tree of the overlays that block the page. Each line names an element's role, its accessible name, and its position as "at (x%, y%)", measured from the top left corner of the screenshot. Interactive elements start with a number in brackets, such as [12]: this is the element's id. The tree may be incomplete, for example for banners drawn on a canvas.
+
+Respond with a JSON object with these keys:
+- "bannerFound": true if the screenshot shows a cookie consent banner, false otherwise.
+- "elementId": the id of the button from the accessibility tree, without brackets, or "" if the button is not listed in the tree.
+- "x" and "y": the center of the button on the screenshot, in percent of the screenshot's width and height (from 0 to 100).
+- "buttonText": the visible text of the button.
+- "actionType": what the button does: {actionTypes}.
+- "confidence": how confident you are that this is the right button for the task, from 0 to 1. Use a low value if you are guessing.
+
+If there is no such button, respond with "confidence" 0 and "buttonText" "". If a banner is visible but offers no button matching the task, set "bannerFound" to true and "confidence" to 0.
 
 Example response:
 {
-  "selector": "#cookie-accept-button-id"
+  "bannerFound": true,
+  "elementId": "",
+  "x": 62,
+  "y": 81,
+  "buttonText": "Accept all",
+  "actionType": "${CmpActionKind.ACCEPT}",
+  "confidence": 0.9
 }
+`;
 
-HTML to analyze:
----
-`;
\ No newline at end of file
+/**
+ * Builds the full instruction text for the visual analysis.
+ * @param policy The user's consent policy, which determines the button to look for. The custom
+ *               policy needs a preference center, so it is not supported by the visual analysis.
+ * @param tree The accessibility-tree text of the overlays that block the page.
+ * @returns The instruction text, followed by the tree.
+ */
+export function buildVisualPrompt(policy: ConsentPolicy, tree: string): string {
+  const prompt = FIND_CONSENT_BUTTON_VISUAL_PROMPT
+    .replace('{goal}', POLICY_GOALS[policy])
+    .replace('{actionTypes}', Object.values(CmpActionKind).filter(type => type !== CmpActionKind.SETTINGS).map(type => `"${type}"`).join(', '));
+  return `${prompt}\nAccessibility tree:\n---\n${tree || '(empty)'}`;
+}
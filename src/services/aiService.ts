@@ -0,0 +1,557 @@
+
+import { OperatingMode, ErrorCode, AppError, ConsentAnalysis, ConsentPolicy, ConsentPurpose, ElementTarget, ToggleAction, ButtonCandidate, CmpActionKind, TaggedElement, AiProviderKind, ProviderConfig, ModelSettings, ModelOptions, ModelTier, TokenUsage, PageScreenshot, VisualAnalysis } from "../types";
+import { getRemoteConfig, RemoteConfig } from "./configService";
+import * as settingsService from "./settingsService";
+import * as usageService from "./usageService";
+import { buildFindButtonPrompt, buildVisualPrompt } from "../prompts";
+import { AI_CONFIG, EXTRACTION_CONFIG } from "../constants";
+import { AiProvider, AnalysisRequest, AnalysisResponse, ApiKeyError, JsonSchema } from "./providers/aiProvider";
+import { createGeminiProvider } from "./providers/geminiProvider";
+import { createOpenAiCompatibleProvider } from "./providers/openAiProvider";
+import { createOllamaProvider } from "./providers/ollamaProvider";
+
+// This service is responsible for all AI analysis. It picks the AI provider for the
+// user's tier (Gemini with the central key, or the BYOK user's own provider), builds
+// the prompt, and parses the response. The providers themselves live in `providers/`.
+
+/**
+ * A provider together with the model settings it was created with.
+ */
+interface AnalysisClient {
+  provider: AiProvider;
+  options: ModelOptions;
+}
+
+/**
+ * The clients of the escalation cascade. The stronger one is null if escalation is turned off.
+ */
+interface AnalysisClients {
+  [ModelTier.PRIMARY]: AnalysisClient;
+  [ModelTier.ESCALATED]: AnalysisClient | null;
+}
+
+// Module-level cache for the providers. This is a crucial optimization to avoid
+// the overhead of creating new API clients on every single API call.
+let cachedClients: AnalysisClients | null = null;
+// The key used to create the cached providers. If this key changes (e.g., user
+// switches modes or updates their API key, provider, or model settings), the cache must be invalidated.
+let cachedSettingsKey: string | null = null;
+
+/**
+ * Custom error for when the user is on the free tier but has not consented
+ * to data collection and ads.
+ * Inherits from the base AppError.
+ */
+export class ConsentRequiredError extends AppError {
+  constructor(message: string) {
+    super(message, ErrorCode.CONSENT_REQUIRED);
+    this.name = 'ConsentRequiredError';
+  }
+}
+
+/**
+ * Invalidates the cached provider. This function MUST be called whenever
+ * user settings that affect the AI client (like API key, provider, or operating mode) change.
+ * This is handled by a listener in background.ts.
+ */
+export function resetAiInstanceCache() {
+  cachedClients = null;
+  cachedSettingsKey = null;
+  console.log("Cookie Skipper AI: AI client cache invalidated.");
+}
+
+/**
+ * Computes the HTML budget of the stronger model from the first model's budget.
+ */
+function escalatedInputLength(maxInputLength: number): number {
+  return Math.min(maxInputLength * AI_CONFIG.ESCALATION_INPUT_FACTOR, AI_CONFIG.MAX_INPUT_LENGTH);
+}
+
+/**
+ * Combines a BYOK user's provider and generation settings into the options used for analysis,
+ * filling in the provider's default models if none are set. The stronger model of the cascade
+ * gets a larger HTML budget; without an escalation model, the first model is asked again with it.
+ * @param config The provider, base URL, and models.
+ * @param modelSettings The temperature, thinking budget, and maximum input size.
+ * @param tier Which model of the cascade to resolve.
+ */
+function resolveByokOptions(config: ProviderConfig, modelSettings: ModelSettings, tier: ModelTier = ModelTier.PRIMARY): ModelOptions {
+  const defaults = AI_CONFIG.PROVIDER_DEFAULTS[config.kind] ?? AI_CONFIG.PROVIDER_DEFAULTS[AiProviderKind.GEMINI];
+  const primary: ModelOptions = { ...settingsService.DEFAULT_MODEL_SETTINGS, ...modelSettings, model: config.model.trim() || defaults.model };
+  if (tier === ModelTier.PRIMARY) return primary;
+  return {
+    ...primary,
+    model: config.escalationModel?.trim() || defaults.escalationModel || primary.model,
+    maxInputLength: escalatedInputLength(primary.maxInputLength),
+  };
+}
+
+/**
+ * Combines the remote config's model settings for the free and pro tiers with the defaults.
+ * The stronger model inherits the first model's settings unless the server overrides them.
+ * @param remoteConfig The settings chosen by the config server, if any.
+ * @returns The options of both models, the stronger one being null if the server turned escalation off.
+ */
+function resolveCentralOptions(remoteConfig: RemoteConfig): Record<ModelTier, ModelOptions | null> {
+  const primary: ModelOptions = { ...settingsService.DEFAULT_MODEL_SETTINGS, model: AI_CONFIG.MODEL_NAME, ...remoteConfig.modelOptions };
+  const escalated: ModelOptions | null = remoteConfig.escalationOptions && {
+    ...primary,
+    model: AI_CONFIG.ESCALATION_MODEL_NAME,
+    maxInputLength: escalatedInputLength(primary.maxInputLength),
+    ...remoteConfig.escalationOptions,
+  };
+  return { [ModelTier.PRIMARY]: primary, [ModelTier.ESCALATED]: escalated };
+}
+
+/**
+ * Creates the provider for a BYOK configuration, filling in the provider's default base URL if none is set.
+ * @param config The provider, base URL, and model.
+ * @param apiKey The user's API key. Only Gemini requires one.
+ * @param options The model and generation settings.
+ * @throws An ApiKeyError if the provider requires a key and none is given.
+ */
+function createProvider(config: ProviderConfig, apiKey: string | undefined, options: ModelOptions): AiProvider {
+  const defaults = AI_CONFIG.PROVIDER_DEFAULTS[config.kind] ?? AI_CONFIG.PROVIDER_DEFAULTS[AiProviderKind.GEMINI];
+  const baseUrl = config.baseUrl.trim() || defaults.baseUrl;
+
+  switch (config.kind) {
+    case AiProviderKind.OPENAI_COMPATIBLE:
+      return createOpenAiCompatibleProvider(baseUrl, apiKey, options);
+    case AiProviderKind.OLLAMA:
+      return createOllamaProvider(baseUrl, options);
+    case AiProviderKind.GEMINI:
+    default:
+      if (!apiKey) throw new ApiKeyError("API Key not found. Please set it in the extension options.");
+      return createGeminiProvider(apiKey, options);
+  }
+}
+
+/**
+ * Returns the AI providers and model settings of the escalation cascade for the user's current
+ * operating mode: the user's own for BYOK, and those from the remote config for the free and pro tiers.
+ * This function intelligently caches the providers and only re-creates them if settings have changed,
+ * which is critical for performance.
+ * @returns A promise that resolves to the configured providers with their model settings.
+ * @throws An ApiKeyError if the user's key is missing/invalid.
+ * @throws A ConsentRequiredError if the user is on the free tier but hasn't consented.
+ * @throws An AppError if the central API key cannot be fetched.
+ */
+async function getAnalysisClients(): Promise<AnalysisClients> {
+  const settings = await settingsService.getSettings();
+
+  // Enforce the consent requirement for the free tier.
+  if (settings.mode === OperatingMode.FREE_AD_SUPPORTED && !settings.consent) {
+    throw new ConsentRequiredError("For the free service, consent is required. Please enable it in the extension's options.");
+  }
+
+  // For Pro and Free tiers, fetch the central API key and model settings from our secure server
+  // (they are cached in session storage). For BYOK mode, use the user's own provider, key, and settings.
+  const isCentral = settings.mode === OperatingMode.PRO || settings.mode === OperatingMode.FREE_AD_SUPPORTED;
+  const remoteConfig = isCentral ? await getRemoteConfig() : null;
+  const apiKey = remoteConfig ? remoteConfig.apiKey : settings.userKey;
+  const options: Record<ModelTier, ModelOptions | null> = remoteConfig
+    ? resolveCentralOptions(remoteConfig)
+    : {
+      [ModelTier.PRIMARY]: resolveByokOptions(settings.providerConfig, settings.modelSettings),
+      [ModelTier.ESCALATED]: resolveByokOptions(settings.providerConfig, settings.modelSettings, ModelTier.ESCALATED),
+    };
+
+  // The cache key combines all settings that could require new client instances,
+  // including the central key and model settings, so a change on the server is picked up.
+  const providerKey = isCentral ? 'central' : JSON.stringify(settings.providerConfig);
+  const currentSettingsKey = `${settings.mode}:${settings.consent}:${apiKey}:${providerKey}:${JSON.stringify(options)}`;
+  if (cachedClients && cachedSettingsKey === currentSettingsKey) {
+    return cachedClients;
+  }
+
+  /**
+   * Creates the provider for one model of the cascade. The free and pro tiers always use Gemini.
+   */
+  const createClient = (modelOptions: ModelOptions): AnalysisClient => {
+    let provider: AiProvider;
+    switch (settings.mode) {
+      case OperatingMode.PRO:
+        if (!apiKey) throw new AppError("Central API Key could not be fetched for the PRO service.", ErrorCode.CONFIG_FETCH_FAILED);
+        provider = createGeminiProvider(apiKey, modelOptions);
+        break;
+
+      case OperatingMode.FREE_AD_SUPPORTED:
+        if (!apiKey) throw new AppError("Central API Key could not be fetched for the free service.", ErrorCode.CONFIG_FETCH_FAILED);
+        provider = createGeminiProvider(apiKey, modelOptions);
+        break;
+
+      case OperatingMode.BYOK:
+      default:
+        provider = createProvider(settings.providerConfig, apiKey, modelOptions);
+        break;
+    }
+    return { provider, options: modelOptions };
+  };
+
+  const escalatedOptions = options[ModelTier.ESCALATED];
+  // --- Cache the newly created providers ---
+  cachedClients = {
+    [ModelTier.PRIMARY]: createClient(options[ModelTier.PRIMARY]!),
+    [ModelTier.ESCALATED]: escalatedOptions ? createClient(escalatedOptions) : null,
+  };
+  cachedSettingsKey = currentSettingsKey;
+
+  return cachedClients;
+}
+
+/**
+ * Checks that a BYOK user's monthly budget still allows an AI call. The other tiers cost the user nothing.
+ * @param settings The user's settings.
+ * @throws {AppError} With `BUDGET_EXCEEDED` if the estimated cost of this month's calls has reached the cap.
+ */
+async function ensureWithinBudget(settings: settingsService.UserSettings): Promise<void> {
+  if (settings.mode !== OperatingMode.BYOK || settings.monthlyBudgetUsd === null) return;
+  const { month } = await usageService.getUsageSummary();
+  if (month.estimatedCostUsd >= settings.monthlyBudgetUsd) {
+    throw new AppError(`Your monthly AI budget of $${settings.monthlyBudgetUsd.toFixed(2)} is used up. Until next month, only built-in rules and learned sites are handled.`, ErrorCode.BUDGET_EXCEEDED);
+  }
+}
+
+/**
+ * Records the usage of a BYOK user's AI call. A storage failure is logged but never fails the scan.
+ */
+async function trackUsage(settings: settingsService.UserSettings, model: string, usage: TokenUsage): Promise<void> {
+  if (settings.mode !== OperatingMode.BYOK) return;
+  try {
+    await usageService.recordUsage(model, usage);
+  } catch (error) {
+    console.warn("Cookie Skipper AI: Could not record the AI usage:", error);
+  }
+}
+
+/**
+ * Sends an analysis request to the model of the given tier, after checking the BYOK budget,
+ * and records the call's usage.
+ * @param tier Which model of the escalation cascade to ask. Without a stronger model, the first one is asked.
+ * @param buildRequest Builds the request for the chosen model's settings (e.g., its input size).
+ * @returns The model's response and the model's name.
+ * @throws An AppError for auth issues, an exceeded budget, or API failures.
+ */
+async function runAnalysis(tier: ModelTier, buildRequest: (options: ModelOptions) => AnalysisRequest): Promise<AnalysisResponse & { model: string }> {
+  try {
+    const settings = await settingsService.getSettings();
+    await ensureWithinBudget(settings);
+    const clients = await getAnalysisClients();
+    const { provider, options } = clients[tier] ?? clients[ModelTier.PRIMARY];
+    const response = await provider.analyzeBanner(buildRequest(options));
+    // The call is paid for even if its response turns out to be invalid, so it is recorded first.
+    await trackUsage(settings, options.model, response.usage);
+    return { ...response, model: options.model };
+
+  } catch (error) {
+    console.error("Error during AI analysis:", error);
+    // Re-throw our custom errors directly so they can be handled properly by the caller.
+    if (error instanceof AppError) {
+        throw error;
+    }
+    // For any other unexpected errors, wrap them in our base AppError for consistent handling.
+    throw new AppError("An unexpected error occurred during AI analysis.", ErrorCode.GENERIC_ANALYSIS_ERROR);
+  }
+}
+
+/**
+ * Returns the maximum number of characters of page HTML to send to each model of the cascade,
+ * so the extraction can fill the same budget. Falls back to the default (and no escalation) if
+ * the settings cannot be resolved (e.g., the config server is unreachable); the analysis itself
+ * reports such errors.
+ * @returns The budget of each model, the stronger one being null if escalation is turned off.
+ */
+export async function getInputBudgets(): Promise<Record<ModelTier, number | null>> {
+  try {
+    const clients = await getAnalysisClients();
+    return {
+      [ModelTier.PRIMARY]: clients[ModelTier.PRIMARY].options.maxInputLength,
+      [ModelTier.ESCALATED]: clients[ModelTier.ESCALATED]?.options.maxInputLength ?? null,
+    };
+  } catch (error) {
+    return { [ModelTier.PRIMARY]: EXTRACTION_CONFIG.MAX_HTML_LENGTH, [ModelTier.ESCALATED]: null };
+  }
+}
+
+/**
+ * The action types that can carry out each consent policy. Candidates of any other type are
+ * dropped, so a button that contradicts the user's choice is never clicked (e.g., "Accept all"
+ * when the user rejects). A settings button is allowed wherever the choice may be on a second screen.
+ */
+const POLICY_ACTION_TYPES: Record<ConsentPolicy, CmpActionKind[]> = {
+  [ConsentPolicy.ACCEPT_ALL]: [CmpActionKind.ACCEPT, CmpActionKind.SETTINGS],
+  [ConsentPolicy.REJECT_ALL]: [CmpActionKind.REJECT, CmpActionKind.SETTINGS, CmpActionKind.SAVE],
+  [ConsentPolicy.DISMISS]: [CmpActionKind.CLOSE],
+  [ConsentPolicy.CUSTOM]: [CmpActionKind.SETTINGS, CmpActionKind.SAVE],
+};
+
+/**
+ * The schema of an element reference in the AI's response: the element's temporary
+ * `data-cs-id` and the frame it is in.
+ */
+const ELEMENT_SCHEMA_PROPERTIES: Record<string, JsonSchema> = {
+  elementId: { type: 'string' },
+  frameId: { type: 'integer' },
+};
+
+/**
+ * The JSON Schema passed to the provider, which makes the model return JSON of exactly this
+ * shape. It mirrors the format described in the prompt (see `prompts.ts`).
+ */
+const CONSENT_RESPONSE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    bannerFound: { type: 'boolean' },
+    candidates: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          ...ELEMENT_SCHEMA_PROPERTIES,
+          buttonText: { type: 'string' },
+          actionType: { type: 'string', enum: Object.values(CmpActionKind) },
+          confidence: { type: 'number', minimum: 0, maximum: 1 },
+          containerSelector: { type: 'string' },
+        },
+        required: ['elementId', 'frameId', 'buttonText', 'actionType', 'confidence', 'containerSelector'],
+      },
+    },
+    toggles: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          ...ELEMENT_SCHEMA_PROPERTIES,
+          purpose: { type: 'string', enum: Object.values(ConsentPurpose) },
+          label: { type: 'string' },
+        },
+        required: ['elementId', 'frameId', 'purpose', 'label'],
+      },
+    },
+  },
+  required: ['bannerFound', 'candidates', 'toggles'],
+};
+
+/**
+ * Resolves an element reference from the AI's response to an `ElementTarget`, by looking up
+ * its temporary id among the elements tagged by the extraction of its frame. The frame is
+ * optional and defaults to the top-level document.
+ * @param raw An object from the parsed response with `elementId` and `frameId` keys.
+ * @param elements The tagged elements of every extracted frame, keyed by frame ID.
+ * @returns The target, or null if the id does not name a tagged element in that frame.
+ */
+function parseElementTarget(raw: any, elements: Map<number, Record<string, TaggedElement>>): ElementTarget | null {
+  if (!raw || typeof raw.elementId !== 'string') return null;
+  const frameId = Number.isInteger(raw.frameId) ? raw.frameId : 0;
+  const elementId = raw.elementId.trim();
+  const tagged = elements.get(frameId)?.[elementId];
+  if (!tagged) return null;
+  return { frameId, shadowHostPath: tagged.shadowHostPath, selector: tagged.selector, elementId };
+}
+
+/**
+ * Validates the purpose toggles from the AI's response, dropping any entry without
+ * a known element id or with a purpose that is not one of ours.
+ * @param raw The `toggles` value from the parsed response.
+ * @param elements The tagged elements of every extracted frame, keyed by frame ID.
+ */
+function parseToggles(raw: unknown, elements: Map<number, Record<string, TaggedElement>>): ToggleAction[] {
+  if (!Array.isArray(raw)) return [];
+  const purposes = Object.values(ConsentPurpose) as string[];
+  return raw.flatMap(toggle => {
+    const target = parseElementTarget(toggle, elements);
+    if (!target || !purposes.includes(toggle.purpose)) return [];
+    return [{ target, purpose: toggle.purpose as ConsentPurpose, label: typeof toggle.label === 'string' ? toggle.label : '' }];
+  });
+}
+
+/**
+ * Validates the button candidates from the AI's response against the schema, dropping any
+ * entry without a known element id, a known action type, or a numeric confidence.
+ * @param raw The `candidates` value from the parsed response.
+ * @param elements The tagged elements of every extracted frame, keyed by frame ID.
+ * @returns The valid candidates, ranked by confidence (highest first). Toggles are not attached yet.
+ */
+function parseCandidates(raw: unknown, elements: Map<number, Record<string, TaggedElement>>): ButtonCandidate[] {
+  if (!Array.isArray(raw)) return [];
+  const actionTypes = Object.values(CmpActionKind) as string[];
+  return raw.flatMap(candidate => {
+    const target = parseElementTarget(candidate, elements);
+    if (!target || !actionTypes.includes(candidate.actionType) || typeof candidate.confidence !== 'number' || isNaN(candidate.confidence)) return [];
+    const actionType = candidate.actionType as CmpActionKind;
+    return [{
+      action: {
+        target,
+        buttonText: typeof candidate.buttonText === 'string' ? candidate.buttonText : '',
+        // Only a settings button leads to another screen; every other button completes the choice.
+        isFinalStep: actionType !== CmpActionKind.SETTINGS,
+        toggles: [],
+      },
+      actionType,
+      confidence: Math.min(Math.max(candidate.confidence, 0), 1),
+      containerSelector: typeof candidate.containerSelector === 'string' ? candidate.containerSelector : '',
+    }];
+  }).sort((a, b) => b.confidence - a.confidence);
+}
+
+/**
+ * Parses and validates the AI's JSON response against the expected schema.
+ * @param text The raw response text.
+ * @param policy The user's consent policy, which determines the acceptable action types and whether toggles apply.
+ * @param elements The tagged elements of every extracted frame, keyed by frame ID.
+ * @returns The analysis, with the best candidate as the action if it is confident enough.
+ * @throws {AppError} With `INVALID_AI_RESPONSE` if the response is not JSON of the expected shape.
+ */
+function parseConsentResponse(text: string, policy: ConsentPolicy, elements: Map<number, Record<string, TaggedElement>>): Omit<ConsentAnalysis, 'model' | 'usage'> {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    throw new AppError("The AI returned a response that is not valid JSON.", ErrorCode.INVALID_AI_RESPONSE);
+  }
+  if (!parsed || typeof parsed !== 'object' || typeof parsed.bannerFound !== 'boolean' || !Array.isArray(parsed.candidates)) {
+    throw new AppError("The AI returned a response that does not match the expected format.", ErrorCode.INVALID_AI_RESPONSE);
+  }
+
+  const allowedTypes = POLICY_ACTION_TYPES[policy];
+  const candidates = parseCandidates(parsed.candidates, elements)
+    .filter(candidate => allowedTypes.includes(candidate.actionType))
+    .slice(0, AI_CONFIG.MAX_BUTTON_CANDIDATES);
+  const [best] = candidates;
+  if (best) {
+    // Toggles are only meaningful when the user chose to set purposes individually. They belong
+    // to the screen as a whole, so they are set before the best candidate is clicked.
+    best.action.toggles = policy === ConsentPolicy.CUSTOM ? parseToggles(parsed.toggles, elements) : [];
+  }
+  const isConfident = !!best && best.confidence >= AI_CONFIG.MIN_CONFIDENCE;
+
+  return {
+    // A candidate implies a banner, even if the model omitted the flag.
+    bannerFound: parsed.bannerFound || !!best,
+    action: isConfident ? best.action : null,
+    lowConfidence: !!best && !isConfident,
+    candidates,
+  };
+}
+
+/**
+ * Analyzes the given HTML to find the next button to click for the user's consent policy.
+ * @param html The minimized HTML produced by the in-page extraction step, covering all frames.
+ * @param policy The user's consent policy (accept all, reject all, or dismiss).
+ * @param elements The elements tagged with a temporary id by the extraction, keyed by frame ID.
+ *                 The AI names elements by these ids, so every answer resolves to exactly one element.
+ * @param previousButtons The visible text of the buttons clicked in earlier steps of this scan.
+ * @param failedButtons The visible text of the buttons that were clicked but left the banner visible.
+ * @param tier Which model of the escalation cascade to ask. Without a stronger model, the first one is asked.
+ * @param rejectedButtons The visible text of the buttons the user reported as the wrong choice on this site.
+ * @returns A promise that resolves to the next action (or null if there is nothing to click or the
+ *          AI is not confident enough), the ranked candidates, whether a banner was found at all,
+ *          and the model that answered.
+ * @throws An AppError for auth issues, an exceeded budget, an invalid response, or other API failures.
+ */
+export async function findConsentAction(html: string, policy: ConsentPolicy, elements: Map<number, Record<string, TaggedElement>>, previousButtons: string[] = [], failedButtons: string[] = [], tier: ModelTier = ModelTier.PRIMARY, rejectedButtons: string[] = []): Promise<ConsentAnalysis> {
+  // Construct the full prompt by combining the instruction (including the step history) with the page HTML.
+  // The extraction step already respects the size budget; truncating here is only a safeguard.
+  const { text, usage, model } = await runAnalysis(tier, options => ({
+    prompt: `${buildFindButtonPrompt(policy, previousButtons, failedButtons, rejectedButtons)}${html.substring(0, options.maxInputLength)}`,
+    responseSchema: CONSENT_RESPONSE_SCHEMA,
+  }));
+  return { ...parseConsentResponse(text, policy, elements), model, usage };
+}
+
+/**
+ * The JSON Schema of the visual analysis' response. It mirrors the format described in the
+ * visual prompt (see `prompts.ts`).
+ */
+const VISUAL_RESPONSE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    bannerFound: { type: 'boolean' },
+    elementId: { type: 'string' },
+    x: { type: 'number', minimum: 0, maximum: 100 },
+    y: { type: 'number', minimum: 0, maximum: 100 },
+    buttonText: { type: 'string' },
+    actionType: { type: 'string', enum: Object.values(CmpActionKind).filter(type => type !== CmpActionKind.SETTINGS) },
+    confidence: { type: 'number', minimum: 0, maximum: 1 },
+  },
+  required: ['bannerFound', 'elementId', 'x', 'y', 'buttonText', 'actionType', 'confidence'],
+};
+
+/**
+ * Parses and validates the visual analysis' JSON response. The button must carry out the user's
+ * policy in one click; it is identified by its element if the tree lists it, and by its position otherwise.
+ * @param text The raw response text.
+ * @param policy The user's consent policy, which determines the acceptable action types.
+ * @param elements The elements of the top-level frame tagged by the visual probe.
+ * @throws {AppError} With `INVALID_AI_RESPONSE` if the response is not JSON of the expected shape.
+ */
+function parseVisualResponse(text: string, policy: ConsentPolicy, elements: Record<string, TaggedElement>): Omit<VisualAnalysis, 'model' | 'usage'> {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    throw new AppError("The AI returned a response that is not valid JSON.", ErrorCode.INVALID_AI_RESPONSE);
+  }
+  if (!parsed || typeof parsed !== 'object' || typeof parsed.bannerFound !== 'boolean' || typeof parsed.confidence !== 'number') {
+    throw new AppError("The AI returned a response that does not match the expected format.", ErrorCode.INVALID_AI_RESPONSE);
+  }
+
+  const target = parseElementTarget(parsed, new Map([[0, elements]]));
+  const isOnScreen = (value: unknown): value is number => typeof value === 'number' && value >= 0 && value <= 100;
+  const point = isOnScreen(parsed.x) && isOnScreen(parsed.y) ? { x: parsed.x, y: parsed.y } : null;
+  const isAllowed = POLICY_ACTION_TYPES[policy].filter(type => type !== CmpActionKind.SETTINGS).includes(parsed.actionType);
+  const hasButton = isAllowed && parsed.confidence > 0 && (!!target || !!point);
+  const isConfident = hasButton && parsed.confidence >= AI_CONFIG.MIN_CONFIDENCE;
+
+  return {
+    bannerFound: parsed.bannerFound || hasButton,
+    action: isConfident
+      ? { target, point: target ? null : point, buttonText: typeof parsed.buttonText === 'string' ? parsed.buttonText : '' }
+      : null,
+    lowConfidence: hasButton && !isConfident,
+  };
+}
+
+/**
+ * Analyzes a screenshot of the page to find the button to click for the user's consent policy.
+ * This is the fallback for banners whose HTML is useless to the model (e.g., drawn on a canvas).
+ * @param screenshot The screenshot of the visible part of the tab.
+ * @param tree The accessibility-tree text of the overlays that block the page.
+ * @param policy The user's consent policy. The custom policy is not supported.
+ * @param elements The elements of the top-level frame tagged by the visual probe, which the tree refers to by id.
+ * @param tier Which model of the escalation cascade to ask. The model must accept images.
+ * @returns A promise that resolves to the button to click (or null), whether a banner was seen, and the model that answered.
+ * @throws An AppError for auth issues, an exceeded budget, an invalid response, or other API failures.
+ */
+export async function findVisualConsentAction(screenshot: PageScreenshot, tree: string, policy: ConsentPolicy, elements: Record<string, TaggedElement>, tier: ModelTier = ModelTier.PRIMARY): Promise<VisualAnalysis> {
+  const { text, usage, model } = await runAnalysis(tier, () => ({
+    prompt: buildVisualPrompt(policy, tree),
+    responseSchema: VISUAL_RESPONSE_SCHEMA,
+    image: screenshot,
+  }));
+  return { ...parseVisualResponse(text, policy, elements), model, usage };
+}
+
+/**
+ * Performs a lightweight test call to a provider to validate the given settings and API key.
+ * This provides immediate feedback to the user on the options page.
+ * @param config The provider, base URL, and model to test.
+ * @param apiKey The API key to test. Only Gemini requires one.
+ * @param modelSettings The generation settings to test, as some models reject some settings.
+ * @throws {ApiKeyError} If a required key is empty or the provider rejects it.
+ * @throws {AppError} If the provider cannot be reached.
+ */
+export async function testApiKey(config: ProviderConfig, apiKey: string, modelSettings: ModelSettings): Promise<void> {
+  await createProvider(config, apiKey || undefined, resolveByokOptions(config, modelSettings)).testCredentials();
+}
+
+/**
+ * Lists the models a provider offers, so the user can pick one on the options page.
+ * @param config The provider and base URL to query.
+ * @param apiKey The API key. Only Gemini requires one.
+ * @returns The model names, sorted alphabetically.
+ */
+export async function listProviderModels(config: ProviderConfig, apiKey: string): Promise<string[]> {
+  const models = await createProvider(config, apiKey || undefined, resolveByokOptions(config, settingsService.DEFAULT_MODEL_SETTINGS)).listModels();
+  return [...models].sort();
+}
@@ -1,6 +1,6 @@
 
 import * as settingsService from './settingsService';
-import { OperatingMode } from '../types';
+import { OperatingMode, ModelTier } from '../types';
 import { API_URLS } from '../constants';
 
 // This service is responsible for sending anonymized analytics data to a remote
@@ -17,6 +17,8 @@ interface BasePayload {
 
 interface SuccessPayload extends BasePayload {
     selector: string | null; // The CSS selector found by the AI.
+    model?: string;          // The model whose answer was clicked, for AI results.
+    modelTier?: ModelTier;   // Whether that model was the first or the stronger one of the cascade.
 }
 
 interface ErrorPayload extends BasePayload {
@@ -73,6 +75,20 @@ export async function trackScanNotFound(payload: BasePayload): Promise<void> {
     await sendEvent('scan_result', { ...payload, status: 'not_found' });
 }
 
+/**
+ * Tracks a scan where a button was clicked but the banner was still visible afterwards.
+ */
+export async function trackScanPersisted(payload: SuccessPayload): Promise<void> {
+    await sendEvent('scan_result', { ...payload, status: 'persisted' });
+}
+
+/**
+ * Tracks a scan where a banner was found, but no button was clicked because the AI was not confident enough.
+ */
+export async function trackScanLowConfidence(payload: BasePayload): Promise<void> {
+    await sendEvent('scan_result', { ...payload, status: 'low_confidence' });
+}
+
 /**
  * Tracks a scan that resulted in an error.
  */
@@ -1,44 +1,70 @@
 
-import { API_URLS, STORAGE_KEYS, CACHE_CONFIG } from '../constants';
-import { AppError, ErrorCode } from '../types';
+import { API_URLS, STORAGE_KEYS, CACHE_CONFIG, AI_CONFIG } from '../constants';
+import { AppError, ErrorCode, ModelOptions } from '../types';
 
-// This service is responsible for fetching remote configuration, specifically the
-// central API key used for the "Free" and "Pro" tiers.
+// This service is responsible for fetching remote configuration: the central API key
+// used for the "Free" and "Pro" tiers, and the model settings those tiers use.
 
 /**
- * Defines the structure of the API key cache entry stored in session storage.
+ * The remote configuration for the "Free" and "Pro" tiers.
  */
-interface ApiKeyCache {
-  key: string;
-  timestamp: number; // The time when the key was fetched, used for cache invalidation.
+export interface RemoteConfig {
+  apiKey: string;
+  // The model settings chosen by the server. Settings it leaves out use the extension's defaults.
+  modelOptions: Partial<ModelOptions>;
+  // The settings of the stronger model of the escalation cascade, or null if the server turned escalation off.
+  escalationOptions: Partial<ModelOptions> | null;
 }
 
 /**
- * Fetches the central API key from a remote configuration server.
- * This approach is more secure and flexible than hardcoding the key in the extension,
- * as it allows the key to be rotated on the server without needing to publish a new
-- * version of the extension.
+ * Defines the structure of the config cache entry stored in session storage.
+ */
+interface RemoteConfigCache {
+  config: RemoteConfig;
+  timestamp: number; // The time when the config was fetched, used for cache invalidation.
+}
+
+/**
+ * Picks the valid model settings from the server's response, ignoring missing or malformed values,
+ * so a mistake on the server cannot break the analysis.
+ * @param raw The parsed config response.
+ */
+function parseModelOptions(raw: any): Partial<ModelOptions> {
+  const options: Partial<ModelOptions> = {};
+  if (!raw || typeof raw !== 'object') return options;
+  if (typeof raw.model === 'string' && raw.model.trim()) options.model = raw.model.trim();
+  if (typeof raw.temperature === 'number' && raw.temperature >= 0) options.temperature = raw.temperature;
+  if (Number.isInteger(raw.thinkingBudget) && raw.thinkingBudget >= 0) options.thinkingBudget = raw.thinkingBudget;
+  if (Number.isInteger(raw.maxInputLength) && raw.maxInputLength > 0) options.maxInputLength = raw.maxInputLength;
+  return options;
+}
+
+/**
+ * Fetches the remote configuration from the configuration server.
+ * This approach is more secure and flexible than hardcoding the key and model in the extension,
+ * as it allows the key to be rotated (or the model to be replaced) on the server without
+ * needing to publish a new version of the extension.
  *
- * It implements caching in `chrome.storage.session` to avoid fetching the key
+ * It implements caching in `chrome.storage.session` to avoid fetching the config
  * on every single request, which would be inefficient. Session storage is used
  * because it's fast (in-memory) and persists for the lifetime of a browser session.
- * 
+ *
  * It also supports a local override via an environment variable for easier development.
- * 
- * @returns {Promise<string>} The central API key.
- * @throws {AppError} If the key cannot be fetched or the response is invalid.
+ *
+ * @returns {Promise<RemoteConfig>} The central API key and model settings.
+ * @throws {AppError} If the config cannot be fetched or the response is invalid.
  */
-export async function getCentralApiKey(): Promise<string> {
+export async function getRemoteConfig(): Promise<RemoteConfig> {
   // --- Development Override ---
   // Check for a local environment variable. This is extremely useful for local development
   // as it allows testing the "Free" and "Pro" tiers without a live config server.
   // The `import.meta.env` object is populated by build tools like Vite.
   if (import.meta.env.DEV && import.meta.env.VITE_CENTRAL_API_KEY) {
     console.log("Cookie Skipper AI: Using local override for central API key.");
-    return import.meta.env.VITE_CENTRAL_API_KEY;
+    return { apiKey: import.meta.env.VITE_CENTRAL_API_KEY, modelOptions: {}, escalationOptions: {} };
   }
 
-  // Step 1: Check the session cache for a recent, valid key.
+  // Step 1: Check the session cache for a recent, valid config.
   try {
     const cachedData = await new Promise<{ [key: string]: any }>((resolve, reject) => {
       chrome.storage.session.get(STORAGE_KEYS.CENTRAL_API_KEY_CACHE, (items) => {
@@ -48,39 +74,57 @@ export async function getCentralApiKey(): Promise<string> {
         resolve(items);
       });
     });
-    
+
     const cacheEntry = cachedData[STORAGE_KEYS.CENTRAL_API_KEY_CACHE];
-    if (cacheEntry) {
-      const { key, timestamp } = cacheEntry as ApiKeyCache;
+    // Entries written by older versions lack some fields, so they are refetched.
+    if (cacheEntry?.config && 'escalationOptions' in cacheEntry.config) {
+      const { config, timestamp } = cacheEntry as RemoteConfigCache;
       if (Date.now() - timestamp < CACHE_CONFIG.CENTRAL_API_KEY_TTL_MS) {
-        return key;
+        return config;
       }
     }
   } catch (e) {
-    console.warn("Cookie Skipper AI: Could not read API key from session cache", e);
+    console.warn("Cookie Skipper AI: Could not read the config from session cache", e);
   }
 
-  // Step 2: If the cache is empty or stale, fetch the key from the remote server.
+  // Step 2: If the cache is empty or stale, fetch the config from the remote server.
+  // The fetch is aborted if the server is too slow, like every request to an AI provider.
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), AI_CONFIG.REQUEST_TIMEOUT_MS);
   try {
-    const response = await fetch(API_URLS.CONFIG);
+    const response = await fetch(API_URLS.CONFIG, { signal: controller.signal });
     if (!response.ok) {
         throw new AppError(`Failed to fetch config, status: ${response.status}`, ErrorCode.CONFIG_FETCH_FAILED);
     }
 
-    const config = await response.json();
-    const apiKey = config.apiKey;
+    const rawConfig = await response.json();
+    const apiKey = rawConfig.apiKey;
 
     if (typeof apiKey !== 'string' || !apiKey) {
         throw new AppError('Invalid API key format received from config server.', ErrorCode.CONFIG_FETCH_FAILED);
     }
-    
-    const newCacheEntry: ApiKeyCache = { key: apiKey, timestamp: Date.now() };
+
+    const config: RemoteConfig = {
+      apiKey,
+      modelOptions: parseModelOptions(rawConfig),
+      // The stronger model's settings are in an `escalation` object; `"escalation": false` turns escalation off.
+      escalationOptions: rawConfig.escalation === false ? null : parseModelOptions(rawConfig.escalation ?? {}),
+    };
+    const newCacheEntry: RemoteConfigCache = { config, timestamp: Date.now() };
     await chrome.storage.session.set({ [STORAGE_KEYS.CENTRAL_API_KEY_CACHE]: newCacheEntry });
 
-    return apiKey;
+    return config;
   } catch (error) {
-     console.error("Cookie Skipper AI: Central API key fetch failed.", error);
+     console.error("Cookie Skipper AI: Central config fetch failed.", error);
      if (error instanceof AppError) throw error;
+     if (controller.signal.aborted) {
+       throw new AppError("The config server did not answer in time.", ErrorCode.REQUEST_TIMEOUT);
+     }
+     if (navigator.onLine === false) {
+       throw new AppError("You appear to be offline. Check your internet connection.", ErrorCode.NETWORK_OFFLINE);
+     }
      throw new AppError("Could not retrieve the central API key for the service.", ErrorCode.CONFIG_FETCH_FAILED);
+  } finally {
+     clearTimeout(timer);
   }
 }
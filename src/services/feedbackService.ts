@@ -0,0 +1,61 @@
+
+import { ClickedElement, ConsentPolicy, WrongClickReport } from '../types';
+import { STORAGE_KEYS, FEEDBACK_CONFIG } from '../constants';
+import { createWriteQueue } from '../utils/writeQueue';
+
+// This service keeps the clicks the user reported as wrong from the popup. A report records
+// the button, where it came from, and the start of the banner's HTML, so the mistake can be
+// understood later. Scans read the reports back to avoid the same button on the same site.
+// The reports live in `chrome.storage.local` and never leave the device.
+
+// Reports from different tabs may be saved at the same time, so the updates take turns.
+const queueWrite = createWriteQueue();
+
+/**
+ * Reads the reports from local storage, newest first.
+ */
+async function readReports(): Promise<WrongClickReport[]> {
+  return new Promise((resolve, reject) => {
+    chrome.storage.local.get(STORAGE_KEYS.WRONG_CLICK_REPORTS, (items) => {
+      if (chrome.runtime.lastError) {
+        return reject(new Error(chrome.runtime.lastError.message));
+      }
+      resolve(items[STORAGE_KEYS.WRONG_CLICK_REPORTS] || []);
+    });
+  });
+}
+
+/**
+ * Writes the reports to local storage, keeping only the newest ones.
+ * @param reports The reports, newest first.
+ */
+async function writeReports(reports: WrongClickReport[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    chrome.storage.local.set({ [STORAGE_KEYS.WRONG_CLICK_REPORTS]: reports.slice(0, FEEDBACK_CONFIG.MAX_REPORTS) }, () => {
+      chrome.runtime.lastError ? reject(chrome.runtime.lastError) : resolve();
+    });
+  });
+}
+
+/**
+ * Saves a click the user reported as wrong.
+ * @param report The report, without its id.
+ */
+export async function recordWrongClick(report: Omit<WrongClickReport, 'id'>): Promise<void> {
+  return queueWrite(async () => {
+    const reports = await readReports();
+    await writeReports([{ id: crypto.randomUUID(), ...report }, ...reports]);
+  });
+}
+
+/**
+ * Returns the buttons the user reported as wrong on a site for a consent policy, so a scan can avoid them.
+ * @param hostname The hostname of the site.
+ * @param policy The consent policy of the scan. A button that is wrong for one choice may be right for another.
+ */
+export async function getWrongClicks(hostname: string, policy: ConsentPolicy): Promise<ClickedElement[]> {
+  const reports = await readReports();
+  return reports
+    .filter(report => report.hostname === hostname && report.policy === policy)
+    .map(report => report.clicked);
+}
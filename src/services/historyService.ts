@@ -0,0 +1,115 @@
+
+import { ScanHistoryEntry } from '../types';
+import { STORAGE_KEYS, HISTORY_CONFIG } from '../constants';
+import { getSettings } from './settingsService';
+import { createWriteQueue } from '../utils/writeQueue';
+
+// This service keeps a record of every finished scan, so the user can look back at what the
+// extension did on which site, long after the tab's in-memory state is gone. The history lives
+// in `chrome.storage.local` and never leaves the device; it is pruned to the retention period
+// the user chose and to a fixed maximum number of entries.
+
+/**
+ * The columns of the CSV export, in order, with the entry field each one is read from.
+ */
+const CSV_COLUMNS: { header: string; value: (entry: ScanHistoryEntry) => string | number }[] = [
+  { header: 'timestamp', value: entry => new Date(entry.timestamp).toISOString() },
+  { header: 'hostname', value: entry => entry.hostname },
+  { header: 'trigger', value: entry => entry.trigger },
+  { header: 'outcome', value: entry => entry.outcome },
+  { header: 'error_code', value: entry => entry.errorCode ?? '' },
+  { header: 'source', value: entry => entry.source ?? '' },
+  { header: 'cmp', value: entry => entry.cmp ?? '' },
+  { header: 'clicked_buttons', value: entry => entry.clickedButtons.join(' > ') },
+  { header: 'action', value: entry => entry.action ?? '' },
+  { header: 'latency_ms', value: entry => entry.latencyMs },
+];
+
+// Scans finishing at the same time in different tabs each add an entry, so the updates take turns.
+const queueWrite = createWriteQueue();
+
+/**
+ * Reads the history from local storage, newest entry first.
+ */
+async function readHistory(): Promise<ScanHistoryEntry[]> {
+  return new Promise((resolve, reject) => {
+    chrome.storage.local.get(STORAGE_KEYS.SCAN_HISTORY, (items) => {
+      if (chrome.runtime.lastError) {
+        return reject(new Error(chrome.runtime.lastError.message));
+      }
+      resolve(items[STORAGE_KEYS.SCAN_HISTORY] || []);
+    });
+  });
+}
+
+/**
+ * Writes the history to local storage, first dropping the entries beyond the retention limits.
+ * @param entries The entries, newest first.
+ * @param retentionDays For how many days entries are kept.
+ */
+async function writeHistory(entries: ScanHistoryEntry[], retentionDays: number): Promise<void> {
+  const oldestKept = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+  const kept = entries
+    .filter(entry => entry.timestamp >= oldestKept)
+    .slice(0, HISTORY_CONFIG.MAX_ENTRIES);
+  return new Promise((resolve, reject) => {
+    chrome.storage.local.set({ [STORAGE_KEYS.SCAN_HISTORY]: kept }, () => {
+      chrome.runtime.lastError ? reject(chrome.runtime.lastError) : resolve();
+    });
+  });
+}
+
+/**
+ * Adds a finished scan to the history.
+ * @param entry The scan's record, without its id.
+ */
+export async function recordScan(entry: Omit<ScanHistoryEntry, 'id'>): Promise<void> {
+  const { historyRetentionDays } = await getSettings();
+  return queueWrite(async () => {
+    const entries = await readHistory();
+    await writeHistory([{ id: crypto.randomUUID(), ...entry }, ...entries], historyRetentionDays);
+  });
+}
+
+/**
+ * Returns the history, newest entry first.
+ */
+export async function getHistory(): Promise<ScanHistoryEntry[]> {
+  return readHistory();
+}
+
+/**
+ * Drops the entries older than a retention period right away, rather than on the next scan.
+ * @param retentionDays For how many days entries are kept.
+ */
+export async function pruneHistory(retentionDays: number): Promise<void> {
+  return queueWrite(async () => writeHistory(await readHistory(), retentionDays));
+}
+
+/**
+ * Deletes the whole history.
+ */
+export async function clearHistory(): Promise<void> {
+  return queueWrite(() => new Promise((resolve, reject) => {
+    chrome.storage.local.remove(STORAGE_KEYS.SCAN_HISTORY, () => {
+      chrome.runtime.lastError ? reject(chrome.runtime.lastError) : resolve();
+    });
+  }));
+}
+
+/**
+ * Formats history entries as CSV, with a header row. Fields are quoted where needed, so
+ * button texts containing commas, quotes, or line breaks survive the round trip.
+ * @param entries The entries to export.
+ */
+export function toCsv(entries: ScanHistoryEntry[]): string {
+  const quote = (field: string | number) => {
+    const text = String(field);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const rows = [
+    CSV_COLUMNS.map(column => column.header),
+    ...entries.map(entry => CSV_COLUMNS.map(column => quote(column.value(entry)))),
+  ];
+  return rows.map(row => row.join(',')).join('\r\n');
+}
@@ -0,0 +1,225 @@
+
+import { AppError, ErrorCode, PageScreenshot, TokenUsage } from '../../types';
+import { AI_CONFIG } from '../../constants';
+
+// This module defines the interface that every AI backend implements, so the rest of the
+// extension can analyze banners without knowing which provider answers. Each provider
+// lives in its own module next to this one and is created by `aiService.ts`.
+
+/**
+ * A JSON Schema object, as accepted by the providers' structured output options.
+ */
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * A single banner analysis request.
+ */
+export interface AnalysisRequest {
+  prompt: string;            // The full prompt, including the page HTML.
+  responseSchema: JsonSchema; // The JSON Schema the response must follow.
+  image?: PageScreenshot;    // A screenshot sent along with the prompt, for the visual analysis. The model must accept images.
+}
+
+/**
+ * The model's answer to an analysis request.
+ */
+export interface AnalysisResponse {
+  text: string;      // The raw JSON response text.
+  usage: TokenUsage; // The tokens the call used, as reported by the provider (zero if it reports none).
+}
+
+/**
+ * The operations every AI provider supports.
+ */
+export interface AiProvider {
+  /**
+   * Sends the prompt to the model and returns its raw JSON response text and token usage.
+   * @throws {ApiKeyError} If the provider rejects the credentials.
+   * @throws {AppError} For any other failure.
+   */
+  analyzeBanner(request: AnalysisRequest): Promise<AnalysisResponse>;
+  /**
+   * Makes a lightweight call to check that the provider can be reached with the configured credentials.
+   * @throws {ApiKeyError} If the provider rejects the credentials.
+   * @throws {AppError} If the provider cannot be reached.
+   */
+  testCredentials(): Promise<void>;
+  /**
+   * Lists the names of the models the provider offers for text generation.
+   */
+  listModels(): Promise<string[]>;
+}
+
+/**
+ * Custom error for API key related issues (missing, invalid, etc.).
+ * Inherits from the base AppError for consistent error handling.
+ */
+export class ApiKeyError extends AppError {
+  constructor(message: string) {
+    super(message, ErrorCode.API_KEY_INVALID);
+    this.name = 'ApiKeyError';
+  }
+}
+
+/**
+ * Custom error for an HTTP error response from a provider, other than an authentication failure.
+ * Keeps the status so a provider can react to specific errors (e.g., retry without an option).
+ */
+export class ProviderRequestError extends AppError {
+  constructor(
+    message: string,
+    public readonly status: number,
+    code: ErrorCode = ErrorCode.GENERIC_ANALYSIS_ERROR,
+    public readonly retryAfterMs: number | null = null // The delay the server asked for before retrying, if any.
+  ) {
+    super(message, code);
+    this.name = 'ProviderRequestError';
+  }
+}
+
+// The errors that may go away on their own, so the request is retried.
+const RETRYABLE_ERRORS = new Set([ErrorCode.RATE_LIMITED, ErrorCode.AI_SERVER_ERROR, ErrorCode.NETWORK_OFFLINE]);
+
+/**
+ * Converts an HTTP error response from a provider into the matching error.
+ * A 429 usually means "slow down", but providers also use it once a quota or the account's
+ * credit is used up, which only the response body tells apart.
+ * @param status The HTTP status.
+ * @param detail The response body or error message, used to recognize an exhausted quota.
+ * @param providerName The provider's display name, used in error messages.
+ * @param retryAfterMs The delay the server asked for before retrying, if any.
+ */
+export function toHttpError(status: number, detail: string, providerName: string, retryAfterMs: number | null = null): AppError {
+  if (status === 401 || status === 403) {
+    return new ApiKeyError(`${providerName} rejected the request (status ${status}). Please check your API key.`);
+  }
+  if (status === 402 || (status === 429 && /insufficient_quota|PerDay|credit balance|billing_hard_limit/i.test(detail))) {
+    return new ProviderRequestError(`Your ${providerName} quota is used up (status ${status}).`, status, ErrorCode.QUOTA_EXHAUSTED);
+  }
+  if (status === 429) {
+    return new ProviderRequestError(`${providerName} is rate limiting requests (status 429).`, status, ErrorCode.RATE_LIMITED, retryAfterMs);
+  }
+  if (status >= 500) {
+    return new ProviderRequestError(`${providerName} had a server error (status ${status}).`, status, ErrorCode.AI_SERVER_ERROR, retryAfterMs);
+  }
+  return new ProviderRequestError(`${providerName} returned an error (status ${status}).`, status);
+}
+
+/**
+ * Creates the error for a provider that could not be reached, telling an offline browser apart.
+ * @param providerName The provider's display name, used in error messages.
+ * @param url The address that could not be reached, if known.
+ */
+export function toNetworkError(providerName: string, url?: string): AppError {
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+    return new AppError("You appear to be offline. Check your internet connection.", ErrorCode.NETWORK_OFFLINE);
+  }
+  return new AppError(`Could not reach ${providerName}${url ? ` at ${url}` : ''}.`, ErrorCode.NETWORK_OFFLINE);
+}
+
+/**
+ * Reads the `Retry-After` header, which gives the delay in seconds or as an HTTP date.
+ */
+function parseRetryAfter(response: Response): number | null {
+  const header = response.headers.get('Retry-After');
+  if (!header) return null;
+  const delayMs = /^\d+$/.test(header.trim()) ? Number(header) * 1000 : Date.parse(header) - Date.now();
+  return Number.isFinite(delayMs) && delayMs > 0 ? delayMs : null;
+}
+
+/**
+ * Waits for the given time, or until the signal aborts.
+ * @returns False if the signal aborted.
+ */
+function wait(ms: number, signal: AbortSignal): Promise<boolean> {
+  return new Promise(resolve => {
+    if (signal.aborted) return resolve(false);
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve(true);
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve(false);
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Runs a request to a provider with an overall timeout, retrying it when it fails in a way that
+ * may go away on its own (rate limiting, a server error, or a network failure). The delay before
+ * each retry grows exponentially and is randomized ("jitter"), unless the server asked for a
+ * specific delay.
+ * @param providerName The provider's display name, used in error messages.
+ * @param operation The request. It must pass the signal on, so the timeout cancels it, and throw AppErrors.
+ * @returns The result of the first successful attempt.
+ * @throws {AppError} With `REQUEST_TIMEOUT` if the request and its retries take longer than the timeout,
+ *                    or the error of the last attempt.
+ */
+export async function withRetries<T>(providerName: string, operation: (signal: AbortSignal) => Promise<T>): Promise<T> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), AI_CONFIG.REQUEST_TIMEOUT_MS);
+  const timeoutError = () => new AppError(`${providerName} did not answer within ${AI_CONFIG.REQUEST_TIMEOUT_MS / 1000} seconds.`, ErrorCode.REQUEST_TIMEOUT);
+  try {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await operation(controller.signal);
+      } catch (error) {
+        // A request cancelled by the timeout fails with whatever error the fetch reports.
+        if (controller.signal.aborted) throw timeoutError();
+        if (!(error instanceof AppError) || !RETRYABLE_ERRORS.has(error.code) || attempt >= AI_CONFIG.MAX_RETRIES) throw error;
+
+        const backoff = Math.min(AI_CONFIG.RETRY_MAX_DELAY_MS, AI_CONFIG.RETRY_BASE_DELAY_MS * 2 ** attempt);
+        const requested = error instanceof ProviderRequestError ? error.retryAfterMs : null;
+        const delay = requested !== null ? Math.min(requested, AI_CONFIG.RETRY_MAX_DELAY_MS) : backoff / 2 + Math.random() * backoff / 2;
+        console.warn(`Cookie Skipper AI: ${error.message} Retrying in ${Math.round(delay)} ms.`);
+        if (!await wait(delay, controller.signal)) throw timeoutError();
+      }
+    }
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Sends a request to a provider's HTTP API and parses the JSON response, with the timeout and
+ * retries of `withRetries`.
+ * @param url The endpoint URL.
+ * @param init The request options.
+ * @param providerName The provider's display name, used in error messages.
+ * @returns The parsed response body.
+ * @throws {ApiKeyError} If the provider answers with 401 or 403.
+ * @throws {ProviderRequestError} If the server answers with any other error, with a code telling rate limiting,
+ *                                an exhausted quota, and server errors apart.
+ * @throws {AppError} With `NETWORK_OFFLINE` if the server cannot be reached, or `REQUEST_TIMEOUT` if it is too slow.
+ */
+export async function fetchProviderJson(url: string, init: RequestInit, providerName: string): Promise<any> {
+  return withRetries(providerName, async (signal) => {
+    let response: Response;
+    try {
+      response = await fetch(url, { ...init, signal });
+    } catch (error) {
+      throw toNetworkError(providerName, url);
+    }
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw toHttpError(response.status, detail, providerName, parseRetryAfter(response));
+    }
+    return response.json();
+  });
+}
+
+/**
+ * Converts a token count reported by a provider to a number, treating a missing count as zero.
+ */
+export function toTokenCount(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+}
+
+/**
+ * Removes trailing slashes from a base URL, so endpoint paths can be appended to it.
+ */
+export function trimBaseUrl(baseUrl: string): string {
+  return baseUrl.trim().replace(/\/+$/, '');
+}
@@ -0,0 +1,121 @@
+
+import { ApiError, GoogleGenAI } from "@google/genai";
+import { AppError, ErrorCode, ModelOptions } from "../../types";
+import { AiProvider, AnalysisRequest, AnalysisResponse, ApiKeyError, toHttpError, toNetworkError, toTokenCount, withRetries } from "./aiProvider";
+
+// This module implements the AI provider interface for Google Gemini, using the official SDK.
+// It is used by the free and pro tiers (with the central key) and by BYOK users who pick Gemini.
+
+const PROVIDER_NAME = 'Gemini';
+
+/**
+ * Wraps an error from the Gemini SDK in one of our errors, recognizing an invalid key,
+ * the HTTP errors the API reports, and network failures.
+ */
+function toAppError(error: unknown): AppError {
+  if (error instanceof AppError) return error;
+  if (error instanceof Error && error.message.includes('API key not valid')) {
+    return new ApiKeyError("Your Gemini API Key is invalid. Please check it in the settings.");
+  }
+  if (error instanceof ApiError) return toHttpError(error.status, error.message, PROVIDER_NAME);
+  // The SDK lets the TypeError of a failed fetch through.
+  if (error instanceof TypeError) return toNetworkError(PROVIDER_NAME);
+  return new AppError("An unexpected error occurred while calling Gemini.", ErrorCode.GENERIC_ANALYSIS_ERROR);
+}
+
+/**
+ * Runs a Gemini SDK call with the timeout and retries of `withRetries`.
+ */
+function callGemini<T>(operation: (signal: AbortSignal) => Promise<T>): Promise<T> {
+  return withRetries(PROVIDER_NAME, async (signal) => {
+    try {
+      return await operation(signal);
+    } catch (error) {
+      throw toAppError(error);
+    }
+  });
+}
+
+/**
+ * Creates a Gemini provider.
+ * @param apiKey The Gemini API key.
+ * @param options The model and generation settings used for analysis.
+ */
+export function createGeminiProvider(apiKey: string, options: ModelOptions): AiProvider {
+  const gemini = new GoogleGenAI({ apiKey });
+  const { model, temperature, thinkingBudget } = options;
+
+  return {
+    async analyzeBanner(request: AnalysisRequest): Promise<AnalysisResponse> {
+      try {
+        const response = await callGemini(abortSignal => gemini.models.generateContent({
+          model,
+          // A screenshot is sent as an inline image part after the text.
+          contents: request.image
+            ? [{ role: 'user', parts: [{ text: request.prompt }, { inlineData: { mimeType: request.image.mimeType, data: request.image.data } }] }]
+            : request.prompt,
+          config: {
+            // Instruct the model to return a JSON object of exactly the expected shape.
+            responseMimeType: "application/json",
+            responseJsonSchema: request.responseSchema,
+            temperature,
+            thinkingConfig: { thinkingBudget },
+            abortSignal
+          }
+        }));
+        const usage = response.usageMetadata;
+        return {
+          text: (response.text ?? '').trim(),
+          // Thinking tokens are billed as output tokens.
+          usage: {
+            promptTokens: toTokenCount(usage?.promptTokenCount),
+            outputTokens: toTokenCount(usage?.candidatesTokenCount) + toTokenCount(usage?.thoughtsTokenCount),
+          },
+        };
+      } catch (error) {
+        console.error("Error calling Gemini API:", error);
+        throw toAppError(error);
+      }
+    },
+
+    async testCredentials(): Promise<void> {
+      try {
+        // A very lightweight, low-token prompt to validate the key and model access.
+        // This minimizes cost for the user. The same settings as for analysis are used,
+        // so a thinking budget the model does not support is reported here.
+        await callGemini(abortSignal => gemini.models.generateContent({
+          model,
+          contents: "test",
+          config: { temperature, thinkingConfig: { thinkingBudget }, abortSignal }
+        }));
+      } catch (error) {
+        console.error("Gemini API key test failed:", error);
+        // Rate limits, quotas, and connection problems say nothing about the key, so they are reported as such.
+        if (error instanceof AppError && error.code !== ErrorCode.GENERIC_ANALYSIS_ERROR && error.code !== ErrorCode.API_KEY_INVALID) {
+          throw error;
+        }
+        // The underlying SDK might throw a generic gRPC error. We'll wrap it in our
+        // custom ApiKeyError to provide a more user-friendly message.
+        throw new ApiKeyError("This API Key appears to be invalid or lacks permissions.");
+      }
+    },
+
+    async listModels(): Promise<string[]> {
+      try {
+        return await callGemini(async (abortSignal) => {
+          const models: string[] = [];
+          for await (const entry of await gemini.models.list({ config: { abortSignal } })) {
+            // Only models that can generate content are usable for analysis.
+            if (entry.name && entry.supportedActions?.includes('generateContent')) {
+              models.push(entry.name.replace(/^models\//, ''));
+            }
+          }
+          return models;
+        });
+      } catch (error) {
+        console.error("Could not list Gemini models:", error);
+        throw toAppError(error);
+      }
+    },
+  };
+}
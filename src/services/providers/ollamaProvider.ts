@@ -0,0 +1,98 @@
+
+import { AppError, ErrorCode, ModelOptions } from "../../types";
+import { AI_CONFIG } from "../../constants";
+import { AiProvider, AnalysisRequest, AnalysisResponse, ApiKeyError, fetchProviderJson, toTokenCount, trimBaseUrl } from "./aiProvider";
+
+// This module implements the AI provider interface for an Ollama server, which runs models
+// locally so no page content leaves the user's machine. Ollama needs no API key, but it
+// rejects requests from browser extensions unless it is started with `OLLAMA_ORIGINS`
+// allowing them (e.g., `OLLAMA_ORIGINS=chrome-extension://*`).
+
+const PROVIDER_NAME = 'Ollama';
+
+/**
+ * Sends a request to the Ollama server, explaining the origin setting if the request is forbidden
+ * and reminding the user to start the server if it cannot be reached.
+ */
+async function fetchOllamaJson(url: string, init: RequestInit): Promise<any> {
+  try {
+    return await fetchProviderJson(url, init, PROVIDER_NAME);
+  } catch (error) {
+    // Ollama answers 403 to origins it does not allow, which is not a key problem.
+    if (error instanceof ApiKeyError) {
+      throw new AppError("Ollama refused the request. Start Ollama with OLLAMA_ORIGINS=chrome-extension://* to allow the extension.", ErrorCode.API_KEY_INVALID);
+    }
+    // The server runs locally, so being unreachable usually means it is not running rather than that the browser is offline.
+    if (error instanceof AppError && error.code === ErrorCode.NETWORK_OFFLINE && navigator.onLine !== false) {
+      throw new AppError(`${error.message} Make sure Ollama is running.`, ErrorCode.NETWORK_OFFLINE);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Estimates the context window a request needs, so Ollama does not cut off the start of the prompt.
+ * The estimate is rounded up to a fixed step, so similar requests keep the model loaded.
+ */
+function getContextLength(request: AnalysisRequest): number {
+  const promptTokens = Math.ceil(request.prompt.length / AI_CONFIG.OLLAMA_CHARS_PER_TOKEN);
+  const needed = promptTokens + AI_CONFIG.OLLAMA_OUTPUT_HEADROOM_TOKENS + (request.image ? AI_CONFIG.OLLAMA_IMAGE_TOKENS : 0);
+  return Math.ceil(needed / AI_CONFIG.OLLAMA_CONTEXT_STEP) * AI_CONFIG.OLLAMA_CONTEXT_STEP;
+}
+
+/**
+ * Creates an Ollama provider.
+ * @param baseUrl The server's base URL (e.g., "http://localhost:11434").
+ * @param options The model and generation settings used for analysis. The model must already be
+ *                pulled on the server. Ollama has no thinking budget, so only the model and temperature are used.
+ */
+export function createOllamaProvider(baseUrl: string, options: ModelOptions): AiProvider {
+  const root = trimBaseUrl(baseUrl);
+  const { model, temperature } = options;
+
+  /**
+   * Fetches the models installed on the server.
+   */
+  const fetchTags = async (): Promise<string[]> => {
+    const data = await fetchOllamaJson(`${root}/api/tags`, {});
+    return Array.isArray(data?.models)
+      ? data.models.map((entry: any) => entry?.name).filter((name: unknown): name is string => typeof name === 'string')
+      : [];
+  };
+
+  return {
+    async analyzeBanner(request: AnalysisRequest): Promise<AnalysisResponse> {
+      const data = await fetchOllamaJson(`${root}/api/chat`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model,
+          // Ollama takes a screenshot as a base64 image next to the message text.
+          messages: [{ role: 'user', content: request.prompt, ...(request.image && { images: [request.image.data] }) }],
+          // Ollama constrains the output to the JSON Schema given as the format.
+          format: request.responseSchema,
+          stream: false,
+          options: { temperature, num_ctx: getContextLength(request) },
+        }),
+      });
+      const content = data?.message?.content;
+      if (typeof content !== 'string') {
+        throw new AppError("Ollama returned no message.", ErrorCode.INVALID_AI_RESPONSE);
+      }
+      return {
+        text: content.trim(),
+        usage: { promptTokens: toTokenCount(data.prompt_eval_count), outputTokens: toTokenCount(data.eval_count) },
+      };
+    },
+
+    async testCredentials(): Promise<void> {
+      // There is no key to check, so check that the server is reachable and has the model.
+      const models = await fetchTags();
+      if (model && !models.some(name => name === model || name === `${model}:latest`)) {
+        throw new AppError(`The model "${model}" is not installed in Ollama. Run "ollama pull ${model}" first.`, ErrorCode.GENERIC_ANALYSIS_ERROR);
+      }
+    },
+
+    listModels: fetchTags,
+  };
+}
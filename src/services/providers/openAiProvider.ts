@@ -0,0 +1,85 @@
+
+import { AppError, ErrorCode, ModelOptions } from "../../types";
+import { AiProvider, AnalysisRequest, AnalysisResponse, ProviderRequestError, fetchProviderJson, toTokenCount, trimBaseUrl } from "./aiProvider";
+
+// This module implements the AI provider interface for any server that speaks OpenAI's
+// chat completions API: OpenAI itself, but also gateways and self-hosted servers such as
+// vLLM or LM Studio. Only the base URL, model, and (optional) key differ between them.
+
+const PROVIDER_NAME = 'The OpenAI-compatible server';
+
+/**
+ * Creates an OpenAI-compatible provider.
+ * @param baseUrl The API's base URL, including the version path (e.g., "https://api.openai.com/v1").
+ * @param apiKey The API key, sent as a bearer token. Local servers often need none.
+ * @param options The model and generation settings used for analysis. The chat completions
+ *                API has no thinking budget, so only the model and temperature are used.
+ */
+export function createOpenAiCompatibleProvider(baseUrl: string, apiKey: string | undefined, options: ModelOptions): AiProvider {
+  const root = trimBaseUrl(baseUrl);
+  const { model, temperature } = options;
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+
+  /**
+   * Requests a chat completion with the given response format and returns the message text and token usage.
+   */
+  const complete = async (request: AnalysisRequest, responseFormat: object): Promise<AnalysisResponse> => {
+    // A screenshot is sent as a data URL in a multi-part message.
+    const content = request.image
+      ? [
+          { type: 'text', text: request.prompt },
+          { type: 'image_url', image_url: { url: `data:${request.image.mimeType};base64,${request.image.data}` } },
+        ]
+      : request.prompt;
+    const data = await fetchProviderJson(`${root}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model,
+        messages: [{ role: 'user', content }],
+        response_format: responseFormat,
+        temperature,
+      }),
+    }, PROVIDER_NAME);
+    const message = data?.choices?.[0]?.message?.content;
+    if (typeof message !== 'string') {
+      throw new AppError(`${PROVIDER_NAME} returned no message.`, ErrorCode.INVALID_AI_RESPONSE);
+    }
+    return {
+      text: message.trim(),
+      usage: { promptTokens: toTokenCount(data.usage?.prompt_tokens), outputTokens: toTokenCount(data.usage?.completion_tokens) },
+    };
+  };
+
+  return {
+    async analyzeBanner(request: AnalysisRequest): Promise<AnalysisResponse> {
+      try {
+        // Not strict, as strict mode rejects schemas with optional properties or numeric bounds.
+        return await complete(request, {
+          type: 'json_schema',
+          json_schema: { name: 'consent_analysis', schema: request.responseSchema, strict: false },
+        });
+      } catch (error) {
+        // Many compatible servers do not support JSON schemas yet. Fall back to plain JSON mode,
+        // as the prompt describes the expected shape as well.
+        if (error instanceof ProviderRequestError && error.status === 400) {
+          return complete(request, { type: 'json_object' });
+        }
+        throw error;
+      }
+    },
+
+    async testCredentials(): Promise<void> {
+      // Listing models is free and requires the same credentials as a completion.
+      await fetchProviderJson(`${root}/models`, { headers }, PROVIDER_NAME);
+    },
+
+    async listModels(): Promise<string[]> {
+      const data = await fetchProviderJson(`${root}/models`, { headers }, PROVIDER_NAME);
+      return Array.isArray(data?.data)
+        ? data.data.map((entry: any) => entry?.id).filter((id: unknown): id is string => typeof id === 'string')
+        : [];
+    },
+  };
+}
@@ -0,0 +1,167 @@
+
+import { CachedAction, ConsentPolicy, SelectorCacheEntry } from '../types';
+import { STORAGE_KEYS, CACHE_CONFIG } from '../constants';
+import { createWriteQueue } from '../utils/writeQueue';
+
+// This service manages the learned selector cache: for each site, banner platform, and
+// consent policy, it remembers the buttons that were verified to close the banner, so
+// later visits can replay them without an AI call. The cache lives in
+// `chrome.storage.local`, as it is device-specific and can grow larger than sync storage allows.
+
+/**
+ * The whole cache as it is stored, keyed by `getCacheKey`.
+ */
+type SelectorCache = Record<string, SelectorCacheEntry>;
+
+// Scans in different tabs update the cache at the same time (even a lookup marks an entry as
+// used), and every update rewrites the whole cache, so the updates take turns.
+const queueWrite = createWriteQueue();
+
+/**
+ * Builds the cache key for a site, banner platform, and consent policy.
+ * The policy is part of the key, as the buttons for "accept all" and "reject all" differ.
+ */
+function getCacheKey(hostname: string, fingerprint: string, policy: ConsentPolicy): string {
+  return `${hostname}|${fingerprint}|${policy}`;
+}
+
+/**
+ * Reads the whole cache from local storage.
+ */
+async function readCache(): Promise<SelectorCache> {
+  return new Promise((resolve, reject) => {
+    chrome.storage.local.get(STORAGE_KEYS.SELECTOR_CACHE, (items) => {
+      if (chrome.runtime.lastError) {
+        return reject(new Error(chrome.runtime.lastError.message));
+      }
+      resolve(items[STORAGE_KEYS.SELECTOR_CACHE] || {});
+    });
+  });
+}
+
+/**
+ * Writes the whole cache to local storage, first evicting the least recently used
+ * entries if it has grown beyond the size cap.
+ */
+async function writeCache(cache: SelectorCache): Promise<void> {
+  const keys = Object.keys(cache);
+  if (keys.length > CACHE_CONFIG.SELECTOR_CACHE_MAX_ENTRIES) {
+    keys
+      .sort((a, b) => cache[a].lastUsed - cache[b].lastUsed)
+      .slice(0, keys.length - CACHE_CONFIG.SELECTOR_CACHE_MAX_ENTRIES)
+      .forEach(key => delete cache[key]);
+  }
+  return new Promise((resolve, reject) => {
+    chrome.storage.local.set({ [STORAGE_KEYS.SELECTOR_CACHE]: cache }, () => {
+      chrome.runtime.lastError ? reject(chrome.runtime.lastError) : resolve();
+    });
+  });
+}
+
+/**
+ * Looks up the learned consent flow for a site.
+ * @param hostname The hostname of the site.
+ * @param fingerprint Identifies the banner's platform.
+ * @param policy The user's consent policy.
+ * @returns The cache entry, or null if nothing has been learned yet.
+ */
+export async function getCachedFlow(hostname: string, fingerprint: string, policy: ConsentPolicy): Promise<SelectorCacheEntry | null> {
+  return queueWrite(async () => {
+    const cache = await readCache();
+    const entry = cache[getCacheKey(hostname, fingerprint, policy)];
+    if (!entry) return null;
+    // Reading an entry counts as using it, so it is not evicted while still in use.
+    entry.lastUsed = Date.now();
+    await writeCache(cache);
+    return entry;
+  });
+}
+
+/**
+ * Stores a consent flow that was just verified to close the banner, replacing any
+ * flow learned earlier for the same site, banner platform, and policy.
+ * @param hostname The hostname of the site.
+ * @param fingerprint Identifies the banner's platform.
+ * @param policy The consent policy the flow achieves.
+ * @param actions The steps of the flow, in order.
+ */
+export async function saveVerifiedFlow(hostname: string, fingerprint: string, policy: ConsentPolicy, actions: CachedAction[]): Promise<void> {
+  if (actions.length === 0) return;
+  return queueWrite(async () => {
+    const cache = await readCache();
+    const now = Date.now();
+    cache[getCacheKey(hostname, fingerprint, policy)] = {
+      hostname,
+      fingerprint,
+      policy,
+      actions,
+      hits: 0,
+      failures: 0,
+      lastSuccess: now,
+      lastUsed: now,
+    };
+    await writeCache(cache);
+  });
+}
+
+/**
+ * Records that replaying a learned flow closed the banner.
+ * @param hostname The hostname of the site.
+ * @param fingerprint Identifies the banner's platform.
+ * @param policy The consent policy the flow achieves.
+ */
+export async function recordCacheHit(hostname: string, fingerprint: string, policy: ConsentPolicy): Promise<void> {
+  return queueWrite(async () => {
+    const cache = await readCache();
+    const entry = cache[getCacheKey(hostname, fingerprint, policy)];
+    if (!entry) return;
+    const now = Date.now();
+    entry.hits++;
+    entry.failures = 0;
+    entry.lastSuccess = now;
+    entry.lastUsed = now;
+    await writeCache(cache);
+  });
+}
+
+/**
+ * Records that replaying a learned flow did not close the banner. After repeated
+ * failures in a row, the flow is forgotten, so the AI is asked again on the next visit.
+ * @param hostname The hostname of the site.
+ * @param fingerprint Identifies the banner's platform.
+ * @param policy The consent policy the flow achieves.
+ */
+export async function recordCacheFailure(hostname: string, fingerprint: string, policy: ConsentPolicy): Promise<void> {
+  return queueWrite(async () => {
+    const cache = await readCache();
+    const key = getCacheKey(hostname, fingerprint, policy);
+    const entry = cache[key];
+    if (!entry) return;
+    entry.failures++;
+    entry.lastUsed = Date.now();
+    if (entry.failures >= CACHE_CONFIG.SELECTOR_CACHE_MAX_FAILURES) {
+      delete cache[key];
+      console.log(`Cookie Skipper AI: Forgot the learned flow for ${hostname} after ${entry.failures} failures.`);
+    }
+    await writeCache(cache);
+  });
+}
+
+/**
+ * Forgets a learned flow right away, as the user reported that its button makes the wrong choice.
+ * @param hostname The hostname of the site.
+ * @param fingerprint Identifies the banner's platform.
+ * @param policy The consent policy the flow was supposed to achieve.
+ * @returns True if a flow was learned for the banner and is now forgotten.
+ */
+export async function forgetFlow(hostname: string, fingerprint: string, policy: ConsentPolicy): Promise<boolean> {
+  return queueWrite(async () => {
+    const cache = await readCache();
+    const key = getCacheKey(hostname, fingerprint, policy);
+    if (!cache[key]) return false;
+    delete cache[key];
+    await writeCache(cache);
+    console.log(`Cookie Skipper AI: Forgot the learned flow for ${hostname}, as the user reported it as wrong.`);
+    return true;
+  });
+}
@@ -1,6 +1,6 @@
 
-import { OperatingMode } from '../types';
-import { STORAGE_KEYS } from '../constants';
+import { OperatingMode, ConsentPolicy, ConsentPurpose, PurposePreferences, SiteRule, ProviderConfig, AiProviderKind, ModelSettings } from '../types';
+import { STORAGE_KEYS, AI_CONFIG, EXTRACTION_CONFIG, HISTORY_CONFIG } from '../constants';
 
 // This service acts as the single source of truth for managing all user-configurable settings.
 // It encapsulates all interactions with `chrome.storage.sync`, providing a clean,
@@ -14,8 +14,47 @@ export interface UserSettings {
   mode: OperatingMode;
   consent: boolean;
   userKey?: string;
+  providerConfig: ProviderConfig; // The AI provider used in BYOK mode.
+  modelSettings: ModelSettings; // The generation settings used in BYOK mode.
+  monthlyBudgetUsd: number | null; // The BYOK spending cap per month, in US dollars, or null for no cap.
+  consentPolicy: ConsentPolicy; // Which choice to make on cookie banners.
+  purposePreferences: PurposePreferences; // Per-purpose choices, used when the policy is CUSTOM.
+  autoMode: boolean; // Whether banners are handled automatically when they appear.
+  visualAnalysis: boolean; // Whether a screenshot is analyzed when the HTML shows no banner but an overlay blocks the page.
+  siteRules: SiteRule[]; // Per-site exceptions to the settings above.
+  historyRetentionDays: number; // For how many days finished scans are kept in the local history.
 }
 
+/**
+ * The default per-purpose choices: only functional cookies are allowed.
+ */
+export const DEFAULT_PURPOSE_PREFERENCES: PurposePreferences = {
+  [ConsentPurpose.FUNCTIONAL]: true,
+  [ConsentPurpose.ANALYTICS]: false,
+  [ConsentPurpose.ADVERTISING]: false,
+  [ConsentPurpose.PERSONALIZATION]: false,
+  [ConsentPurpose.SOCIAL_MEDIA]: false,
+};
+
+/**
+ * The default provider settings: Gemini with its default model.
+ */
+export const DEFAULT_PROVIDER_CONFIG: ProviderConfig = {
+  kind: AiProviderKind.GEMINI,
+  baseUrl: '',
+  model: '',
+  escalationModel: '',
+};
+
+/**
+ * The default generation settings, the same ones the free and pro tiers use unless the remote config changes them.
+ */
+export const DEFAULT_MODEL_SETTINGS: ModelSettings = {
+  temperature: AI_CONFIG.DEFAULT_TEMPERATURE,
+  thinkingBudget: AI_CONFIG.DEFAULT_THINKING_BUDGET,
+  maxInputLength: EXTRACTION_CONFIG.MAX_HTML_LENGTH,
+};
+
 /**
  * Simple, reversible obfuscation for the API key stored in `chrome.storage.sync`.
  * This is NOT encryption and is not meant to be cryptographically secure.
@@ -58,6 +97,15 @@ export async function getSettings(): Promise<UserSettings> {
     STORAGE_KEYS.OPERATING_MODE,
     STORAGE_KEYS.DATA_COLLECTION_CONSENT,
     STORAGE_KEYS.API_KEY,
+    STORAGE_KEYS.PROVIDER_CONFIG,
+    STORAGE_KEYS.MODEL_SETTINGS,
+    STORAGE_KEYS.MONTHLY_BUDGET,
+    STORAGE_KEYS.CONSENT_POLICY,
+    STORAGE_KEYS.PURPOSE_PREFERENCES,
+    STORAGE_KEYS.AUTO_MODE,
+    STORAGE_KEYS.VISUAL_ANALYSIS,
+    STORAGE_KEYS.SITE_RULES,
+    STORAGE_KEYS.HISTORY_RETENTION,
   ];
   return new Promise((resolve, reject) => {
     chrome.storage.sync.get(keys, (result) => {
@@ -73,6 +121,21 @@ export async function getSettings(): Promise<UserSettings> {
         consent: !!result[STORAGE_KEYS.DATA_COLLECTION_CONSENT],
         // Decode the user key if it exists.
         userKey: userKey ? decode(userKey) : undefined,
+        // Users who set a key before other providers were supported keep using Gemini.
+        providerConfig: { ...DEFAULT_PROVIDER_CONFIG, ...result[STORAGE_KEYS.PROVIDER_CONFIG] },
+        modelSettings: { ...DEFAULT_MODEL_SETTINGS, ...result[STORAGE_KEYS.MODEL_SETTINGS] },
+        // There is no spending cap unless the user sets one.
+        monthlyBudgetUsd: result[STORAGE_KEYS.MONTHLY_BUDGET] ?? null,
+        // Default to accepting all, which was the extension's original behavior.
+        consentPolicy: result[STORAGE_KEYS.CONSENT_POLICY] || ConsentPolicy.ACCEPT_ALL,
+        // Merge with the defaults so purposes added in later versions always have a value.
+        purposePreferences: { ...DEFAULT_PURPOSE_PREFERENCES, ...result[STORAGE_KEYS.PURPOSE_PREFERENCES] },
+        // Auto mode is opt-in, so scanning stays manual until the user turns it on.
+        autoMode: !!result[STORAGE_KEYS.AUTO_MODE],
+        // Screenshots show more of the page than the banner, so they are only sent if the user opts in.
+        visualAnalysis: !!result[STORAGE_KEYS.VISUAL_ANALYSIS],
+        siteRules: result[STORAGE_KEYS.SITE_RULES] || [],
+        historyRetentionDays: result[STORAGE_KEYS.HISTORY_RETENTION] || HISTORY_CONFIG.DEFAULT_RETENTION_DAYS,
       });
     });
   });
@@ -91,7 +154,7 @@ export async function saveOperatingMode(mode: OperatingMode): Promise<void> {
 }
 
 /**
- * Encodes and saves the user's personal Gemini API key to storage.
+ * Encodes and saves the user's personal API key to storage.
  * @param apiKey The plain-text API key to save.
  */
 export async function saveUserApiKey(apiKey: string): Promise<void> {
@@ -104,6 +167,42 @@ export async function saveUserApiKey(apiKey: string): Promise<void> {
   });
 }
 
+/**
+ * Saves the AI provider, base URL, and model used in BYOK mode to storage.
+ * @param config The provider settings to save.
+ */
+export async function saveProviderConfig(config: ProviderConfig): Promise<void> {
+  return new Promise((resolve, reject) => {
+    chrome.storage.sync.set({ [STORAGE_KEYS.PROVIDER_CONFIG]: config }, () => {
+      chrome.runtime.lastError ? reject(chrome.runtime.lastError) : resolve();
+    });
+  });
+}
+
+/**
+ * Saves the generation settings used in BYOK mode to storage.
+ * @param settings The temperature, thinking budget, and maximum input size to save.
+ */
+export async function saveModelSettings(settings: ModelSettings): Promise<void> {
+  return new Promise((resolve, reject) => {
+    chrome.storage.sync.set({ [STORAGE_KEYS.MODEL_SETTINGS]: settings }, () => {
+      chrome.runtime.lastError ? reject(chrome.runtime.lastError) : resolve();
+    });
+  });
+}
+
+/**
+ * Saves the BYOK user's monthly spending cap to storage.
+ * @param budgetUsd The cap in US dollars, or null to remove it.
+ */
+export async function saveMonthlyBudget(budgetUsd: number | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    chrome.storage.sync.set({ [STORAGE_KEYS.MONTHLY_BUDGET]: budgetUsd }, () => {
+      chrome.runtime.lastError ? reject(chrome.runtime.lastError) : resolve();
+    });
+  });
+}
+
 /**
  * Saves the user's consent for data collection to storage.
  * @param consent The consent status (true or false) to save.
@@ -114,4 +213,76 @@ export async function saveConsent(consent: boolean): Promise<void> {
       chrome.runtime.lastError ? reject(chrome.runtime.lastError) : resolve();
     });
   });
-}
\ No newline at end of file
+}
+
+/**
+ * Saves the user's consent policy (which choice to make on cookie banners) to storage.
+ * @param policy The consent policy to save.
+ */
+export async function saveConsentPolicy(policy: ConsentPolicy): Promise<void> {
+  return new Promise((resolve, reject) => {
+    chrome.storage.sync.set({ [STORAGE_KEYS.CONSENT_POLICY]: policy }, () => {
+      chrome.runtime.lastError ? reject(chrome.runtime.lastError) : resolve();
+    });
+  });
+}
+
+/**
+ * Saves the user's per-purpose consent choices to storage.
+ * @param preferences The choice for each consent purpose.
+ */
+export async function savePurposePreferences(preferences: PurposePreferences): Promise<void> {
+  return new Promise((resolve, reject) => {
+    chrome.storage.sync.set({ [STORAGE_KEYS.PURPOSE_PREFERENCES]: preferences }, () => {
+      chrome.runtime.lastError ? reject(chrome.runtime.lastError) : resolve();
+    });
+  });
+}
+
+/**
+ * Saves whether banners should be handled automatically when they appear.
+ * @param isEnabled The auto mode status (true or false) to save.
+ */
+export async function saveAutoMode(isEnabled: boolean): Promise<void> {
+  return new Promise((resolve, reject) => {
+    chrome.storage.sync.set({ [STORAGE_KEYS.AUTO_MODE]: isEnabled }, () => {
+      chrome.runtime.lastError ? reject(chrome.runtime.lastError) : resolve();
+    });
+  });
+}
+
+/**
+ * Saves whether screenshots may be analyzed when the HTML shows no banner.
+ * @param isEnabled True to turn the visual analysis on.
+ */
+export async function saveVisualAnalysis(isEnabled: boolean): Promise<void> {
+  return new Promise((resolve, reject) => {
+    chrome.storage.sync.set({ [STORAGE_KEYS.VISUAL_ANALYSIS]: isEnabled }, () => {
+      chrome.runtime.lastError ? reject(chrome.runtime.lastError) : resolve();
+    });
+  });
+}
+
+/**
+ * Saves the user's per-site rules to storage, replacing all existing rules.
+ * @param rules The complete list of site rules.
+ */
+export async function saveSiteRules(rules: SiteRule[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    chrome.storage.sync.set({ [STORAGE_KEYS.SITE_RULES]: rules }, () => {
+      chrome.runtime.lastError ? reject(chrome.runtime.lastError) : resolve();
+    });
+  });
+}
+
+/**
+ * Saves for how many days finished scans are kept in the local history.
+ * @param days The retention period in days.
+ */
+export async function saveHistoryRetention(days: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    chrome.storage.sync.set({ [STORAGE_KEYS.HISTORY_RETENTION]: days }, () => {
+      chrome.runtime.lastError ? reject(chrome.runtime.lastError) : resolve();
+    });
+  });
+}
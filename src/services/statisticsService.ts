@@ -0,0 +1,87 @@
+
+import { DailyScanCount, DetectionSource, RankedCount, ScanHistoryEntry, ScanStatistics, ScanStatus, SourceStatistics } from '../types';
+import { STATISTICS_CONFIG } from '../constants';
+
+// This service turns the local scan history into the statistics shown on the options page.
+// It only reads what `historyService` has stored on this device, so it works the same in
+// every operating mode and nothing is sent anywhere, unlike the consent-gated `analyticsService`.
+
+/**
+ * Builds the key of the day a date falls in, in the user's local time zone (e.g., "2024-05-31").
+ */
+function toDayKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * Counts how often each name occurs and returns the most frequent ones, most frequent first.
+ */
+function rankByCount(names: string[]): RankedCount[] {
+  const counts = new Map<string, number>();
+  names.forEach(name => counts.set(name, (counts.get(name) ?? 0) + 1));
+  return [...counts.entries()]
+    .map(([name, count]) => ({ name, count }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+    .slice(0, STATISTICS_CONFIG.TOP_COUNT);
+}
+
+/**
+ * Computes the statistics of a scan history.
+ * @param entries The history entries, in any order.
+ * @param now The current time, which the chart of banners handled per day ends on.
+ */
+export function computeStatistics(entries: ScanHistoryEntry[], now: Date = new Date()): ScanStatistics {
+  const handledEntries = entries.filter(entry => entry.outcome === ScanStatus.SUCCESS);
+
+  // One bucket per day of the chart, so days without scans show up as gaps.
+  const perDay: DailyScanCount[] = [];
+  for (let offset = STATISTICS_CONFIG.DAYS_SHOWN - 1; offset >= 0; offset--) {
+    const day = new Date(now.getFullYear(), now.getMonth(), now.getDate() - offset);
+    perDay.push({ day: toDayKey(day), scans: 0, handled: 0 });
+  }
+  const dayBuckets = new Map(perDay.map(bucket => [bucket.day, bucket]));
+  for (const entry of entries) {
+    const bucket = dayBuckets.get(toDayKey(new Date(entry.timestamp)));
+    if (!bucket) continue;
+    bucket.scans++;
+    if (entry.outcome === ScanStatus.SUCCESS) bucket.handled++;
+  }
+
+  // Only scans that clicked something (or set the choice through an API) have a source, and
+  // they either closed the banner or left it on screen.
+  const sourceTotals = new Map<DetectionSource, { attempts: number; successes: number; totalLatencyMs: number }>();
+  for (const entry of entries) {
+    if (!entry.source) continue;
+    const totals = sourceTotals.get(entry.source) ?? { attempts: 0, successes: 0, totalLatencyMs: 0 };
+    totals.attempts++;
+    if (entry.outcome === ScanStatus.SUCCESS) totals.successes++;
+    totals.totalLatencyMs += entry.latencyMs;
+    sourceTotals.set(entry.source, totals);
+  }
+  const bySource: SourceStatistics[] = [...sourceTotals.entries()]
+    .map(([source, totals]) => ({
+      source,
+      attempts: totals.attempts,
+      successes: totals.successes,
+      averageLatencyMs: totals.totalLatencyMs / totals.attempts,
+    }))
+    .sort((a, b) => b.attempts - a.attempts);
+
+  // Sites a site rule excludes are skipped before the page is touched, which would skew the average.
+  const timedEntries = entries.filter(entry => entry.outcome !== ScanStatus.SKIPPED);
+  const averageLatencyMs = timedEntries.length
+    ? timedEntries.reduce((total, entry) => total + entry.latencyMs, 0) / timedEntries.length
+    : null;
+
+  return {
+    totalScans: entries.length,
+    handled: handledEntries.length,
+    perDay,
+    bySource,
+    topDomains: rankByCount(handledEntries.map(entry => entry.hostname)),
+    topCmps: rankByCount(handledEntries.flatMap(entry => entry.cmp ? [entry.cmp] : [])),
+    averageLatencyMs,
+    // Every handled banner saved the user at least one click, even when the choice was set through an API.
+    clicksSaved: handledEntries.reduce((total, entry) => total + Math.max(1, entry.clickedButtons.length), 0),
+  };
+}
@@ -0,0 +1,129 @@
+
+import { TokenUsage, UsageSummary, UsageTotals } from '../types';
+import { STORAGE_KEYS, USAGE_CONFIG } from '../constants';
+import { createWriteQueue } from '../utils/writeQueue';
+
+// This service keeps track of the AI usage of BYOK users, who pay for every call: the
+// tokens and estimated cost per day and per month. The totals live in `chrome.storage.local`,
+// as they are device-specific and are written after every AI call, which would quickly
+// exhaust the write quota of sync storage.
+
+/**
+ * The totals of each period, keyed by the period's date ("2024-05-31" or "2024-05").
+ */
+type UsagePeriods = Record<string, UsageTotals>;
+
+/**
+ * The usage log as it is stored.
+ */
+interface UsageLog {
+  daily: UsagePeriods;
+  monthly: UsagePeriods;
+}
+
+// Concurrent scans each record their AI calls, so the updates of the log take turns.
+const queueWrite = createWriteQueue();
+
+/**
+ * Returns empty totals, for a period without any AI call.
+ */
+function emptyTotals(): UsageTotals {
+  return { promptTokens: 0, outputTokens: 0, calls: 0, estimatedCostUsd: 0 };
+}
+
+/**
+ * Builds the keys of the day and month a date falls in, in the user's local time zone.
+ */
+function getPeriodKeys(date: Date): { day: string; month: string } {
+  const month = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+  return { day: `${month}-${String(date.getDate()).padStart(2, '0')}`, month };
+}
+
+/**
+ * Looks up a model's list price.
+ * @param model The model name. It is matched by the longest known name prefix.
+ * @returns The price in US dollars per million input and output tokens, or null if it is unknown.
+ */
+export function getModelPrice(model: string): { input: number; output: number } | null {
+  const name = model.replace(/^models\//, '');
+  const prefix = Object.keys(USAGE_CONFIG.MODEL_PRICES_PER_MILLION)
+    .filter(candidate => name.startsWith(candidate))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? USAGE_CONFIG.MODEL_PRICES_PER_MILLION[prefix] : null;
+}
+
+/**
+ * Estimates the cost of an AI call from the model's list price.
+ * @param model The model name.
+ * @param usage The tokens the call used.
+ * @returns The estimated cost in US dollars, or 0 if the model's price is unknown.
+ */
+export function estimateCost(model: string, usage: TokenUsage): number {
+  const price = getModelPrice(model);
+  if (!price) return 0;
+  return (usage.promptTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Reads the usage log from local storage.
+ */
+async function readLog(): Promise<UsageLog> {
+  return new Promise((resolve, reject) => {
+    chrome.storage.local.get(STORAGE_KEYS.TOKEN_USAGE, (items) => {
+      if (chrome.runtime.lastError) {
+        return reject(new Error(chrome.runtime.lastError.message));
+      }
+      const log = items[STORAGE_KEYS.TOKEN_USAGE];
+      resolve({ daily: log?.daily || {}, monthly: log?.monthly || {} });
+    });
+  });
+}
+
+/**
+ * Writes the usage log to local storage, first dropping the periods beyond the retention limits.
+ */
+async function writeLog(log: UsageLog): Promise<void> {
+  const prune = (periods: UsagePeriods, retention: number) => {
+    // The keys are ISO dates, so they sort chronologically.
+    Object.keys(periods).sort().slice(0, -retention).forEach(key => delete periods[key]);
+  };
+  prune(log.daily, USAGE_CONFIG.DAILY_RETENTION);
+  prune(log.monthly, USAGE_CONFIG.MONTHLY_RETENTION);
+  return new Promise((resolve, reject) => {
+    chrome.storage.local.set({ [STORAGE_KEYS.TOKEN_USAGE]: log }, () => {
+      chrome.runtime.lastError ? reject(chrome.runtime.lastError) : resolve();
+    });
+  });
+}
+
+/**
+ * Adds the usage of an AI call to today's and this month's totals.
+ * @param model The model that was called, used to estimate the cost.
+ * @param usage The tokens the call used.
+ */
+export async function recordUsage(model: string, usage: TokenUsage): Promise<void> {
+  const { day, month } = getPeriodKeys(new Date());
+  const cost = estimateCost(model, usage);
+  return queueWrite(async () => {
+    const log = await readLog();
+    for (const [periods, key] of [[log.daily, day], [log.monthly, month]] as const) {
+      const totals = periods[key] || emptyTotals();
+      periods[key] = {
+        promptTokens: totals.promptTokens + usage.promptTokens,
+        outputTokens: totals.outputTokens + usage.outputTokens,
+        calls: totals.calls + 1,
+        estimatedCostUsd: totals.estimatedCostUsd + cost,
+      };
+    }
+    await writeLog(log);
+  });
+}
+
+/**
+ * Returns the usage of today and of the current month.
+ */
+export async function getUsageSummary(): Promise<UsageSummary> {
+  const log = await readLog();
+  const { day, month } = getPeriodKeys(new Date());
+  return { today: log.daily[day] || emptyTotals(), month: log.monthly[month] || emptyTotals() };
+}
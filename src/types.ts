@@ -14,10 +14,22 @@ export enum MessageType {
   GET_STATUS = 'GET_STATUS',
   // Sent when the user clicks a button to open the extension's options page.
   OPEN_OPTIONS_PAGE = 'OPEN_OPTIONS_PAGE',
+  // Sent when the user reports that the last scan of the active tab clicked the wrong button.
+  REPORT_WRONG_CLICK = 'REPORT_WRONG_CLICK',
+
+  // --- Content Script -> Background Script ---
+  // Sent in auto mode when a consent banner appears on the page.
+  AUTO_SCAN_REQUEST = 'AUTO_SCAN_REQUEST',
 
   // --- Background Script -> Popup ---
   // Sent by the background script to update the UI with the latest scan status.
   STATUS_UPDATE = 'STATUS_UPDATE',
+
+  // --- Popup <-> Background Script, over the scan event port ---
+  // Sent by the popup when it connects, to receive a tab's scan events from where it left off.
+  SUBSCRIBE_SCAN_EVENTS = 'SUBSCRIBE_SCAN_EVENTS',
+  // Sent by the background script with the scan events the popup has not seen yet.
+  SCAN_EVENTS = 'SCAN_EVENTS',
 }
 
 /**
@@ -29,9 +41,88 @@ export enum ScanStatus {
   ANALYZING = 'ANALYZING',// The HTML has been sent to the AI for analysis.
   SUCCESS = 'SUCCESS',    // The banner was found and successfully clicked.
   NOT_FOUND = 'NOT_FOUND',// The AI analyzed the page but did not find a banner.
+  BANNER_PERSISTED = 'BANNER_PERSISTED', // A button was clicked, but the banner was still visible after every retry.
+  SKIPPED = 'SKIPPED',    // The page was not scanned, as a site rule says never to touch this site.
+  LOW_CONFIDENCE = 'LOW_CONFIDENCE', // A banner was found, but the AI was not confident enough in any button to click it.
   ERROR = 'ERROR',        // An error occurred at some point in the process.
 }
 
+/**
+ * The AI providers a "Bring Your Own Key" user can choose from.
+ */
+export enum AiProviderKind {
+  GEMINI = 'GEMINI',                       // Google Gemini, through the official SDK.
+  OPENAI_COMPATIBLE = 'OPENAI_COMPATIBLE', // Any server that implements OpenAI's chat completions API (e.g., a company gateway).
+  OLLAMA = 'OLLAMA',                       // A local or self-hosted Ollama server.
+}
+
+/**
+ * The provider settings of a "Bring Your Own Key" user. The API key is stored separately.
+ */
+export interface ProviderConfig {
+  kind: AiProviderKind;
+  baseUrl: string; // The server's base URL. Empty for Gemini, or to use the provider's default.
+  model: string;   // The model name. Empty to use the provider's default.
+  escalationModel: string; // The stronger model asked when the first one cannot finish the job. Empty to use the provider's default.
+}
+
+/**
+ * The generation settings a "Bring Your Own Key" user can tune.
+ */
+export interface ModelSettings {
+  temperature: number;    // The sampling temperature. 0 gives the most deterministic answers.
+  thinkingBudget: number; // The number of "thinking" tokens the model may use (Gemini only). 0 disables thinking.
+  maxInputLength: number; // The maximum number of characters of page HTML sent to the model.
+}
+
+/**
+ * The tokens used by one or more AI calls.
+ */
+export interface TokenUsage {
+  promptTokens: number; // The input tokens, including the page HTML.
+  outputTokens: number; // The generated tokens, including any "thinking" tokens.
+}
+
+/**
+ * The AI usage over a period (a day or a month), as shown on the options page.
+ */
+export interface UsageTotals extends TokenUsage {
+  calls: number;            // The number of AI calls.
+  estimatedCostUsd: number; // The cost estimated from list prices. Models without a known price count as free.
+}
+
+/**
+ * The AI usage of today and of the current month.
+ */
+export interface UsageSummary {
+  today: UsageTotals;
+  month: UsageTotals;
+}
+
+/**
+ * The models of the escalation cascade. A scan starts with the cheap primary model and
+ * escalates once to the stronger model when the primary one cannot finish the job.
+ */
+export enum ModelTier {
+  PRIMARY = 'PRIMARY',
+  ESCALATED = 'ESCALATED',
+}
+
+/**
+ * The model and generation settings used for an analysis, after defaults are applied.
+ */
+export interface ModelOptions extends ModelSettings {
+  model: string;
+}
+
+/**
+ * Identifies what started a scan.
+ */
+export enum ScanTrigger {
+  MANUAL = 'MANUAL', // The user clicked "Scan Page Manually".
+  AUTO = 'AUTO',     // The content script detected a banner while auto mode was on.
+}
+
 /**
  * Defines the different monetization and operational tiers for the extension.
  */
@@ -41,6 +132,51 @@ export enum OperatingMode {
   PRO = 'PRO',                        // Paid premium tier with no ads or data collection.
 }
 
+/**
+ * Defines which choice the extension makes on the user's behalf when it handles a cookie banner.
+ */
+export enum ConsentPolicy {
+  ACCEPT_ALL = 'ACCEPT_ALL', // Click "Accept all" (or the closest equivalent).
+  REJECT_ALL = 'REJECT_ALL', // Click "Reject all" or "Necessary only".
+  DISMISS = 'DISMISS',       // Close the banner without making a choice (e.g., the "X" button).
+  CUSTOM = 'CUSTOM',         // Open the preference center and set each purpose individually.
+}
+
+/**
+ * Defines how the extension behaves on the sites matched by a site rule.
+ */
+export enum SiteRuleMode {
+  NEVER = 'NEVER',             // Never touch this site, not even on a manual scan.
+  ALWAYS_AUTO = 'ALWAYS_AUTO', // Skip banners automatically on this site, even if auto mode is off.
+  POLICY = 'POLICY',           // Use a specific consent policy on this site.
+}
+
+/**
+ * A per-site rule, matched by hostname pattern.
+ */
+export interface SiteRule {
+  pattern: string;        // A hostname such as "example.com", or "*.example.com" to include all subdomains.
+  mode: SiteRuleMode;
+  policy?: ConsentPolicy; // The consent policy to use, for the POLICY mode.
+}
+
+/**
+ * The consent categories (purposes) the user can allow or refuse individually.
+ * Strictly necessary cookies are not listed, as they cannot be refused.
+ */
+export enum ConsentPurpose {
+  FUNCTIONAL = 'FUNCTIONAL',           // Preferences, language, chat widgets, etc.
+  ANALYTICS = 'ANALYTICS',             // Statistics and performance measurement.
+  ADVERTISING = 'ADVERTISING',         // Marketing, ad targeting, and ad measurement.
+  PERSONALIZATION = 'PERSONALIZATION', // Personalized content and recommendations.
+  SOCIAL_MEDIA = 'SOCIAL_MEDIA',       // Social media embeds and sharing.
+}
+
+/**
+ * The user's choice for each consent purpose (true means allowed).
+ */
+export type PurposePreferences = Record<ConsentPurpose, boolean>;
+
 /**
  * A standardized set of error codes to allow for reliable, type-safe error handling in the UI
  * without relying on brittle error message strings.
@@ -49,16 +185,26 @@ export enum ErrorCode {
   // User Configuration Errors
   API_KEY_INVALID = 'API_KEY_INVALID',
   CONSENT_REQUIRED = 'CONSENT_REQUIRED',
+  BUDGET_EXCEEDED = 'BUDGET_EXCEEDED', // The BYOK user's monthly budget is used up, so the AI is not called.
   
   // Extension/System Errors
   COMMUNICATION_ERROR = 'COMMUNICATION_ERROR', // Failed to send a message between scripts.
   CLICK_FAILED = 'CLICK_FAILED', // The script successfully identified a button but failed to click it.
+  CLICK_REFUSED = 'CLICK_REFUSED', // The safety guard refused to click the element (e.g., a purchase button or an off-site link).
   HTML_FETCH_FAILED = 'HTML_FETCH_FAILED', // Failed to get the HTML content from the page.
   SCRIPT_INJECTION_FAILED = 'SCRIPT_INJECTION_FAILED', // The main scripting API failed.
   CONFIG_FETCH_FAILED = 'CONFIG_FETCH_FAILED', // Could not fetch the central API key from the remote server.
+  STEP_LIMIT_REACHED = 'STEP_LIMIT_REACHED', // The banner was still present after the maximum number of steps.
   
   // AI/Analysis Errors
   GENERIC_ANALYSIS_ERROR = 'GENERIC_ANALYSIS_ERROR',
+  POLICY_OPTION_UNAVAILABLE = 'POLICY_OPTION_UNAVAILABLE', // A banner was found, but it has no button matching the user's consent policy.
+  INVALID_AI_RESPONSE = 'INVALID_AI_RESPONSE', // The AI's response did not match the expected schema.
+  RATE_LIMITED = 'RATE_LIMITED', // The provider is rate limiting requests (HTTP 429) and kept doing so after the retries.
+  QUOTA_EXHAUSTED = 'QUOTA_EXHAUSTED', // The provider's quota or the account's credit is used up, so waiting a minute does not help.
+  AI_SERVER_ERROR = 'AI_SERVER_ERROR', // The provider failed with a server error (HTTP 5xx), even after the retries.
+  NETWORK_OFFLINE = 'NETWORK_OFFLINE', // The provider could not be reached, because the browser is offline or the server is down.
+  REQUEST_TIMEOUT = 'REQUEST_TIMEOUT', // The provider did not answer in time.
 }
 
 /**
@@ -75,6 +221,398 @@ export class AppError extends Error {
   }
 }
 
+// --- Page Extraction ---
+// These interfaces describe the in-page extraction step that minimizes the page's
+// HTML before it is sent to the AI model.
+
+/**
+ * The options passed to the injected extraction function. They are passed as
+ * arguments because the injected function cannot read any module-level constants.
+ */
+export interface ExtractionOptions {
+  maxHtmlLength: number;   // The total character budget for the extracted HTML.
+  maxCandidates: number;   // The maximum number of overlay subtrees to include.
+  maxTextLength: number;   // Text nodes longer than this are truncated.
+  minZIndex: number;       // The z-index from which an element counts as "high".
+  minCandidateScore: number; // Subtrees scoring below this are not considered banners.
+  knownCmpSelectors: string[]; // Container selectors of well-known consent platforms.
+  consentKeywords: string[];   // Keywords that suggest a cookie/consent context.
+}
+
+/**
+ * The result returned by the injected extraction function.
+ */
+export interface ExtractionResult {
+  html: string;           // The minimized HTML to send to the model.
+  candidateCount: number; // How many overlay candidates were found (0 means the body fallback was used).
+  topScore: number;       // The score of the best candidate, used to rank frames against each other.
+  frameUrl: string;       // The URL of the frame the extraction ran in.
+  cmpSelector: string | null; // The known CMP selector matched by a candidate, used to fingerprint the banner.
+  elements: Record<string, TaggedElement>; // The interactive elements tagged with a temporary `data-cs-id`, keyed by that id.
+}
+
+/**
+ * Options for the injected visual probe, which looks for an overlay blocking the page
+ * and describes it as accessibility-tree text for the visual analysis.
+ */
+export interface VisualProbeOptions {
+  minZIndex: number;        // The z-index from which an element counts as rendered on top of the page.
+  gridSize: number;         // The number of sample points per row and column hit-tested across the viewport.
+  minBlockedPoints: number; // How many sample points an overlay must cover to block the page (one suffices while scrolling is locked).
+  maxTreeLength: number;    // The character budget for the accessibility-tree text.
+  maxTextLength: number;    // Long names and text are truncated to this many characters.
+}
+
+/**
+ * The result returned by the injected visual probe.
+ */
+export interface VisualProbeResult {
+  blocked: boolean; // Whether an overlay visibly blocks the page.
+  tree: string;     // The accessibility-tree text of the blocking overlays, or '' if nothing blocks the page.
+  elements: Record<string, TaggedElement>; // The interactive elements of the tree, tagged with a temporary `data-cs-id`.
+}
+
+/**
+ * A screenshot of the visible part of a tab, as sent to the model.
+ */
+export interface PageScreenshot {
+  mimeType: string; // The image format, e.g., "image/jpeg".
+  data: string;     // The base64-encoded image, without the data URL prefix.
+}
+
+/**
+ * The button the model chose on a screenshot: an element of the accessibility tree if the
+ * button is one, and otherwise the point to click, in percent of the screenshot's size.
+ */
+export interface VisualAction {
+  target: ElementTarget | null;           // The tagged element to click, if the model named one.
+  point: { x: number; y: number } | null; // The point to click, from 0 to 100 in both directions, if no element was named.
+  buttonText: string;                     // The visible text of the button.
+}
+
+/**
+ * The AI's analysis of a screenshot of the page.
+ */
+export interface VisualAnalysis {
+  bannerFound: boolean;        // Whether a cookie banner is visible on the screenshot.
+  action: VisualAction | null; // The button to click, or null if there is none or the AI is not confident enough.
+  lowConfidence: boolean;      // Whether a button was found, but below the confidence threshold.
+  model: string;               // The model that produced this analysis.
+  usage: TokenUsage;           // The tokens the call used.
+}
+
+/**
+ * Where an element tagged with a temporary `data-cs-id` by the extraction lives. The
+ * selector keeps working after the tags are removed (e.g., for the learned selector cache).
+ */
+export interface TaggedElement {
+  shadowHostPath: string[]; // Selectors of the shadow hosts to descend through, outermost first.
+  selector: string;         // A CSS selector of the element within its (shadow) root.
+}
+
+/**
+ * Identifies a single element on the page, which may live inside an iframe
+ * and/or inside one or more nested open shadow roots.
+ */
+export interface ElementTarget {
+  frameId: number;          // The frame the element lives in (0 is the top-level frame).
+  shadowHostPath: string[]; // Selectors of the shadow hosts to descend through, outermost first.
+  selector: string;         // The CSS selector of the element within its (shadow) root.
+  elementId?: string;       // The temporary `data-cs-id` from the last extraction. While set, it is used instead of the selector.
+}
+
+/**
+ * The checks the clicker runs before it clicks anything. The page's HTML is untrusted
+ * input to the AI, so the element it names must look like a harmless banner button.
+ */
+export interface ClickGuardOptions {
+  requireCandidate: boolean;  // Whether the element must be inside a banner candidate marked by the last extraction.
+  blockedTextPattern: string; // A case-insensitive regular expression for purchase and sign-up texts.
+}
+
+/**
+ * The ways the clicker can click an element. Some banners ignore a plain `click()`
+ * and only react to the full sequence of pointer and mouse events a real user produces.
+ */
+export enum ClickStrategy {
+  NATIVE = 'NATIVE',                 // Call the element's `click()` method.
+  POINTER_EVENTS = 'POINTER_EVENTS', // Dispatch pointer and mouse events at the element's center.
+}
+
+/**
+ * A purpose toggle (checkbox or switch) in a preference center, mapped to one of our purposes by the AI.
+ */
+export interface ToggleAction {
+  target: ElementTarget;   // The checkbox or switch element.
+  purpose: ConsentPurpose; // The purpose the toggle controls.
+  label: string;           // The toggle's visible label on the page.
+}
+
+/**
+ * A single action chosen by the AI as the next step of a consent flow.
+ */
+export interface BannerAction {
+  target: ElementTarget;  // The element to click.
+  buttonText: string;     // The visible text of the button, used for progress and step history.
+  isFinalStep: boolean;   // Whether clicking this button should complete the flow and close the banner.
+  toggles: ToggleAction[]; // Purpose toggles to set before clicking (only for the CUSTOM policy).
+}
+
+/**
+ * Records a purpose toggle whose state was changed during a scan.
+ */
+export interface ToggleChange {
+  purpose: ConsentPurpose;
+  label: string;    // The toggle's visible label on the page.
+  enabled: boolean; // The state the toggle was changed to.
+}
+
+/**
+ * Where the button that was clicked came from.
+ */
+export enum DetectionSource {
+  AI = 'AI',       // The AI analyzed the page.
+  CACHE = 'CACHE', // The buttons learned on an earlier visit to the site were replayed.
+  RULES = 'RULES', // A built-in rule recognized a well-known consent platform.
+  API = 'API',     // The choice was set through the consent platform's JavaScript API, without a click.
+  VISUAL = 'VISUAL', // The AI found the button on a screenshot of the page, after the HTML analysis found none.
+}
+
+/**
+ * The result record of a completed scan.
+ */
+export interface ScanResult {
+  source: DetectionSource; // Where the clicked button came from.
+  cmp?: string;            // The name of the consent platform, if a built-in rule recognized it.
+  changedToggles: ToggleChange[]; // The purpose toggles that were changed in a preference center.
+  retryCount: number; // How many retries were needed because the banner was still visible after a click.
+  model?: string;          // The model whose answer led to the final click, for AI results.
+  modelTier?: ModelTier;   // Whether that model was the primary one or the stronger one of the cascade.
+  usage?: TokenUsage;      // The tokens used by all AI calls of the scan, if the AI was asked.
+  clicked?: ClickedElement; // The last button the scan clicked. Absent when the choice was set through a consent API.
+}
+
+/**
+ * A button a scan clicked, as shown in the popup so the user can tell whether it was the right one.
+ */
+export interface ClickedElement {
+  text: string;              // The button's visible text (empty for, e.g., an icon-only close button).
+  actionType: CmpActionKind; // What the button does, as the AI classified it or the built-in rule defines it.
+  selector: string | null;   // The button's CSS selector, or null if a point on a screenshot was clicked.
+}
+
+/**
+ * A click the user reported as wrong, as it is kept in local storage.
+ */
+export interface WrongClickReport {
+  id: string;              // A unique id.
+  timestamp: number;       // When the user reported the click, in milliseconds since the epoch.
+  hostname: string;        // The site the click happened on.
+  policy: ConsentPolicy;   // The choice the scan was supposed to make.
+  source: DetectionSource; // Where the clicked button came from.
+  cmp: string | null;      // The name of the consent platform, if one was recognized.
+  clicked: ClickedElement; // The button that was clicked.
+  bannerSnippet: string | null; // The start of the banner's HTML the button was chosen from, if the scan read the page.
+}
+
+/**
+ * A finished scan as it is kept in the local scan history.
+ */
+export interface ScanHistoryEntry {
+  id: string;              // A unique id, so entries can be told apart in the viewer.
+  timestamp: number;       // When the scan started, in milliseconds since the epoch.
+  hostname: string;        // The site that was scanned.
+  trigger: ScanTrigger;    // Whether the user or auto mode started the scan.
+  outcome: ScanStatus;     // The status the scan ended with (e.g., SUCCESS, NOT_FOUND, ERROR).
+  errorCode: ErrorCode | null; // The error the scan failed with, if the outcome is ERROR.
+  source: DetectionSource | null; // Where the clicked button came from, if anything was clicked.
+  cmp: string | null;      // The name of the consent platform, if a built-in rule, a consent API, or the banner's fingerprint recognized it.
+  clickedButtons: string[]; // The text of each button clicked, in order.
+  action: ConsentPolicy | null; // The choice that was made on the banner, or null if nothing was clicked.
+  latencyMs: number;       // How long the scan took from start to finish.
+}
+
+/**
+ * The number of scans on one day, for the statistics.
+ */
+export interface DailyScanCount {
+  day: string;     // The date in the user's time zone (e.g., "2024-05-31").
+  scans: number;   // All scans that started on this day.
+  handled: number; // The scans that closed a banner.
+}
+
+/**
+ * How well the buttons from one detection source worked, for the statistics.
+ */
+export interface SourceStatistics {
+  source: DetectionSource;
+  attempts: number;  // The scans that clicked a button from this source (or set the choice through an API).
+  successes: number; // The attempts after which the banner disappeared.
+  averageLatencyMs: number; // The average duration of these scans.
+}
+
+/**
+ * A name with the number of times it occurred, for the most frequent domains and consent platforms.
+ */
+export interface RankedCount {
+  name: string;
+  count: number;
+}
+
+/**
+ * The statistics computed from the local scan history.
+ */
+export interface ScanStatistics {
+  totalScans: number;
+  handled: number;            // The scans that closed a banner.
+  perDay: DailyScanCount[];   // One entry per day of the chart, oldest first, including days without scans.
+  bySource: SourceStatistics[]; // The detection sources that were used at least once, most used first.
+  topDomains: RankedCount[];  // The sites with the most banners handled.
+  topCmps: RankedCount[];     // The consent platforms recognized most often on handled banners.
+  averageLatencyMs: number | null; // The average duration of all scans that touched the page, or null if there were none.
+  clicksSaved: number;        // An estimate of the clicks the user did not have to make.
+}
+
+/**
+ * A button the AI considers as the next step of a consent flow, with its confidence.
+ */
+export interface ButtonCandidate {
+  action: BannerAction;      // The action to perform if this candidate is chosen.
+  actionType: CmpActionKind; // What the button does. Only settings buttons lead to a further step.
+  confidence: number;        // The model's confidence that this is the right button, from 0 to 1.
+  containerSelector: string; // The selector of the banner container the button belongs to.
+}
+
+/**
+ * The AI's analysis of one step of a consent flow.
+ */
+export interface ConsentAnalysis {
+  action: BannerAction | null;   // The next button to click, or null if there is nothing (more) to click or the AI is not confident enough.
+  bannerFound: boolean;          // Whether a cookie banner is present, even if it has no matching button.
+  lowConfidence: boolean;        // Whether a matching button was found, but below the confidence threshold.
+  candidates: ButtonCandidate[]; // The buttons matching the user's policy, ranked by confidence (highest first).
+  model: string;                 // The model that produced this analysis.
+  usage: TokenUsage;             // The tokens the call used.
+}
+
+/**
+ * Describes the progress of a multi-step consent flow (e.g., "step 2 of 3").
+ */
+export interface ScanStepProgress {
+  current: number;      // The step currently being executed, starting at 1.
+  max: number;          // The maximum number of steps the scan will attempt.
+  description?: string; // A short description of the step, e.g., the button that was clicked.
+}
+
+// --- Rule-Based Detection ---
+// These interfaces describe the built-in rules for well-known Consent Management
+// Platforms (CMPs), which are recognized without an AI call.
+
+/**
+ * The kinds of consent banner buttons, as named by the CMP rules and by the AI's candidates.
+ */
+export enum CmpActionKind {
+  ACCEPT = 'ACCEPT',     // Accept all optional cookies.
+  REJECT = 'REJECT',     // Refuse all optional cookies.
+  SETTINGS = 'SETTINGS', // Open the preference center.
+  CLOSE = 'CLOSE',       // Close the banner without making a choice.
+  SAVE = 'SAVE',         // Save the current selection of a preference center.
+}
+
+/**
+ * Describes how to find one button of a CMP.
+ */
+export interface CmpRuleSelector {
+  selector: string;     // The CSS selector of the button within the CMP's (shadow) root.
+  textPattern?: string; // A case-insensitive regular expression the button's text must match, for CMPs without distinctive selectors.
+}
+
+/**
+ * A rule that recognizes one CMP and names its buttons. Rules are plain data, so they
+ * can be passed as an argument to the injected detector function.
+ */
+export interface CmpRule {
+  name: string;               // The CMP's display name, e.g., "OneTrust".
+  containerSelectors: string[]; // DOM signatures: the rule matches if one of these is visible.
+  globalNames: string[];      // Global objects the CMP's script defines on `window`.
+  shadowHostPath: string[];   // Shadow hosts to descend through to reach the buttons, or [] if the CMP does not use shadow DOM.
+  actions: {
+    [CmpActionKind.ACCEPT]: CmpRuleSelector[];
+    [CmpActionKind.REJECT]: CmpRuleSelector[];
+    [CmpActionKind.SETTINGS]: CmpRuleSelector[];
+    [CmpActionKind.CLOSE]?: CmpRuleSelector[];
+    [CmpActionKind.SAVE]?: CmpRuleSelector[];
+  };
+}
+
+/**
+ * The result of the injected detector function when a rule matched and its button for
+ * the requested action is visible.
+ */
+export interface CmpDetection {
+  cmp: string;              // The name of the matched rule.
+  shadowHostPath: string[]; // The shadow host path of the button.
+  selector: string;         // The selector of the button within its (shadow) root.
+  buttonText: string;       // The visible text of the button.
+}
+
+/**
+ * The result of the injected consent API actor when it found a platform API with a pending
+ * consent decision and applied the user's choice through it.
+ */
+export interface ConsentApiResult {
+  api: string;       // The name of the platform whose API was used, e.g., "OneTrust".
+  verified: boolean; // Whether the resulting consent state (and TC string, if any) matches the choice.
+  tcString?: string; // The IAB TCF consent string after the choice, if the page exposes `__tcfapi`.
+}
+
+// --- Selector Cache ---
+// These interfaces describe the buttons learned per site, which are replayed on later
+// visits instead of asking the AI again.
+
+/**
+ * An element reference that stays valid across page loads. Frame IDs change with every
+ * load, so the frame is identified by its URL instead.
+ */
+export interface CachedElementTarget {
+  frameUrl: string | null;  // The URL of the frame the element lives in, or null for the top-level frame.
+  shadowHostPath: string[]; // Selectors of the shadow hosts to descend through, outermost first.
+  selector: string;         // The CSS selector of the element within its (shadow) root.
+}
+
+/**
+ * A purpose toggle learned from a preference center. The desired state is not stored,
+ * so the user's current purpose preferences are applied when it is replayed.
+ */
+export interface CachedToggle {
+  target: CachedElementTarget;
+  purpose: ConsentPurpose;
+  label: string;
+}
+
+/**
+ * A single learned step of a consent flow.
+ */
+export interface CachedAction {
+  target: CachedElementTarget;
+  buttonText: string;
+  toggles: CachedToggle[];
+}
+
+/**
+ * The learned consent flow for one site, banner platform, and consent policy.
+ */
+export interface SelectorCacheEntry {
+  hostname: string;      // The hostname of the site.
+  fingerprint: string;   // Identifies the banner's platform (e.g., a known CMP container selector).
+  policy: ConsentPolicy; // The consent policy the flow achieves.
+  actions: CachedAction[]; // The steps of the flow, in order. The last one closes the banner.
+  hits: number;          // How many times the flow was replayed successfully.
+  failures: number;      // Consecutive replays that did not close the banner.
+  lastSuccess: number;   // When the flow last closed the banner (epoch milliseconds).
+  lastUsed: number;      // When the entry was last read or written, used for LRU eviction.
+}
+
 // --- Message Payloads ---
 // These interfaces define the shape of the data sent along with messages.
 
@@ -92,10 +630,56 @@ export interface ErrorPayload {
  */
 export interface StatusUpdatePayload {
   status: ScanStatus;
+  tabId?: number; // The ID of the tab the status applies to, so the popup can ignore other tabs' updates.
   url?: string; // The URL of the tab the status applies to.
+  trigger?: ScanTrigger; // What started the current (or last) scan.
   error?: ErrorPayload; // An error object if the status is ERROR.
+  step?: ScanStepProgress; // The progress of a multi-step consent flow, if one is underway.
+  result?: ScanResult; // The result record, if the status is SUCCESS.
+}
+
+/**
+ * The detailed steps of a scan, streamed to the popup as a live timeline.
+ */
+export enum ScanEventKind {
+  STARTED = 'STARTED',                   // The scan started.
+  CONSENT_API = 'CONSENT_API',           // The choice was set through the consent platform's JavaScript API.
+  RULE_MATCHED = 'RULE_MATCHED',         // A built-in rule recognized the consent platform.
+  CACHE_HIT = 'CACHE_HIT',               // The flow learned on an earlier visit is replayed.
+  EXTRACTING = 'EXTRACTING',             // The page's HTML is extracted.
+  MODEL_REQUEST = 'MODEL_REQUEST',       // The page was sent to the model.
+  CANDIDATE_CHOSEN = 'CANDIDATE_CHOSEN', // The model picked a button.
+  CLICKING = 'CLICKING',                 // A button is clicked.
+  VERIFYING = 'VERIFYING',               // The banner is watched to check that it disappeared.
+  FINISHED = 'FINISHED',                 // The scan ended.
 }
 
+/**
+ * A single step of a scan, as streamed to the popup.
+ */
+export interface ScanEvent {
+  seq: number;       // The event's position in its scan, starting at 0, so a reconnecting popup can ask for what it missed.
+  kind: ScanEventKind;
+  timestamp: number; // When the event happened, in milliseconds since the epoch.
+  detail?: string;   // What the step was about, e.g., the button or the consent platform.
+}
+
+/**
+ * The background's response to a wrong-click report from the popup.
+ */
+export interface WrongClickResponse {
+  recorded: boolean;   // Whether the report was saved. False if the tab's last scan is no longer known.
+  forgotFlow: boolean; // Whether a learned flow for the banner was forgotten because of it.
+}
+
+/**
+ * The background's response to an auto scan request from the content script.
+ */
+export interface AutoScanResponse {
+  accepted: boolean;    // Whether a scan was started.
+  attemptsLeft: number; // How many more automatic scans this tab allows until it navigates.
+  status?: ScanStatus;  // The status the started scan ended with, or SUCCESS if the banner on this page was already handled.
+}
 
 // --- Discriminated Union for Type-Safe Messaging ---
 // This pattern allows TypeScript to correctly infer the payload type based on the message's `type` property,
@@ -112,10 +696,38 @@ interface SimpleMessage {
   type:
     | MessageType.MANUAL_SCAN_REQUEST
     | MessageType.GET_STATUS
-    | MessageType.OPEN_OPTIONS_PAGE;
+    | MessageType.OPEN_OPTIONS_PAGE
+    | MessageType.REPORT_WRONG_CLICK
+    | MessageType.AUTO_SCAN_REQUEST;
   payload?: undefined; // Explicitly undefined to enforce no payload.
 }
 
+// Defines the messages exchanged over the scan event port (`chrome.runtime.connect`).
+interface SubscribeScanEventsMessage {
+  type: MessageType.SUBSCRIBE_SCAN_EVENTS;
+  payload: {
+    tabId: number;         // The tab whose scan events the popup shows.
+    scanId: string | null; // The scan the popup already has events of, if any.
+    lastSeq: number;       // The last event of that scan the popup has, or -1 for none.
+  };
+}
+
+interface ScanEventsMessage {
+  type: MessageType.SCAN_EVENTS;
+  payload: {
+    tabId: number;
+    scanId: string;     // The scan the events belong to. A new id means a new scan, replacing the old timeline.
+    events: ScanEvent[];
+  };
+}
+
+/**
+ * A union of the messages sent over the scan event port.
+ */
+export type ScanEventPortMessage =
+  | SubscribeScanEventsMessage
+  | ScanEventsMessage;
+
 /**
  * A union of all possible message types. This is the single type that should be
  * used for all `chrome.runtime.sendMessage` calls to ensure type safety.
@@ -0,0 +1,65 @@
+
+import { SiteRule, SiteRuleMode } from '../types';
+
+// This utility file contains the hostname matching for per-site rules. It is shared by
+// the background (scan pipeline and auto mode), the content script, the popup, and the
+// options page, so all of them agree on which rule applies to a site.
+
+/**
+ * Normalizes user input into a hostname pattern: lowercased, without a scheme, port, or
+ * path (so a pasted URL works), and with at most a leading `*.` wildcard.
+ * @param input The pattern as typed by the user, e.g., "https://www.example.com/page" or "*.example.com".
+ * @returns The normalized pattern, or null if the input is not a valid hostname pattern.
+ */
+export function normalizeHostPattern(input: string): string | null {
+    let pattern = input.trim().toLowerCase();
+    pattern = pattern.replace(/^[a-z][a-z0-9+.-]*:\/\//, ''); // Scheme
+    pattern = pattern.split(/[/?#]/)[0];                        // Path, query, and fragment
+    pattern = pattern.replace(/:\d+$/, '');                     // Port
+
+    const hostname = pattern.startsWith('*.') ? pattern.substring(2) : pattern;
+    if (!/^[a-z0-9-]+(\.[a-z0-9-]+)*$/.test(hostname)) return null;
+    return pattern;
+}
+
+/**
+ * Checks whether a hostname matches a pattern. A pattern of the form `*.example.com`
+ * matches example.com itself and all of its subdomains; any other pattern must match exactly.
+ * @param hostname The hostname to check, e.g., "shop.example.com".
+ * @param pattern A normalized hostname pattern.
+ */
+export function matchesHostPattern(hostname: string, pattern: string): boolean {
+    const host = hostname.toLowerCase();
+    if (pattern.startsWith('*.')) {
+        const domain = pattern.substring(2);
+        return host === domain || host.endsWith(`.${domain}`);
+    }
+    return host === pattern;
+}
+
+/**
+ * Finds the rule that applies to a hostname. If several rules match, the most specific
+ * one wins: an exact pattern beats any wildcard, and a longer wildcard beats a shorter one.
+ * @param rules The user's site rules.
+ * @param hostname The hostname of the page.
+ * @returns The applicable rule, or null if no rule matches.
+ */
+export function findSiteRule(rules: SiteRule[], hostname: string): SiteRule | null {
+    const specificity = (pattern: string) => pattern.startsWith('*.') ? pattern.length : Number.MAX_SAFE_INTEGER;
+    return rules
+        .filter(rule => matchesHostPattern(hostname, rule.pattern))
+        .sort((a, b) => specificity(b.pattern) - specificity(a.pattern))[0] ?? null;
+}
+
+/**
+ * Decides whether auto mode applies to a site. A site rule takes precedence over the global switch.
+ * @param autoMode The global auto mode switch.
+ * @param rules The user's site rules.
+ * @param hostname The hostname of the page.
+ */
+export function isAutoModeActive(autoMode: boolean, rules: SiteRule[], hostname: string): boolean {
+    const siteRule = findSiteRule(rules, hostname);
+    if (siteRule?.mode === SiteRuleMode.ALWAYS_AUTO) return true;
+    if (siteRule?.mode === SiteRuleMode.NEVER) return false;
+    return autoMode;
+}
@@ -0,0 +1,24 @@
+// This utility file serializes the read-modify-write updates of a storage key. Chrome's storage
+// has no transactions, so two updates that both read the old value before either writes would
+// lose one of them (e.g., two tabs finishing their scans at the same time). A queue only
+// serializes the updates made within one extension context, which covers the concurrent ones:
+// the scans all run in the service worker.
+
+/**
+ * Runs an update after the ones queued before it have settled.
+ */
+export type WriteQueue = <T>(update: () => Promise<T>) => Promise<T>;
+
+/**
+ * Creates a queue for the updates of a storage key. Each service keeps its own at module level.
+ * @returns A function that queues an update and resolves (or rejects) with its outcome.
+ *          A failed update does not hold up the ones after it.
+ */
+export function createWriteQueue(): WriteQueue {
+    let tail: Promise<unknown> = Promise.resolve();
+    return <T>(update: () => Promise<T>): Promise<T> => {
+        const result = tail.then(update);
+        tail = result.catch(() => undefined);
+        return result;
+    };
+}
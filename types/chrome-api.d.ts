@@ -27,6 +27,27 @@ declare namespace chrome {
             id?: string;
             url?: string;
         }
+
+        interface Port {
+            name: string;
+            sender?: MessageSender;
+            postMessage(message: any): void;
+            disconnect(): void;
+            onMessage: {
+                addListener(callback: (message: any, port: Port) => void): void;
+                removeListener(callback: (message: any, port: Port) => void): void;
+            };
+            onDisconnect: {
+                addListener(callback: (port: Port) => void): void;
+                removeListener(callback: (port: Port) => void): void;
+            };
+        }
+
+        function connect(connectInfo?: { name?: string }): Port;
+
+        const onConnect: {
+            addListener(callback: (port: Port) => void): void;
+        };
     }
 
     namespace storage {
@@ -41,9 +62,11 @@ declare namespace chrome {
             remove(keys: string | string[], callback?: () => void): void;
         }
         const sync: StorageArea;
+        const local: StorageArea;
         const session: StorageArea;
         const onChanged: {
             addListener(callback: (changes: { [key: string]: StorageChange }, areaName: 'sync' | 'local' | 'managed' | 'session') => void): void;
+            removeListener(callback: (changes: { [key: string]: StorageChange }, areaName: 'sync' | 'local' | 'managed' | 'session') => void): void;
         }
     }
 
@@ -72,6 +95,8 @@ declare namespace chrome {
         }
 
         function query(queryInfo: { active?: boolean, currentWindow?: boolean, url?: string | string[], title?: string }): Promise<Tab[]>;
+        function get(tabId: number): Promise<Tab>;
+        function captureVisibleTab(windowId: number, options: { format?: 'jpeg' | 'png', quality?: number }): Promise<string>;
         function sendMessage(tabId: number, message: any, responseCallback?: (response: any) => void): void;
 
         const onUpdated: {
@@ -83,16 +108,26 @@ declare namespace chrome {
     }
 
     namespace scripting {
+        interface InjectionTarget {
+            tabId: number;
+            allFrames?: boolean;
+            frameIds?: number[];
+        }
         interface InjectionResult {
             result: any;
+            frameId: number;
         }
-        function executeScript(injection: { target: { tabId: number }, func: (...args: any[]) => any, args?: any[] }, callback?: (results: InjectionResult[]) => void): Promise<InjectionResult[]>;
+        function executeScript(injection: { target: InjectionTarget, func: (...args: any[]) => any, args?: any[], world?: 'ISOLATED' | 'MAIN' }, callback?: (results: InjectionResult[]) => void): Promise<InjectionResult[]>;
     }
 
     namespace action {
         const onClicked: {
             addListener(callback: (tab: tabs.Tab) => void): void;
         };
+
+        function setBadgeText(details: { text: string, tabId?: number }): Promise<void>;
+        function setBadgeBackgroundColor(details: { color: string, tabId?: number }): Promise<void>;
+        function setTitle(details: { title: string, tabId?: number }): Promise<void>;
     }
     
     namespace payments {